@@ -1,24 +1,42 @@
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { Hero } from './components/Hero';
 import { AudioInput } from './components/AudioInput';
 import { AnalysisResult } from './components/AnalysisResult';
 import { Login } from './components/Login';
 import { PricingPlans } from './components/PricingPlans';
 import { Tuner } from './components/Tuner';
-import { analyzeAudioContent, analyzeSongFromUrl } from './services/geminiService';
-import { AnalysisStatus, SongAnalysis, AudioMetadata, AnalysisLevel, UserTier } from './types';
+import { SongLibrary } from './components/SongLibrary';
+import { analyzeAudioContent, analyzeSongFromUrl, getAnalysisProvider } from './services/analysisService';
+import { saveSong, getSongAudio, updateSongAnalysis } from './services/songLibrary';
+import { prepareAudio, payloadLimit } from './services/ingest';
+import { isAbortError } from './services/analysisProvider';
+import { arrayBufferToBase64 } from './services/audioUtils';
+import { AnalysisStatus, SongAnalysis, AudioMetadata, AnalysisLevel, UserTier, AnalysisProgress, AnalysisStage, LibraryEntry } from './types';
+
+const STAGES: { id: AnalysisStage; label: string }[] = [
+  { id: 'preparing', label: 'Preparing' },
+  { id: 'uploading', label: 'Uploading' },
+  { id: 'parsing', label: 'Parsing' },
+];
 
 const App: React.FC = () => {
   const [isLoggedIn, setIsLoggedIn] = useState(false);
   const [userTier, setUserTier] = useState<UserTier>('Basic');
   const [showPlans, setShowPlans] = useState(false);
   const [showTuner, setShowTuner] = useState(false);
+  const [showLibrary, setShowLibrary] = useState(false);
 
   const [status, setStatus] = useState<AnalysisStatus>(AnalysisStatus.IDLE);
   const [analysis, setAnalysis] = useState<SongAnalysis | null>(null);
   const [metadata, setMetadata] = useState<AudioMetadata | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const [resultKey, setResultKey] = useState(0); // Remounts the result view for each analysis shown
+  // Library id of the open analysis; a promise because the first save is still running when edits start
+  const libraryEntryRef = useRef<Promise<string | null> | null>(null);
+  const runRef = useRef<AbortController | null>(null); // The analysis in progress, for Cancel
+  const playbackUrlRef = useRef<string | null>(null); // Object URL in `metadata`, revoked once replaced
 
   // --- LOGIN ---
   if (!isLoggedIn) {
@@ -27,94 +45,171 @@ const App: React.FC = () => {
 
   // --- APP LOGIC ---
 
-  const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => {
-        if (typeof reader.result === 'string') {
-          const base64 = reader.result.split(',')[1];
-          resolve(base64);
-        } else {
-          reject(new Error("Failed to convert file to base64"));
-        }
-      };
-      reader.onerror = (error) => reject(error);
-    });
-  };
-
   const getAudioDuration = (file: File): Promise<number> => {
     return new Promise((resolve) => {
         const objectUrl = URL.createObjectURL(file);
         const audio = new Audio();
         audio.onloadedmetadata = () => {
+            URL.revokeObjectURL(objectUrl);
             resolve(audio.duration);
         };
         audio.onerror = () => {
+            URL.revokeObjectURL(objectUrl);
             resolve(0);
         };
         audio.src = objectUrl;
     });
   };
 
-  const getCorrectMimeType = (file: File): string => {
-    if (file.type && file.type.startsWith('audio/')) return file.type;
-    const name = file.name.toLowerCase();
-    if (name.endsWith('.mp3')) return 'audio/mp3';
-    if (name.endsWith('.wav')) return 'audio/wav';
-    return 'audio/mp3';
+  // All metadata changes go through here, so the playback URL of a cancelled run, a reset or the previous song is released
+  const updateMetadata = (meta: AudioMetadata | null) => {
+    const previous = playbackUrlRef.current;
+    if (previous && previous !== meta?.audioUrl) URL.revokeObjectURL(previous);
+    playbackUrlRef.current = meta?.audioUrl ?? null;
+    setMetadata(meta);
+  };
+
+  // Saving is best effort: a full or unavailable IndexedDB must not fail the analysis
+  const saveToLibrary = (result: SongAnalysis, meta: AudioMetadata, audio?: Blob) => {
+    libraryEntryRef.current = saveSong(result, meta, audio)
+      .then(entry => entry.id)
+      .catch(err => {
+        console.warn("Could not save analysis to the library", err);
+        return null;
+      });
+  };
+
+  // Every analysis put on screen gets a fresh result view, so nothing carries over from the last song
+  const showAnalysis = (result: SongAnalysis, meta: AudioMetadata | null) => {
+    updateMetadata(meta);
+    setAnalysis(result);
+    setResultKey(key => key + 1);
+    setStatus(AnalysisStatus.COMPLETE);
+  };
+
+  // --- CANCELLATION ---
+  // Each run gets its own signal. Steps that can't be interrupted (decoding,
+  // transcoding) check it when they return, so a cancelled run never lands.
+
+  const beginRun = (): AbortSignal => {
+    runRef.current?.abort();
+    runRef.current = new AbortController();
+    return runRef.current.signal;
+  };
+
+  const abortRun = () => {
+    runRef.current?.abort();
+    runRef.current = null;
+  };
+
+  const cancelRun = () => {
+    abortRun();
+    setStatus(AnalysisStatus.IDLE);
+    updateMetadata(null);
+    setProgress(null);
   };
 
   const processAudio = async (file: File) => {
+    const signal = beginRun();
     setStatus(AnalysisStatus.PROCESSING_AUDIO);
     setError(null);
     setAnalysis(null);
-    setMetadata(null);
+    updateMetadata(null);
+    setProgress({ stage: 'preparing', message: 'Converting audio for analysis...' });
+    libraryEntryRef.current = null;
 
     try {
-      const fileUrl = URL.createObjectURL(file);
-      const [base64Data, duration] = await Promise.all([
-          fileToBase64(file),
-          getAudioDuration(file)
-      ]);
+      // The original stays the playback source; the analysis gets a compact mono payload
+      const ingested = await prepareAudio(file, signal);
+      signal.throwIfAborted();
+      const limit = payloadLimit(userTier);
+      if (ingested.payload.byteLength > limit) {
+        const mb = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+        throw new Error(`Even compressed, this audio needs ${mb(ingested.payload.byteLength)}MB; the ${userTier} limit is ${mb(limit)}MB. Trim it or upgrade your plan.`);
+      }
+      // Relabel misnamed files so the library copy plays back with the right type
+      const original = ingested.sourceMimeType && ingested.sourceMimeType !== file.type
+        ? new Blob([file], { type: ingested.sourceMimeType })
+        : file;
+      const duration = ingested.duration || await getAudioDuration(file);
+      signal.throwIfAborted();
+      const base64Data = arrayBufferToBase64(ingested.payload);
       
-      setMetadata({
+      // Only once nothing above can throw, so a rejected file leaves no object URL behind
+      const fileMetadata: AudioMetadata = {
           fileName: file.name.replace(/\.[^/.]+$/, ""),
           duration: duration,
-          audioUrl: fileUrl 
-      });
+          audioUrl: URL.createObjectURL(original)
+      };
+      updateMetadata(fileMetadata);
 
-      const mimeType = getCorrectMimeType(file);
       setStatus(AnalysisStatus.ANALYZING_AI);
       
       // No 'level' passed here anymore - we get everything
-      const result = await analyzeAudioContent(base64Data, mimeType, duration);
+      // Basic tier runs on the in-browser DSP engine; paid tiers use the AI provider
+      const engine = userTier === 'Basic' ? 'local' : 'ai';
+      const result = await analyzeAudioContent(base64Data, ingested.mimeType, duration, {
+        engine,
+        signal,
+        onProgress: (p) => { if (!signal.aborted) setProgress(p); },
+      });
+      signal.throwIfAborted();
       
-      setAnalysis(result);
-      setStatus(AnalysisStatus.COMPLETE);
+      showAnalysis(result, fileMetadata);
+      saveToLibrary(result, fileMetadata, original);
 
     } catch (err: any) {
+      if (isAbortError(err)) return; // cancelRun has already reset the screen
       console.error(err);
       setStatus(AnalysisStatus.ERROR);
       setError(err instanceof Error ? err.message : "An unexpected error occurred.");
     }
   };
 
+  // A live take arrives already analyzed; only the tempo is measured from the recording
+  const openLiveSession = async (live: SongAnalysis, file: File) => {
+    const signal = beginRun();
+    setStatus(AnalysisStatus.PROCESSING_AUDIO);
+    setError(null);
+    setProgress({ stage: 'preparing', message: 'Saving the take...' });
+    libraryEntryRef.current = null;
+
+    // MediaRecorder files often report no duration, so fall back to the session length
+    const duration = await getAudioDuration(file);
+    if (signal.aborted) return;
+    const liveMetadata: AudioMetadata = {
+      fileName: live.title,
+      duration: Number.isFinite(duration) && duration > 0 ? duration : live.sections[0]?.endTime || 0,
+      audioUrl: URL.createObjectURL(file),
+    };
+    showAnalysis(live, liveMetadata);
+    saveToLibrary(live, liveMetadata, file);
+  };
+
   const processLink = async (url: string) => {
+    const signal = beginRun();
     setStatus(AnalysisStatus.ANALYZING_AI);
     setError(null);
     setAnalysis(null);
+    setProgress(null);
+    libraryEntryRef.current = null;
     
     let fileName = "Online Link";
     try { const urlObj = new URL(url); fileName = urlObj.hostname; } catch(e) {}
 
-    setMetadata({ fileName: fileName, duration: 0 });
+    const linkMetadata: AudioMetadata = { fileName: fileName, duration: 0 };
+    updateMetadata(linkMetadata);
 
     try {
-      const result = await analyzeSongFromUrl(url);
-      setAnalysis(result);
-      setStatus(AnalysisStatus.COMPLETE);
+      const result = await analyzeSongFromUrl(url, {
+        signal,
+        onProgress: (p) => { if (!signal.aborted) setProgress(p); },
+      });
+      signal.throwIfAborted();
+      showAnalysis(result, linkMetadata);
+      saveToLibrary(result, linkMetadata);
     } catch (err: any) {
+      if (isAbortError(err)) return;
       console.error(err);
       setStatus(AnalysisStatus.ERROR);
       setError(err instanceof Error ? err.message : "Failed to analyze link.");
@@ -122,10 +217,44 @@ const App: React.FC = () => {
   };
 
   const handleReset = () => {
+    abortRun();
     setStatus(AnalysisStatus.IDLE);
     setAnalysis(null);
-    setMetadata(null);
+    updateMetadata(null);
+    setError(null);
+    libraryEntryRef.current = null;
+  };
+
+  // Manual corrections from the result view replace the stored analysis
+  // Each write is chained after the pending save and the previous edit, so none is lost or reordered
+  const handleAnalysisEdited = (edited: SongAnalysis) => {
+    const pending = libraryEntryRef.current;
+    if (!pending) return;
+    libraryEntryRef.current = pending.then(async id => {
+      if (id) await updateSongAnalysis(id, edited).catch(err => console.warn("Could not save edits to the library", err));
+      return id;
+    });
+  };
+
+  // Takes over from any analysis still running, so it can't replace the opened song later
+  const openFromLibrary = async (entry: LibraryEntry) => {
+    const signal = beginRun();
+    setShowLibrary(false);
+    let audioUrl: string | undefined;
+    if (entry.hasAudio) {
+      try {
+        const blob = await getSongAudio(entry.id);
+        if (signal.aborted) return;
+        if (blob) audioUrl = URL.createObjectURL(blob);
+      } catch (err) {
+        console.warn("Could not load saved audio", err);
+      }
+    }
+    if (signal.aborted) return;
     setError(null);
+    setProgress(null);
+    libraryEntryRef.current = Promise.resolve(entry.id);
+    showAnalysis(entry.analysis, { ...entry.metadata, audioUrl });
   };
 
   return (
@@ -140,14 +269,31 @@ const App: React.FC = () => {
       )}
       
       {showTuner && (
-        <Tuner onClose={() => setShowTuner(false)} />
+        <Tuner onClose={() => setShowTuner(false)} songKey={analysis?.key} />
+      )}
+
+      {showLibrary && (
+        <SongLibrary onOpen={openFromLibrary} onClose={() => setShowLibrary(false)} />
       )}
 
       {/* Header Bar */}
       <div className="absolute top-0 w-full z-50 p-4 flex justify-between items-center">
-        <div className="text-white font-bold text-sm tracking-widest opacity-50">CHORD-IA v3.0</div>
+        <div className="flex items-center gap-3">
+            <div className="text-white font-bold text-sm tracking-widest opacity-50">CHORD-IA v3.0</div>
+            {getAnalysisProvider().id === 'mock' && (
+              <span className="bg-amber-500/10 border border-amber-500/40 text-amber-400 px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider">
+                Offline Mode
+              </span>
+            )}
+        </div>
         
         <div className="flex items-center gap-3">
+            <button 
+              onClick={() => setShowLibrary(true)}
+              className="bg-slate-800 hover:bg-slate-700 text-slate-300 border border-slate-700 px-4 py-2 rounded-full text-xs font-bold uppercase tracking-wide transition-all"
+            >
+              Library
+            </button>
             <button 
               onClick={() => setShowTuner(true)}
               className="bg-slate-800 hover:bg-slate-700 text-emerald-400 border border-emerald-500/30 px-4 py-2 rounded-full text-xs font-bold uppercase tracking-wide transition-all flex items-center gap-2 shadow-lg shadow-emerald-900/20"
@@ -172,6 +318,7 @@ const App: React.FC = () => {
             <AudioInput 
               onAudioReady={(file) => processAudio(file)} 
               onLinkReady={(url) => processLink(url)}
+              onLiveSession={openLiveSession}
               status={status} 
               userTier={userTier}
             />
@@ -181,6 +328,10 @@ const App: React.FC = () => {
             <div className="text-center mt-20">
               <div className="inline-block animate-spin rounded-full h-12 w-12 border-4 border-indigo-500 border-t-transparent mb-4"></div>
               <p className="text-indigo-300 text-lg font-medium">Preparing Audio...</p>
+              {progress && <p className="text-slate-400 text-sm mt-2">{progress.message}</p>}
+              <button onClick={cancelRun} className="mt-6 px-6 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-full text-sm font-medium">
+                Cancel
+              </button>
             </div>
           )}
 
@@ -190,10 +341,39 @@ const App: React.FC = () => {
                  <div className="w-16 h-16 border-4 border-indigo-500 border-t-purple-500 rounded-full animate-spin"></div>
               </div>
               <h2 className="text-2xl font-bold text-white mb-2">Analyzing Harmonics...</h2>
+              {progress?.stage && (
+                <div className="flex justify-center gap-2 mb-4">
+                  {STAGES.map((stage, i) => {
+                    const current = STAGES.findIndex(s => s.id === progress.stage);
+                    return (
+                      <span key={stage.id} className={`px-2 py-1 text-[10px] rounded font-bold uppercase tracking-wider border ${i < current ? 'bg-indigo-500/20 text-indigo-300 border-indigo-500/40' : i === current ? 'bg-purple-500/20 text-purple-200 border-purple-400/50 animate-pulse' : 'text-slate-600 border-slate-700'}`}>
+                        {stage.label}
+                      </span>
+                    );
+                  })}
+                </div>
+              )}
               <div className="text-slate-400 space-y-2 text-sm">
-                <p>Generating beat map & structural segmentation...</p>
-                <p>Detecting chord tensions & inversions...</p>
+                <p>{progress?.message || 'Generating beat map & structural segmentation...'}</p>
+                {progress?.attempt !== undefined && progress.attemptCount !== undefined && progress.attempt > 1 && (
+                  <p className="text-amber-400/80 text-xs">Attempt {progress.attempt} of {progress.attemptCount}</p>
+                )}
               </div>
+              {progress?.windowCount !== undefined && progress.windowIndex !== undefined && (
+                <div className="mt-6">
+                  <div className="flex gap-1">
+                    {Array.from({ length: progress.windowCount }, (_, i) => (
+                      <div key={i} className={`h-1.5 flex-1 rounded-full transition-colors ${i < progress.windowIndex! ? 'bg-indigo-500' : i === progress.windowIndex ? 'bg-purple-400 animate-pulse' : 'bg-slate-700'}`}></div>
+                    ))}
+                  </div>
+                  <p className="text-[10px] text-slate-500 uppercase font-bold tracking-widest mt-2">
+                    Window {progress.windowIndex + 1} / {progress.windowCount}
+                  </p>
+                </div>
+              )}
+              <button onClick={cancelRun} className="mt-6 px-6 py-2 bg-slate-800 hover:bg-slate-700 text-slate-300 rounded-full text-sm font-medium">
+                Cancel
+              </button>
             </div>
           )}
 
@@ -217,7 +397,7 @@ const App: React.FC = () => {
                     New Analysis
                   </button>
               </div>
-              <AnalysisResult analysis={analysis} metadata={metadata} />
+              <AnalysisResult key={resultKey} analysis={analysis} metadata={metadata} onAnalysisChange={handleAnalysisEdited} />
             </div>
           )}
 
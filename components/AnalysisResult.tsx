@@ -1,54 +1,76 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { SongAnalysis, ChordEvent, AudioMetadata, AnalysisLevel } from '../types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { SongAnalysis, ChordEvent, AudioMetadata, AnalysisLevel, PracticeLoop } from '../types';
+import { recognizeChords, compareTimelines } from '../services/dspChordRecognizer';
+import { getDisplayChord, parseKey, keyAtTime, transposeAnalysis, transposeChords, transposeKeyLabel } from '../services/musicTheory';
+import { analyzeChordFunction, HarmonicFunction, NumeralStyle } from '../services/functionalHarmony';
+import { getGuitarVoicings, suggestCapo } from '../services/guitarChords';
+import { toChordPro, toTextChart } from '../services/chartExport';
+import { toMidiFile } from '../services/midiExport';
+import { toAnalysisJson } from '../services/songLibrary';
+import { downloadBlob, downloadText, safeFileName } from '../services/download';
+import { EditHistory, ChordFields, createHistory, pushHistory, undo, redo, buildSymbol, updateChord, splitChord, mergeChord, moveChordBoundary, updateSection, alignChordsToBeats } from '../services/timelineEditor';
+import { analyzeTempoFromData, compareTempo, tempoRange, TempoAgreement } from '../services/beatTracker';
+import { withDownbeatAt, beatGridOf } from '../services/measureGrid';
+import { createPlaybackEngine, PlaybackEngine } from '../services/playbackEngine';
+import { createChordSynth, ChordSynth } from '../services/chordSynth';
+import { createMetronome, Metronome } from '../services/metronome';
+import { buildAudioOverviewFromData, AudioOverview } from '../services/audioOverview';
+import { createLoop, sectionLoop, rampedRate, saveLoop, deleteLoop, RAMP_START_RATE } from '../services/practiceLoop';
+import { ChordDiagram } from './ChordDiagram';
+import { MeasureGrid } from './MeasureGrid';
+import { WaveformLane, ChromaLane } from './TimelineLanes';
+import { LoopControls } from './LoopControls';
+import { MixerControls, MixState, INITIAL_MIX, channelGain } from './MixerControls';
+import { MetronomeControls, MetronomeState, INITIAL_METRONOME } from './MetronomeControls';
 
 interface AnalysisResultProps {
   analysis: SongAnalysis | null;
   metadata: AudioMetadata | null;
+  onAnalysisChange?: (analysis: SongAnalysis) => void; // Called with the edited analysis after each edit, undo or redo
 }
 
-// --- UTILS ---
-const cleanStr = (str: any) => {
-  if (!str) return '';
-  const s = String(str).trim();
-  if (['none', 'null', 'undefined', 'n/a', 'nan', 'NONE', 'NULL'].includes(s)) return '';
-  return s;
-};
+// --- Chord editor options ---
+const ROOT_OPTIONS = ['N.C.', 'C', 'C#', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
+const QUALITY_OPTIONS = ['', 'm', 'dim', 'aug', 'sus2', 'sus4'];
+const BASS_OPTIONS = ['', ...ROOT_OPTIONS.slice(1)];
+// Keep unusual values coming from the AI selectable
+const withCurrent = (options: string[], value: string) => (options.includes(value) ? options : [...options, value]);
 
-const getDisplayChord = (chord: ChordEvent, level: AnalysisLevel): string => {
-  const root = cleanStr(chord.root);
-  let quality = cleanStr(chord.quality).toLowerCase();
-  let extension = cleanStr(chord.extension);
-  let bass = cleanStr(chord.bass);
-  const symbol = cleanStr(chord.symbol);
-  
-  // Normalize quality
-  if (quality === 'minor' || quality === 'min') quality = 'm';
-  if (quality === 'major' || quality === 'maj') quality = ''; 
-  if (quality === 'dominant' || quality === 'dom') quality = ''; 
-  
-  // --- BASIC MODE: STRICT TRIADS ONLY ---
-  if (level === 'Basic') {
-     // If it's diminished or augmented, keep that info as it's critical for function
-     if (quality === 'dim' || quality === 'aug') return `${root}${quality}`;
-     // Otherwise, strictly Root + m (if minor)
-     // No 7ths, no slash bass
-     return `${root}${quality === 'm' ? 'm' : ''}`; 
-  }
-  
-  // --- ADVANCED/INTERMEDIATE ---
-  if (symbol && symbol.length < 15 && !symbol.toLowerCase().includes('none')) {
-      return symbol;
-  }
+// Marks chords outside the key in the Functional view
+const FUNCTION_STYLES: Record<HarmonicFunction, string> = {
+  diatonic: 'text-slate-500',
+  secondary: 'text-amber-400',
+  borrowed: 'text-sky-400',
+  chromatic: 'text-rose-400',
+};
 
-  return `${root}${quality}${extension}${bass && bass !== root ? `/${bass}` : ''}`;
+// How the AI's BPM relates to the tracked beats
+const TEMPO_FLAGS: Record<Exclude<TempoAgreement, 'match'>, string> = {
+  half: 'AI counts half time',
+  double: 'AI counts double time',
+  mismatch: 'AI BPM disagrees',
 };
 
+// --- Visualizer ---
+const ZOOM_LEVELS = [30, 60, 120, 240, 480]; // Pixels per second
+const CHROMA_LANE_HEIGHT = 48;
+
 // --- Player & Grid Component ---
 const ChordPlayer: React.FC<{ 
   audioUrl?: string, 
   duration: number, 
-  analysis: SongAnalysis 
-}> = ({ audioUrl, duration, analysis }) => {
+  analysis: SongAnalysis,
+  referenceChords?: ChordEvent[], // Second opinion (local DSP) drawn under the main timeline
+  transpose: number,
+  onTransposeChange: (semitones: number) => void,
+  complexity: AnalysisLevel,
+  onComplexityChange: (level: AnalysisLevel) => void,
+  onEdit: (edit: (analysis: SongAnalysis) => SongAnalysis) => void, // Edits apply to the untransposed analysis
+  onUndo: () => void,
+  onRedo: () => void,
+  canUndo: boolean,
+  canRedo: boolean
+}> = ({ audioUrl, duration, analysis, referenceChords, transpose, onTransposeChange, complexity, onComplexityChange, onEdit, onUndo, onRedo, canUndo, canRedo }) => {
   const audioRef = useRef<HTMLAudioElement>(null);
   const gridContainerRef = useRef<HTMLDivElement>(null);
   const cardRefs = useRef<(HTMLButtonElement | null)[]>([]);
@@ -57,15 +79,217 @@ const ChordPlayer: React.FC<{
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [playbackRate, setPlaybackRate] = useState(1.0);
-  const [complexity, setComplexity] = useState<AnalysisLevel>('Advanced');
+  const [showGuitar, setShowGuitar] = useState(false);
+  const [capo, setCapo] = useState(0);
+  const [voicingChoice, setVoicingChoice] = useState<Record<string, number>>({});
+  const [editMode, setEditMode] = useState(false);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [functional, setFunctional] = useState(false);
+  const [numeralStyle, setNumeralStyle] = useState<NumeralStyle>('roman');
+  const [gridView, setGridView] = useState<'cards' | 'bars'>('cards');
+  const [drag, setDrag] = useState<{ index: number; originX: number; originTime: number; time: number } | null>(null);
+
+  // --- PRACTICE LOOP ---
+  const [loop, setLoop] = useState<PracticeLoop | null>(null);
+  const [pendingRange, setPendingRange] = useState<{ start: number; end: number } | null>(null); // A point waiting for B
+  const [countingIn, setCountingIn] = useState(false);
+  const [rampStep, setRampStep] = useState(0);
+  const [repeat, setRepeat] = useState(0);
+  const repeatRef = useRef(0);
 
-  const FIXED_PPS = 120; 
+  // --- PITCH SHIFT ---
+  // When enabled the recording follows the transpose setting; time reads go through the engine
+  const engineRef = useRef<PlaybackEngine | null>(null);
+  const [shiftAudio, setShiftAudio] = useState(false);
+  const [shiftError, setShiftError] = useState(false);
+
+  useEffect(() => {
+    if (!audioRef.current) return;
+    const engine = createPlaybackEngine(audioRef.current);
+    engineRef.current = engine;
+    return () => {
+      engine.dispose();
+      engineRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    engine.setSemitones(shiftAudio ? transpose : 0).catch(err => {
+      console.error("Pitch shift unavailable", err);
+      setShiftAudio(false);
+      setShiftError(true);
+    });
+  }, [transpose, shiftAudio]);
+
+  const audibleTime = (audio: HTMLAudioElement) => engineRef.current?.getCurrentTime() ?? audio.currentTime;
+
+  // --- CHORD SYNTH & MIX ---
+  const synthRef = useRef<ChordSynth | null>(null);
+  const [mix, setMix] = useState<MixState>(INITIAL_MIX);
+  // The synth plays at the pitch the recording is heard at: transposed only while the audio is shifted too
+  const synthShift = shiftAudio ? 0 : -transpose;
+  const soundingChords = useMemo(
+    () => (synthShift ? transposeChords(analysis.chords, synthShift, analysis.key, analysis.keyRegions) : analysis.chords),
+    [analysis.chords, analysis.key, analysis.keyRegions, synthShift]
+  );
+  // Read from the animation frame without restarting it
+  const synthTimeline = useRef({ on: false, chords: soundingChords, level: complexity });
+  synthTimeline.current = { on: mix.synthOn, chords: soundingChords, level: complexity };
+
+  useEffect(() => {
+    const synth = createChordSynth();
+    synthRef.current = synth;
+    return () => {
+      synth.dispose();
+      synthRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.volume = channelGain(mix, 'original');
+    const synth = synthRef.current;
+    if (!synth) return;
+    synth.setVolume(channelGain(mix, 'synth'));
+    synth.setPreset(mix.preset);
+    if (!mix.synthOn) synth.stop();
+  }, [mix]);
+
+  const previewChord = (chord: ChordEvent) => {
+    if (!mix.synthOn || isPlaying) return;
+    const sounding = synthShift ? transposeChords([chord], synthShift, analysis.key, analysis.keyRegions)[0] : chord;
+    synthRef.current?.preview(sounding, complexity);
+  };
+
+  // --- METRONOME ---
+  const metronomeRef = useRef<Metronome | null>(null);
+  const beatGrid = useMemo(
+    () => beatGridOf(analysis),
+    [analysis.bpm, analysis.timeSignature, analysis.downbeatOffset, analysis.tempoMap]
+  );
+  const [metronome, setMetronome] = useState<MetronomeState>(
+    () => ({ ...INITIAL_METRONOME, bpm: Math.round(60 / beatGridOf(analysis).beatSeconds) })
+  );
+  const clickTrack = useRef({ on: false, grid: beatGrid });
+  clickTrack.current = { on: metronome.clickOn, grid: beatGrid };
+
+  useEffect(() => {
+    const click = createMetronome();
+    metronomeRef.current = click;
+    return () => {
+      click.dispose();
+      metronomeRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const click = metronomeRef.current;
+    if (!click) return;
+    click.setVolume(metronome.volume);
+    click.setPhaseOffset(metronome.offsetMs / 1000);
+    if (!metronome.clickOn && !metronome.standalone) click.stop();
+  }, [metronome.volume, metronome.offsetMs, metronome.clickOn, metronome.standalone]);
+
+  // Standalone: free-running at the chosen tempo; it and the recording never play together
+  const changeMetronome = (next: MetronomeState) => {
+    const click = metronomeRef.current;
+    if (next.standalone && (!metronome.standalone || next.bpm !== metronome.bpm)) {
+      if (isPlaying) togglePlay();
+      click?.start(next.bpm, beatGrid.beatsPerBar);
+    } else if (!next.standalone && metronome.standalone) {
+      click?.stop();
+    }
+    setMetronome(next);
+  };
+
+  // --- VISUALIZER ---
+  const [pixelsPerSecond, setPixelsPerSecond] = useState(120);
+  const [showChroma, setShowChroma] = useState(false);
+  const [overview, setOverview] = useState<AudioOverview | null>(null);
+  const [overviewStatus, setOverviewStatus] = useState<'idle' | 'loading' | 'error'>('idle');
+  const timelineRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!audioUrl) return;
+    let cancelled = false;
+    setOverview(null);
+    setOverviewStatus('loading');
+    (async () => {
+      try {
+        const response = await fetch(audioUrl);
+        const next = await buildAudioOverviewFromData(await response.arrayBuffer());
+        if (cancelled) return;
+        setOverview(next);
+        setOverviewStatus('idle');
+      } catch (err) {
+        console.error("Waveform unavailable", err);
+        if (!cancelled) setOverviewStatus('error');
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [audioUrl]);
+
+  const zoomIndex = ZOOM_LEVELS.indexOf(pixelsPerSecond);
+
+  // The scrolling layer starts at time 0, so its left edge converts a click straight to a time
+  const seekToClientX = (clientX: number) => {
+    const audio = audioRef.current;
+    const timeline = timelineRef.current;
+    if (!audio || !timeline) return;
+    const time = Math.max(0, Math.min(duration, (clientX - timeline.getBoundingClientRect().left) / pixelsPerSecond));
+    audio.currentTime = time;
+    setCurrentTime(time);
+  };
+
+  const applyRate = (rate: number) => {
+    setPlaybackRate(rate);
+    if (audioRef.current) audioRef.current.playbackRate = rate;
+  };
+
+  const activateLoop = (next: PracticeLoop | null) => {
+    setLoop(next);
+    setPendingRange(null);
+    repeatRef.current = 0;
+    setRepeat(0);
+    if (!next) return;
+    if (rampStep > 0) applyRate(RAMP_START_RATE);
+    const audio = audioRef.current;
+    if (audio && (audio.currentTime < next.start || audio.currentTime >= next.end)) {
+      audio.currentTime = next.start;
+      setCurrentTime(next.start);
+    }
+  };
+
+  // Jumps back to A; called from the animation frame so repeats don't wait for timeupdate
+  const wrapLoop = (audio: HTMLAudioElement, active: PracticeLoop) => {
+    audio.currentTime = active.start;
+    repeatRef.current += 1;
+    setRepeat(repeatRef.current);
+    if (rampStep > 0) applyRate(rampedRate(repeatRef.current, rampStep));
+  };
+
+  /** Shift-click on chords or beats: the first marks A, the second closes the loop over both. */
+  const markLoopRange = (start: number, end: number) => {
+    if (!pendingRange) {
+      setPendingRange({ start, end });
+      return;
+    }
+    activateLoop(createLoop(Math.min(pendingRange.start, start), Math.max(pendingRange.end, end)));
+  };
 
   useEffect(() => {
     let animationFrameId: number;
     const update = () => {
-      if (audioRef.current) {
-        setCurrentTime(audioRef.current.currentTime);
+      const audio = audioRef.current;
+      if (audio) {
+        if (loop && audio.currentTime >= loop.end) wrapLoop(audio, loop);
+        const time = audibleTime(audio);
+        setCurrentTime(time);
+        const { on, chords, level } = synthTimeline.current;
+        if (on && isPlaying) synthRef.current?.update(chords, level, time, audio.playbackRate);
+        const clicks = clickTrack.current;
+        if (clicks.on && isPlaying) metronomeRef.current?.update(clicks.grid, time, audio.playbackRate);
       }
       if (isPlaying) {
         animationFrameId = requestAnimationFrame(update);
@@ -75,7 +299,7 @@ const ChordPlayer: React.FC<{
       animationFrameId = requestAnimationFrame(update);
     }
     return () => cancelAnimationFrame(animationFrameId);
-  }, [isPlaying]);
+  }, [isPlaying, loop, rampStep]);
 
   // --- INTERNAL SCROLL LOGIC ---
   useEffect(() => {
@@ -104,12 +328,39 @@ const ChordPlayer: React.FC<{
     }
   }, [currentTime, isPlaying, analysis.chords]);
 
-  const togglePlay = () => {
-    if (audioRef.current) {
-      if (isPlaying) audioRef.current.pause();
-      else audioRef.current.play();
-      setIsPlaying(!isPlaying);
+  const togglePlay = async () => {
+    const audio = audioRef.current;
+    if (!audio || countingIn) return;
+    if (isPlaying) {
+      audio.pause();
+      synthRef.current?.stop();
+      metronomeRef.current?.stop();
+      setIsPlaying(false);
+      return;
+    }
+    if (metronome.standalone) {
+      metronomeRef.current?.stop();
+      setMetronome(m => ({ ...m, standalone: false }));
+    }
+    if (loop && (audio.currentTime < loop.start || audio.currentTime >= loop.end)) {
+      audio.currentTime = loop.start;
+      setCurrentTime(loop.start);
     }
+    await engineRef.current?.resume();
+    if (metronome.countInBars > 0) {
+      setCountingIn(true);
+      try {
+        await metronomeRef.current?.countIn(
+          metronome.countInBars * beatGrid.beatsPerBar, beatGrid.beatsPerBar, beatGrid.beatSeconds / audio.playbackRate
+        );
+      } catch (err) {
+        console.warn("Count-in failed", err);
+      } finally {
+        setCountingIn(false);
+      }
+    }
+    audio.play();
+    setIsPlaying(true);
   };
 
   const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -122,6 +373,85 @@ const ChordPlayer: React.FC<{
 
   const activeChord = analysis.chords?.find(c => currentTime >= c.seconds && currentTime < (c.seconds + c.duration));
 
+  // --- GUITAR ---
+  const capoSuggestions = useMemo(
+    () => (showGuitar ? suggestCapo(analysis.chords, analysis.key, complexity).slice(0, 3) : []),
+    [showGuitar, analysis.chords, analysis.key, complexity]
+  );
+  // Shapes are fingered relative to the capo, so they are the sounding chords moved down
+  const shapeChords = useMemo(
+    () => (capo ? transposeChords(analysis.chords, -capo, analysis.key, analysis.keyRegions) : analysis.chords),
+    [analysis.chords, analysis.key, analysis.keyRegions, capo]
+  );
+
+  // --- FUNCTIONAL VIEW ---
+  const keyInfo = useMemo(() => parseKey(analysis.key), [analysis.key]);
+  // Each chord is read in the key in effect when it starts
+  const functionalChords = useMemo(() => {
+    if (!functional || !keyInfo) return null;
+    return analysis.chords.map(c => {
+      const key = parseKey(keyAtTime(analysis, c.seconds)) || keyInfo;
+      return analyzeChordFunction(c, key, numeralStyle);
+    });
+  }, [functional, keyInfo, analysis, numeralStyle]);
+  // Numerals replace chord names everywhere in the player while the Functional view is on
+  const chordText = (chord: ChordEvent, index: number, level: AnalysisLevel) =>
+    functionalChords?.[index]?.label ?? getDisplayChord(chord, level);
+
+  const referenceAt = (time: number) => referenceChords?.find(c => time >= c.seconds && time < (c.seconds + c.duration));
+
+  // --- EDITING ---
+  useEffect(() => {
+    if (!editMode) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (!(e.ctrlKey || e.metaKey) || target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA') return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) { e.preventDefault(); onUndo(); }
+      else if ((key === 'z' && e.shiftKey) || key === 'y') { e.preventDefault(); onRedo(); }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [editMode, onUndo, onRedo]);
+
+  const selectedChord = selectedIndex !== null ? analysis.chords[selectedIndex] : undefined;
+  const activeIndex = activeChord ? analysis.chords.indexOf(activeChord) : -1;
+
+  // The editor shows transposed chords, so a correction is moved back to the original key before it is stored
+  const editChord = (index: number, fields: ChordFields) => {
+    const edited = { ...analysis.chords[index], ...fields };
+    const original = transpose ? transposeChords([{ ...edited, symbol: buildSymbol(edited) }], -transpose, analysis.key, analysis.keyRegions)[0] : edited;
+    onEdit(a => updateChord(a, index, original));
+  };
+
+  const startBoundaryDrag = (e: React.PointerEvent, index: number) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const time = analysis.chords[index].seconds;
+    setDrag({ index, originX: e.clientX, originTime: time, time });
+  };
+  const moveBoundaryDrag = (e: React.PointerEvent) => {
+    if (drag) setDrag({ ...drag, time: drag.originTime + (e.clientX - drag.originX) / pixelsPerSecond });
+  };
+  const endBoundaryDrag = () => {
+    if (!drag) return;
+    const { index, time } = drag;
+    setDrag(null);
+    onEdit(a => moveChordBoundary(a, index, time));
+  };
+
+  // Modulating songs get a key lane under the sections
+  const hasKeyLane = (analysis.keyRegions?.length || 0) > 1;
+  // Stacked from the bottom: reference chords, then the chroma lane, then the main chords over the waveform
+  const laneBottom = referenceChords ? 32 : 0;
+  const chordAreaBottom = laneBottom + (showChroma && overview ? CHROMA_LANE_HEIGHT : 0);
+
+  // Live preview of a boundary drag; committed to the history on release
+  const timelineChords = useMemo(
+    () => (drag ? moveChordBoundary(analysis, drag.index, drag.time).chords : analysis.chords),
+    [analysis, drag]
+  );
+
   return (
     <div className="w-full max-w-7xl mx-auto space-y-8">
       
@@ -130,25 +460,46 @@ const ChordPlayer: React.FC<{
         <audio 
             ref={audioRef} 
             src={audioUrl} 
-            onEnded={() => setIsPlaying(false)} 
-            onTimeUpdate={(e) => { if(!isPlaying) setCurrentTime(e.currentTarget.currentTime); }}
+            onEnded={(e) => {
+                // A loop that runs to the end of the file wraps here instead of in the animation frame
+                if (loop) { wrapLoop(e.currentTarget, loop); e.currentTarget.play(); }
+                else { setIsPlaying(false); synthRef.current?.stop(); metronomeRef.current?.stop(); }
+            }} 
+            onTimeUpdate={(e) => { if(!isPlaying) setCurrentTime(audibleTime(e.currentTarget)); }}
         />
 
         {/* Visualizer */}
-        <div className="relative bg-slate-950 h-48 sm:h-64 overflow-hidden border-b border-slate-800 select-none">
+        <div className="relative bg-slate-950 h-48 sm:h-64 overflow-hidden border-b border-slate-800 select-none cursor-pointer"
+             onClick={(e) => seekToClientX(e.clientX)}>
              <div className="absolute left-1/2 top-0 bottom-0 w-0.5 bg-indigo-500 z-30 shadow-[0_0_15px_indigo]"></div>
+
+             {overview && (
+                <>
+                    <WaveformLane overview={overview} currentTime={currentTime} pixelsPerSecond={pixelsPerSecond}
+                        className={`absolute inset-x-0 ${hasKeyLane ? 'top-12' : 'top-8'} pointer-events-none`}
+                        style={{ bottom: `${chordAreaBottom}px` }} />
+                    {showChroma && (
+                        <ChromaLane overview={overview} currentTime={currentTime} pixelsPerSecond={pixelsPerSecond}
+                            className="absolute inset-x-0 border-t border-slate-800 pointer-events-none"
+                            style={{ bottom: `${laneBottom}px`, height: `${CHROMA_LANE_HEIGHT}px` }} />
+                    )}
+                </>
+             )}
              
              <div 
+               ref={timelineRef}
                className="absolute top-0 bottom-0 left-1/2 will-change-transform"
-               style={{ transform: `translate3d(${-currentTime * FIXED_PPS}px, 0, 0)` }}
+               style={{ transform: `translate3d(${-currentTime * pixelsPerSecond}px, 0, 0)` }}
              >
                 <div className="absolute top-0 h-6 flex">
                     {analysis.sections?.map((section, i) => (
                         <div key={i} 
-                            className="h-full px-2 text-[9px] font-bold uppercase flex items-center text-white/80 border-r border-white/10 truncate whitespace-nowrap"
+                            onClick={(e) => { e.stopPropagation(); activateLoop(sectionLoop(section)); }}
+                            title={`Loop ${section.name}`}
+                            className="h-full px-2 text-[9px] font-bold uppercase flex items-center text-white/80 border-r border-white/10 truncate whitespace-nowrap cursor-pointer hover:brightness-125"
                             style={{ 
-                                left: `${section.startTime * FIXED_PPS}px`, 
-                                width: `${(section.endTime - section.startTime) * FIXED_PPS}px`,
+                                left: `${section.startTime * pixelsPerSecond}px`, 
+                                width: `${(section.endTime - section.startTime) * pixelsPerSecond}px`,
                                 position: 'absolute',
                                 backgroundColor: section.color || '#334155'
                             }}
@@ -158,25 +509,93 @@ const ChordPlayer: React.FC<{
                     ))}
                 </div>
 
-                <div className="absolute top-8 bottom-0 flex">
-                    {analysis.chords?.map((chord, i) => (
+                {loop && (
+                    <div className="absolute top-0 bottom-0 bg-amber-400/10 border-x-2 border-amber-400/60 pointer-events-none"
+                         style={{ left: `${loop.start * pixelsPerSecond}px`, width: `${(loop.end - loop.start) * pixelsPerSecond}px` }} />
+                )}
+
+                {hasKeyLane && (
+                    <div className="absolute top-6 h-5 flex">
+                        {analysis.keyRegions!.map((region, i) => (
+                            <div key={i}
+                                className="absolute h-full px-2 text-[9px] font-bold flex items-center text-sky-300/80 bg-sky-500/10 border-r border-l border-sky-400/20 truncate whitespace-nowrap"
+                                style={{
+                                    left: `${region.startTime * pixelsPerSecond}px`,
+                                    width: `${(region.endTime - region.startTime) * pixelsPerSecond}px`
+                                }}
+                            >
+                                {region.key}
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <div className={`absolute ${hasKeyLane ? 'top-12' : 'top-8'} flex`} style={{ bottom: `${chordAreaBottom}px` }}>
+                    {timelineChords.map((chord, i) => (
                         <div key={i}
-                             className={`absolute top-0 bottom-0 border-r border-white/5 flex items-center justify-center transition-opacity ${activeChord === chord ? 'opacity-100 bg-white/5' : 'opacity-40'}`}
+                             className={`absolute top-0 bottom-0 border-r border-white/5 flex items-center justify-center transition-opacity ${i === activeIndex ? 'opacity-100 bg-white/5' : 'opacity-40'} ${editMode && i === selectedIndex ? 'ring-1 ring-inset ring-amber-400/60' : ''}`}
                              style={{
-                                 left: `${chord.seconds * FIXED_PPS}px`,
-                                 width: `${Math.max(chord.duration * FIXED_PPS, 2)}px`
+                                 left: `${chord.seconds * pixelsPerSecond}px`,
+                                 width: `${Math.max(chord.duration * pixelsPerSecond, 2)}px`
                              }}
                         >
                             <span className="text-lg sm:text-2xl font-bold text-white/30 truncate px-1">
-                                {getDisplayChord(chord, 'Basic')}
+                                {chordText(chord, i, 'Basic')}
                             </span>
                         </div>
                     ))}
+                    {editMode && timelineChords.map((chord, i) => i > 0 && (
+                        <div key={`edge${i}`}
+                             onPointerDown={(e) => startBoundaryDrag(e, i)}
+                             onPointerMove={moveBoundaryDrag}
+                             onPointerUp={endBoundaryDrag}
+                             onPointerCancel={() => setDrag(null)}
+                             onClick={(e) => e.stopPropagation()}
+                             title="Drag to move the chord change"
+                             className={`absolute top-0 bottom-0 w-2 -ml-1 z-10 cursor-ew-resize touch-none ${drag?.index === i ? 'bg-amber-400/70' : 'bg-amber-400/20 hover:bg-amber-400/50'}`}
+                             style={{ left: `${chord.seconds * pixelsPerSecond}px` }}
+                        />
+                    ))}
                 </div>
+
+                {referenceChords && (
+                    <div className="absolute bottom-0 h-8 flex border-t border-emerald-500/20">
+                        {referenceChords.map((chord, i) => (
+                            <div key={i}
+                                 className="absolute top-0 bottom-0 border-r border-emerald-500/10 flex items-center justify-center"
+                                 style={{
+                                     left: `${chord.seconds * pixelsPerSecond}px`,
+                                     width: `${Math.max(chord.duration * pixelsPerSecond, 2)}px`
+                                 }}
+                            >
+                                <span className="text-[10px] font-bold text-emerald-400/60 truncate px-1">
+                                    {getDisplayChord(chord, 'Basic')}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                )}
              </div>
              
              <div className="absolute inset-y-0 left-0 w-1/4 bg-gradient-to-r from-slate-900 via-slate-900/80 to-transparent z-20 pointer-events-none"></div>
              <div className="absolute inset-y-0 right-0 w-1/4 bg-gradient-to-l from-slate-900 via-slate-900/80 to-transparent z-20 pointer-events-none"></div>
+
+             <div className="absolute top-1 right-2 z-30 flex items-center gap-2 text-[10px]" onClick={(e) => e.stopPropagation()}>
+                 {overviewStatus === 'loading' && <span className="text-slate-500 font-bold uppercase tracking-wider">Loading waveform...</span>}
+                 {overviewStatus === 'error' && <span className="text-red-400/80 font-bold uppercase tracking-wider">No waveform</span>}
+                 <button onClick={() => setShowChroma(!showChroma)} disabled={!overview}
+                     title="Show which pitch classes sound over time"
+                     className={`px-2 py-1 rounded font-bold uppercase tracking-wider transition-colors disabled:opacity-30 ${showChroma ? 'bg-indigo-500/20 text-indigo-300' : 'bg-slate-900/80 text-slate-400 hover:text-slate-200'}`}>
+                     Chroma
+                 </button>
+                 <div className="flex items-center bg-slate-900/80 rounded-lg p-0.5">
+                     <button onClick={() => setPixelsPerSecond(ZOOM_LEVELS[zoomIndex - 1])} disabled={zoomIndex <= 0} title="Zoom out"
+                         className="px-2 py-1 rounded font-bold text-slate-400 hover:text-slate-200 disabled:opacity-30">−</button>
+                     <span className="font-mono text-slate-400 w-14 text-center">{pixelsPerSecond} px/s</span>
+                     <button onClick={() => setPixelsPerSecond(ZOOM_LEVELS[zoomIndex + 1])} disabled={zoomIndex >= ZOOM_LEVELS.length - 1} title="Zoom in"
+                         className="px-2 py-1 rounded font-bold text-slate-400 hover:text-slate-200 disabled:opacity-30">+</button>
+                 </div>
+             </div>
         </div>
 
         {/* Controls */}
@@ -191,20 +610,70 @@ const ChordPlayer: React.FC<{
                 <span className="text-xs font-mono text-slate-400 w-10">{Math.floor(duration/60)}:{Math.floor(duration%60).toString().padStart(2,'0')}</span>
              </div>
 
+             <MixerControls mix={mix} onChange={setMix} />
+
+             <MetronomeControls
+                state={metronome}
+                timeSignature={analysis.timeSignature}
+                onChange={changeMetronome}
+             />
+
+             <LoopControls
+                loop={loop}
+                savedLoops={analysis.loops || []}
+                pendingStart={pendingRange?.start ?? null}
+                repeat={repeat}
+                playbackRate={playbackRate}
+                rampStep={rampStep}
+                onSetA={() => setPendingRange({ start: currentTime, end: currentTime })}
+                onSetB={() => activateLoop(createLoop(pendingRange?.start ?? loop!.start, currentTime))}
+                onClear={() => activateLoop(null)}
+                onSave={() => loop && onEdit(a => saveLoop(a, loop))}
+                onSelect={activateLoop}
+                onDelete={(i) => onEdit(a => deleteLoop(a, i))}
+                onRampStepChange={(step) => {
+                    setRampStep(step);
+                    if (loop && step > 0) applyRate(rampedRate(repeatRef.current, step));
+                }}
+             />
+
              <div className="flex justify-between items-center">
                  <div className="flex items-center gap-4">
-                     <button onClick={togglePlay} className="w-12 h-12 bg-white rounded-full flex items-center justify-center text-black hover:scale-105 transition shadow-lg shadow-white/10 active:scale-95">
+                     <button onClick={togglePlay} disabled={countingIn} title={countingIn ? 'Counting in...' : undefined}
+                        className={`w-12 h-12 bg-white rounded-full flex items-center justify-center text-black hover:scale-105 transition shadow-lg shadow-white/10 active:scale-95 ${countingIn ? 'animate-pulse' : ''}`}>
                         {isPlaying ? <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24"><path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z"/></svg> : <svg className="w-5 h-5 ml-0.5" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>}
                      </button>
                      <div>
                         <div className="text-[10px] text-slate-500 font-bold uppercase tracking-wider">Now Playing</div>
                         <div className="text-white font-bold text-xl sm:text-2xl leading-none mt-1">
-                            {activeChord ? getDisplayChord(activeChord, complexity) : '--'}
+                            {activeChord ? chordText(activeChord, activeIndex, complexity) : '--'}
                         </div>
                      </div>
                  </div>
                  
                  <div className="flex items-center gap-3">
+                     <div className="flex flex-col items-end">
+                        <span className="text-[10px] font-bold text-slate-500 uppercase">Transpose</span>
+                        <div className="flex items-center bg-slate-800 rounded-lg p-0.5 mt-0.5">
+                            <button onClick={() => onTransposeChange(Math.max(-11, transpose - 1))} disabled={transpose <= -11}
+                                className="px-2 py-1 text-[10px] rounded font-bold text-slate-400 hover:text-slate-200 disabled:opacity-30">
+                                −
+                            </button>
+                            <button onClick={() => onTransposeChange(0)} title="Reset to original key"
+                                className={`px-2 py-1 text-[10px] rounded font-bold font-mono min-w-[2.5rem] transition-colors ${transpose !== 0 ? 'bg-indigo-600 text-white' : 'text-slate-400'}`}>
+                                {transpose > 0 ? `+${transpose}` : transpose}
+                            </button>
+                            <button onClick={() => onTransposeChange(Math.min(11, transpose + 1))} disabled={transpose >= 11}
+                                className="px-2 py-1 text-[10px] rounded font-bold text-slate-400 hover:text-slate-200 disabled:opacity-30">
+                                +
+                            </button>
+                            <button onClick={() => { setShiftAudio(!shiftAudio); setShiftError(false); }} disabled={!audioUrl}
+                                title={shiftError ? 'Pitch shifting is not supported in this browser' : 'Shift the recording to the transposed key'}
+                                className={`ml-0.5 px-2 py-1 text-[10px] rounded uppercase font-bold transition-colors disabled:opacity-30 ${shiftAudio ? 'bg-indigo-500/30 text-indigo-200' : shiftError ? 'text-red-400' : 'text-slate-500 hover:text-slate-300'}`}>
+                                Audio
+                            </button>
+                        </div>
+                     </div>
                      <div className="flex flex-col items-end">
                         <span className="text-[10px] font-bold text-slate-500 uppercase">Speed</span>
                         <div className="flex bg-slate-800 rounded-lg p-0.5 mt-0.5">
@@ -228,30 +697,215 @@ const ChordPlayer: React.FC<{
                 <svg className="w-5 h-5 text-indigo-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2V6zM14 6a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2V6zM4 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2H6a2 2 0 01-2-2v-2zM14 16a2 2 0 012-2h2a2 2 0 012 2v2a2 2 0 01-2 2h-2a2 2 0 01-2-2v-2z" /></svg>
                 Harmonic Grid
               </h2>
+              <div className="flex items-center gap-3">
+              {editMode && (
+                  <div className="flex bg-slate-900 rounded-lg p-1">
+                      <button onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)"
+                          className="px-2 py-1 text-[10px] rounded uppercase font-bold tracking-wider text-slate-400 hover:text-slate-200 disabled:opacity-30">
+                          Undo
+                      </button>
+                      <button onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)"
+                          className="px-2 py-1 text-[10px] rounded uppercase font-bold tracking-wider text-slate-400 hover:text-slate-200 disabled:opacity-30">
+                          Redo
+                      </button>
+                  </div>
+              )}
+              <div className="flex bg-slate-900 rounded-lg p-1">
+                  {(['cards', 'bars'] as const).map(view => (
+                      <button key={view} onClick={() => setGridView(view)}
+                          title={view === 'bars' ? 'Bar-by-bar measure view' : 'One card per chord'}
+                          className={`px-3 py-1 text-[10px] rounded uppercase font-bold tracking-wider transition-all ${gridView === view ? 'bg-indigo-500/20 text-indigo-300 shadow-sm' : 'text-slate-500 hover:text-slate-300'}`}>
+                          {view}
+                      </button>
+                  ))}
+              </div>
+              <button onClick={() => { setEditMode(!editMode); setSelectedIndex(null); }}
+                  className={`px-3 py-1.5 text-[10px] rounded-lg uppercase font-bold tracking-wider transition-all border ${editMode ? 'bg-amber-500/20 text-amber-300 border-amber-500/40' : 'text-slate-500 border-slate-800 hover:text-slate-300'}`}>
+                  Edit
+              </button>
+              <button onClick={() => setShowGuitar(!showGuitar)}
+                  className={`px-3 py-1.5 text-[10px] rounded-lg uppercase font-bold tracking-wider transition-all border ${showGuitar ? 'bg-emerald-500/20 text-emerald-300 border-emerald-500/40' : 'text-slate-500 border-slate-800 hover:text-slate-300'}`}>
+                  Guitar
+              </button>
               <div className="flex bg-slate-900 rounded-lg p-1">
                  {(['Basic', 'Intermediate', 'Advanced'] as AnalysisLevel[]).map(lvl => (
-                    <button key={lvl} onClick={() => setComplexity(lvl)}
-                        className={`px-3 py-1 text-[10px] rounded uppercase font-bold tracking-wider transition-all ${complexity === lvl ? 'bg-indigo-500/20 text-indigo-300 shadow-sm' : 'text-slate-500 hover:text-slate-300'}`}>
+                    <button key={lvl} onClick={() => { onComplexityChange(lvl); setFunctional(false); }}
+                        className={`px-3 py-1 text-[10px] rounded uppercase font-bold tracking-wider transition-all ${!functional && complexity === lvl ? 'bg-indigo-500/20 text-indigo-300 shadow-sm' : 'text-slate-500 hover:text-slate-300'}`}>
                         {lvl}
                     </button>
                  ))}
+                 <button onClick={() => setFunctional(true)} disabled={!keyInfo}
+                     title={keyInfo ? 'Chords as scale degrees of the key' : 'Needs a recognized key'}
+                     className={`px-3 py-1 text-[10px] rounded uppercase font-bold tracking-wider transition-all disabled:opacity-30 ${functional ? 'bg-indigo-500/20 text-indigo-300 shadow-sm' : 'text-slate-500 hover:text-slate-300'}`}>
+                     Functional
+                 </button>
+              </div>
+              {functional && (
+                  <div className="flex bg-slate-900 rounded-lg p-1">
+                      {([['roman', 'I–V'], ['nashville', '1–5']] as [NumeralStyle, string][]).map(([style, text]) => (
+                          <button key={style} onClick={() => setNumeralStyle(style)}
+                              title={style === 'roman' ? 'Roman numerals' : 'Nashville numbers'}
+                              className={`px-2 py-1 text-[10px] rounded font-bold transition-all ${numeralStyle === style ? 'bg-indigo-500/20 text-indigo-300' : 'text-slate-500 hover:text-slate-300'}`}>
+                              {text}
+                          </button>
+                      ))}
+                  </div>
+              )}
               </div>
           </div>
 
+          {showGuitar && (
+            <div className="flex flex-wrap items-center gap-2 mb-6 text-xs">
+                <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mr-1">Capo</span>
+                {capoSuggestions.map(s => (
+                    <button key={s.capo} onClick={() => setCapo(s.capo)}
+                        className={`px-3 py-1.5 rounded-lg border font-bold transition-all ${capo === s.capo ? 'bg-emerald-500/20 border-emerald-500/50 text-emerald-300' : 'bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-600'}`}>
+                        {s.capo === 0 ? 'No capo' : `Capo ${s.capo}`}
+                        <span className="ml-2 font-normal text-slate-500">
+                            {transposeKeyLabel(analysis.key, -s.capo) || '--'} shapes · {Math.round(s.ease * 100)}% open
+                        </span>
+                    </button>
+                ))}
+                <select value={capo} onChange={(e) => setCapo(parseInt(e.target.value, 10))}
+                    className="bg-slate-900 border border-slate-800 rounded-lg px-2 py-1.5 text-slate-400 font-bold focus:outline-none focus:border-emerald-500">
+                    {Array.from({ length: 10 }, (_, c) => <option key={c} value={c}>{c === 0 ? 'No capo' : `Capo ${c}`}</option>)}
+                </select>
+            </div>
+          )}
+
+          {editMode && (
+            <div className="mb-6 grid gap-4 md:grid-cols-2 text-xs">
+                <div className="bg-slate-900 border border-amber-500/20 rounded-2xl p-4">
+                    <div className="flex justify-between items-center mb-3">
+                        <span className="text-[10px] font-bold text-amber-400/80 uppercase tracking-widest">
+                            {selectedChord ? `Chord at ${selectedChord.timestamp}` : 'Select a chord below'}
+                        </span>
+                        <button onClick={() => activeIndex >= 0 && onEdit(a => splitChord(a, activeIndex, currentTime))} disabled={activeIndex < 0}
+                            title="Split the chord under the playhead"
+                            className="px-2 py-1 rounded border border-slate-700 text-slate-300 font-bold hover:border-slate-500 disabled:opacity-30">
+                            Split at playhead
+                        </button>
+                    </div>
+                    {selectedChord && selectedIndex !== null && (
+                        <>
+                        <div className="grid grid-cols-4 gap-2">
+                            <label className="flex flex-col gap-1 text-[10px] text-slate-500 font-bold uppercase">Root
+                                <select value={selectedChord.root}
+                                    onChange={(e) => editChord(selectedIndex, { ...selectedChord, root: e.target.value })}
+                                    className="bg-slate-800 border border-slate-700 rounded px-1 py-1 text-white normal-case">
+                                    {withCurrent(ROOT_OPTIONS, selectedChord.root).map(r => <option key={r} value={r}>{r}</option>)}
+                                </select>
+                            </label>
+                            <label className="flex flex-col gap-1 text-[10px] text-slate-500 font-bold uppercase">Quality
+                                <select value={selectedChord.quality} disabled={selectedChord.root === 'N.C.'}
+                                    onChange={(e) => editChord(selectedIndex, { ...selectedChord, quality: e.target.value })}
+                                    className="bg-slate-800 border border-slate-700 rounded px-1 py-1 text-white normal-case disabled:opacity-40">
+                                    {withCurrent(QUALITY_OPTIONS, selectedChord.quality).map(q => <option key={q} value={q}>{q || 'maj'}</option>)}
+                                </select>
+                            </label>
+                            <label className="flex flex-col gap-1 text-[10px] text-slate-500 font-bold uppercase">Ext.
+                                <input key={`${selectedIndex}-${selectedChord.extension}`} defaultValue={selectedChord.extension} disabled={selectedChord.root === 'N.C.'}
+                                    placeholder="7, 9, add9..."
+                                    onBlur={(e) => editChord(selectedIndex, { ...selectedChord, extension: e.target.value })}
+                                    onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                                    className="bg-slate-800 border border-slate-700 rounded px-1 py-1 text-white normal-case disabled:opacity-40" />
+                            </label>
+                            <label className="flex flex-col gap-1 text-[10px] text-slate-500 font-bold uppercase">Bass
+                                <select value={selectedChord.bass} disabled={selectedChord.root === 'N.C.'}
+                                    onChange={(e) => editChord(selectedIndex, { ...selectedChord, bass: e.target.value })}
+                                    className="bg-slate-800 border border-slate-700 rounded px-1 py-1 text-white normal-case disabled:opacity-40">
+                                    {withCurrent(BASS_OPTIONS, selectedChord.bass).map(b => <option key={b} value={b}>{b || '—'}</option>)}
+                                </select>
+                            </label>
+                        </div>
+                        <div className="flex gap-2 mt-3">
+                            <button onClick={() => { onEdit(a => mergeChord(a, selectedIndex, 'previous')); setSelectedIndex(selectedIndex - 1); }} disabled={selectedIndex === 0}
+                                className="px-2 py-1 rounded border border-slate-700 text-slate-300 font-bold hover:border-slate-500 disabled:opacity-30">
+                                ‹ Merge previous
+                            </button>
+                            <button onClick={() => onEdit(a => mergeChord(a, selectedIndex, 'next'))} disabled={selectedIndex >= analysis.chords.length - 1}
+                                className="px-2 py-1 rounded border border-slate-700 text-slate-300 font-bold hover:border-slate-500 disabled:opacity-30">
+                                Merge next ›
+                            </button>
+                        </div>
+                        </>
+                    )}
+                </div>
+
+                <div className="bg-slate-900 border border-amber-500/20 rounded-2xl p-4 max-h-60 overflow-y-auto">
+                    <span className="text-[10px] font-bold text-amber-400/80 uppercase tracking-widest">Sections</span>
+                    <div className="mt-3 space-y-2">
+                        {analysis.sections.map((section, i) => (
+                            <div key={`${i}-${section.name}-${section.startTime}-${section.endTime}-${section.color}`} className="flex items-center gap-2">
+                                <input type="color" defaultValue={section.color || '#334155'}
+                                    onBlur={(e) => { if (e.target.value !== (section.color || '#334155')) onEdit(a => updateSection(a, i, { color: e.target.value })); }}
+                                    className="w-6 h-6 bg-transparent border-0 p-0 cursor-pointer" />
+                                <input defaultValue={section.name}
+                                    onBlur={(e) => onEdit(a => updateSection(a, i, { name: e.target.value }))}
+                                    onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                                    className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-white" />
+                                <input type="number" step={0.1} min={0} defaultValue={section.startTime}
+                                    onBlur={(e) => {
+                                        const value = parseFloat(e.target.value);
+                                        if (Number.isFinite(value)) onEdit(a => updateSection(a, i, { startTime: value }));
+                                        else e.target.value = String(section.startTime);
+                                    }}
+                                    onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                                    className="w-16 bg-slate-800 border border-slate-700 rounded px-1 py-1 text-slate-300 font-mono" />
+                                <input type="number" step={0.1} min={0} defaultValue={section.endTime}
+                                    onBlur={(e) => {
+                                        const value = parseFloat(e.target.value);
+                                        if (Number.isFinite(value)) onEdit(a => updateSection(a, i, { endTime: value }));
+                                        else e.target.value = String(section.endTime);
+                                    }}
+                                    onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                                    className="w-16 bg-slate-800 border border-slate-700 rounded px-1 py-1 text-slate-300 font-mono" />
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+          )}
+
+          {gridView === 'bars' ? (
+          <MeasureGrid
+             analysis={analysis}
+             chordLabel={(i) => chordText(analysis.chords[i], i, complexity)}
+             currentTime={currentTime}
+             isPlaying={isPlaying}
+             selectedIndex={editMode ? selectedIndex : null}
+             onBeatClick={(beatTime, chordIndex) => {
+                 const time = Math.max(0, beatTime);
+                 if (editMode && chordIndex >= 0) setSelectedIndex(chordIndex);
+                 if (audioRef.current) {
+                     audioRef.current.currentTime = time;
+                     setCurrentTime(time);
+                 }
+             }}
+             onBeatShiftClick={markLoopRange}
+             onDownbeatChange={(time) => onEdit(a => withDownbeatAt(a, time))}
+          />
+          ) : (
           <div 
              ref={gridContainerRef}
              className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 xl:grid-cols-8 gap-3 max-h-[400px] overflow-y-auto pr-2 scrollbar-thin scrollbar-thumb-indigo-900 scrollbar-track-slate-900 scroll-smooth relative"
           >
              {analysis.chords?.map((chord, i) => {
                  const isActive = activeChord === chord;
-                 const chordLabel = getDisplayChord(chord, complexity);
-                 const root = cleanStr(chord.root);
+                 const chordLabel = chordText(chord, i, complexity);
+                 const fn = functionalChords?.[i];
                  
                  return (
                      <button 
                         key={i}
                         ref={(el) => { cardRefs.current[i] = el; }}
-                        onClick={() => {
+                        onClick={(e) => {
+                            if (e.shiftKey) {
+                                markLoopRange(chord.seconds, chord.seconds + chord.duration);
+                                return;
+                            }
+                            if (editMode) setSelectedIndex(i);
+                            previewChord(chord);
                             if(audioRef.current) {
                                 audioRef.current.currentTime = chord.seconds;
                                 setCurrentTime(chord.seconds);
@@ -259,6 +913,7 @@ const ChordPlayer: React.FC<{
                         }}
                         className={`
                            relative group text-left p-3 rounded-xl border transition-all duration-300
+                           ${editMode && selectedIndex === i ? 'outline outline-2 outline-amber-400/70' : ''}
                            ${isActive 
                              ? 'bg-indigo-900/40 border-indigo-500 shadow-[0_0_20px_rgba(99,102,241,0.25)] ring-1 ring-indigo-400/30 scale-[1.02] z-10' 
                              : 'bg-slate-900 border-slate-800 hover:border-slate-600 hover:bg-slate-800'
@@ -275,16 +930,65 @@ const ChordPlayer: React.FC<{
                             {chordLabel}
                         </div>
 
-                        {complexity !== 'Basic' && (
+                        {fn && fn.function !== 'diatonic' && (
+                             <span className={`text-[10px] font-bold ${FUNCTION_STYLES[fn.function]}`}>
+                                 {fn.function === 'secondary' && fn.detail !== chordLabel ? fn.detail : fn.function}
+                                 {fn.function === 'borrowed' && fn.detail && <span className="font-normal opacity-70"> {fn.detail}</span>}
+                             </span>
+                        )}
+                        {fn && (
+                             <span className="text-[10px] text-slate-500">{getDisplayChord(chord, complexity)}</span>
+                        )}
+
+                        {!fn && complexity !== 'Basic' && (
                              <div className="flex flex-col gap-0.5">
-                                 {cleanStr(chord.bass) && cleanStr(chord.bass) !== root && (
+                                 {chord.bass && (
                                      <span className="text-[10px] font-bold text-slate-400">
-                                         Bass: <span className="text-slate-200">{cleanStr(chord.bass)}</span>
+                                         Bass: <span className="text-slate-200">{chord.bass}</span>
                                      </span>
                                  )}
                              </div>
                         )}
                         
+                        {showGuitar && (() => {
+                             const shape = shapeChords[i];
+                             const voicings = getGuitarVoicings(shape, complexity);
+                             if (voicings.length === 0) return null;
+                             const choiceKey = `${shape.symbol}|${complexity}`;
+                             const choice = (voicingChoice[choiceKey] || 0) % voicings.length;
+                             const cycle = (e: React.MouseEvent) => {
+                                 e.stopPropagation();
+                                 setVoicingChoice(prev => ({ ...prev, [choiceKey]: choice + 1 }));
+                             };
+                             return (
+                                 <div className="mt-2 flex flex-col items-center">
+                                     {capo > 0 && (
+                                         <span className="text-[10px] font-bold text-emerald-400/80 self-start">Shape: {getDisplayChord(shape, complexity)}</span>
+                                     )}
+                                     <ChordDiagram voicing={voicings[choice]} highlighted={isActive} />
+                                     {voicings.length > 1 ? (
+                                         <span role="button" onClick={cycle} title="Alternate voicing"
+                                             className="text-[9px] text-slate-500 hover:text-slate-300 font-bold truncate max-w-full">
+                                             {voicings[choice].label} · {choice + 1}/{voicings.length} ›
+                                         </span>
+                                     ) : (
+                                         <span className="text-[9px] text-slate-600 font-bold truncate max-w-full">{voicings[choice].label}</span>
+                                     )}
+                                 </div>
+                             );
+                        })()}
+
+                        {referenceChords && (() => {
+                             const reference = referenceAt(chord.seconds + chord.duration / 2);
+                             const referenceLabel = reference ? getDisplayChord(reference, 'Basic') : '--';
+                             const agrees = referenceLabel === getDisplayChord(chord, 'Basic');
+                             return (
+                                 <span className={`text-[10px] font-bold ${agrees ? 'text-emerald-500/70' : 'text-amber-400'}`}>
+                                     DSP: {referenceLabel}
+                                 </span>
+                             );
+                        })()}
+                        
                         {isActive && (
                              <div className="absolute bottom-0 left-0 h-1 bg-indigo-500 transition-all duration-75 rounded-b-xl"
                                   style={{ width: `${Math.min(100, ((currentTime - chord.seconds) / chord.duration) * 100)}%` }}
@@ -294,14 +998,106 @@ const ChordPlayer: React.FC<{
                  );
              })}
           </div>
+          )}
       </div>
 
     </div>
   );
 };
 
-export const AnalysisResult: React.FC<AnalysisResultProps> = ({ analysis, metadata }) => {
-  if (!analysis) return null;
+export const AnalysisResult: React.FC<AnalysisResultProps> = ({ analysis: original, metadata, onAnalysisChange }) => {
+  const [localCheck, setLocalCheck] = useState<SongAnalysis | null>(null);
+  const [localCheckStatus, setLocalCheckStatus] = useState<'idle' | 'running' | 'error'>('idle');
+  const [transpose, setTranspose] = useState(0);
+  const [complexity, setComplexity] = useState<AnalysisLevel>('Advanced');
+  const [beatStatus, setBeatStatus] = useState<'idle' | 'running' | 'error'>('idle');
+
+  // --- EDIT HISTORY ---
+  // Manual corrections live here; everything below (display, exports, saving) uses the edited copy
+  const [history, setHistory] = useState<EditHistory | null>(() => (original ? createHistory(original) : null));
+  const lastReported = useRef<SongAnalysis | null>(original);
+
+  useEffect(() => {
+    setHistory(original ? createHistory(original) : null);
+    lastReported.current = original;
+  }, [original]);
+
+  useEffect(() => {
+    if (history && history.present !== lastReported.current) {
+      lastReported.current = history.present;
+      onAnalysisChange?.(history.present);
+    }
+  }, [history, onAnalysisChange]);
+
+  const analysis = history?.present ?? original;
+  const applyEdit = (edit: (current: SongAnalysis) => SongAnalysis) =>
+    setHistory(h => (h ? pushHistory(h, edit(h.present)) : h));
+
+  // Everything below the header works on the transposed copy
+  const displayed = useMemo(() => (analysis ? transposeAnalysis(analysis, transpose) : null), [analysis, transpose]);
+  const displayedReference = useMemo(
+    () => (analysis && localCheck ? transposeChords(localCheck.chords, transpose, analysis.key, analysis.keyRegions) : undefined),
+    [analysis, localCheck, transpose]
+  );
+
+  const comparison = useMemo(
+    () => (analysis && localCheck ? compareTimelines(analysis.chords, localCheck.chords) : null),
+    [analysis, localCheck]
+  );
+
+  // Keys visited after the first region, in order
+  const modulations = (displayed?.keyRegions || []).slice(1).map(r => r.key);
+
+  if (!analysis || !displayed) return null;
+
+  const runLocalCheck = async () => {
+    if (!metadata?.audioUrl) return;
+    setLocalCheckStatus('running');
+    try {
+      const response = await fetch(metadata.audioUrl);
+      const result = await recognizeChords(await response.arrayBuffer());
+      setLocalCheck(result);
+      setLocalCheckStatus('idle');
+    } catch (err) {
+      console.error("Local DSP check failed", err);
+      setLocalCheckStatus('error');
+    }
+  };
+
+  // The tempo map is stored with the analysis (undoable, saved to the library like any edit)
+  const runBeatTracking = async () => {
+    if (!metadata?.audioUrl) return;
+    setBeatStatus('running');
+    try {
+      const response = await fetch(metadata.audioUrl);
+      const tempoMap = await analyzeTempoFromData(await response.arrayBuffer());
+      if (!tempoMap) throw new Error("No steady beat found.");
+      applyEdit(a => ({ ...a, tempoMap }));
+      setBeatStatus('idle');
+    } catch (err) {
+      console.error("Beat tracking failed", err);
+      setBeatStatus('error');
+    }
+  };
+
+  const tempoMap = analysis.tempoMap;
+  const tempoAgreement = tempoMap ? compareTempo(analysis.bpm, tempoMap) : null;
+  const [slowest, fastest] = tempoMap ? tempoRange(tempoMap) : [0, 0];
+
+  // Exports follow what's on screen: transposed chords at the selected complexity
+  const exportChart = (format: 'chordpro' | 'text' | 'midi' | 'json') => {
+    const baseName = safeFileName(displayed.title, 'chord-chart');
+    if (format === 'json') {
+      // The raw analysis (untransposed), re-importable through the library
+      downloadText(toAnalysisJson(analysis, metadata || { fileName: baseName, duration: 0 }), `${baseName}.json`, 'application/json');
+    } else if (format === 'chordpro') {
+      downloadText(toChordPro(displayed, complexity), `${baseName}.cho`, 'application/x-chordpro');
+    } else if (format === 'midi') {
+      downloadBlob(new Blob([toMidiFile(displayed, complexity)], { type: 'audio/midi' }), `${baseName}.mid`);
+    } else {
+      downloadText(toTextChart(displayed, complexity), `${baseName}.txt`);
+    }
+  };
 
   return (
     <div className="w-full animate-fade-in pb-20">
@@ -312,11 +1108,38 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ analysis, metada
           <div className="inline-flex flex-wrap justify-center gap-3 sm:gap-6">
               <div className="bg-slate-900/80 backdrop-blur border border-slate-700/50 px-5 py-3 rounded-2xl text-center min-w-[100px] shadow-lg">
                  <div className="text-[10px] text-slate-500 uppercase font-bold tracking-widest mb-1">Key Center</div>
-                 <div className="text-white font-black text-lg">{analysis.key}</div>
+                 <div className="text-white font-black text-lg">{displayed.key}</div>
+                 {transpose !== 0 && (
+                   <div className="text-[10px] text-slate-500 font-bold mt-0.5">orig. {analysis.key}</div>
+                 )}
+                 {modulations.length > 0 && (
+                   <div className="text-[10px] text-sky-400/80 font-bold mt-0.5">→ {modulations.join(' → ')}</div>
+                 )}
               </div>
               <div className="bg-slate-900/80 backdrop-blur border border-slate-700/50 px-5 py-3 rounded-2xl text-center min-w-[100px] shadow-lg">
                  <div className="text-[10px] text-slate-500 uppercase font-bold tracking-widest mb-1">Tempo</div>
                  <div className="text-white font-black text-lg">{analysis.bpm} <span className="text-xs text-slate-500 font-normal">BPM</span></div>
+                 {tempoMap ? (
+                   <>
+                     <div className="text-[10px] text-slate-400 font-bold mt-0.5" title={`${tempoMap.beats.length} tracked beats`}>
+                       measured {tempoMap.bpm}{fastest - slowest > tempoMap.bpm * 0.05 && <span className="font-normal text-slate-500"> ({slowest}–{fastest})</span>}
+                     </div>
+                     {tempoAgreement && tempoAgreement !== 'match' && (
+                       <div className="text-[10px] text-amber-400 font-bold">{TEMPO_FLAGS[tempoAgreement]}</div>
+                     )}
+                     <button onClick={() => applyEdit(a => alignChordsToBeats(a, tempoMap.beats))}
+                       title="Move chord changes onto the nearest tracked beat"
+                       className="text-[10px] text-indigo-400 hover:text-indigo-300 font-bold uppercase tracking-wide mt-1">
+                       Align chords
+                     </button>
+                   </>
+                 ) : metadata?.audioUrl && (
+                   <button onClick={runBeatTracking} disabled={beatStatus === 'running'}
+                     title="Track beats locally to check the BPM and follow tempo changes"
+                     className="text-[10px] text-indigo-400 hover:text-indigo-300 font-bold uppercase tracking-wide mt-1 disabled:opacity-50">
+                     {beatStatus === 'running' ? 'Tracking...' : beatStatus === 'error' ? 'Retry beats' : 'Track beats'}
+                   </button>
+                 )}
               </div>
                <div className="bg-slate-900/80 backdrop-blur border border-slate-700/50 px-5 py-3 rounded-2xl text-center min-w-[100px] shadow-lg">
                  <div className="text-[10px] text-slate-500 uppercase font-bold tracking-widest mb-1">Time Sig</div>
@@ -328,6 +1151,60 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ analysis, metada
               </div>
           </div>
           
+          {analysis.engine === 'local' && (
+            <div className="mt-6">
+                <span className="bg-emerald-500/10 border border-emerald-500/40 text-emerald-400 px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider">
+                   Local DSP Engine
+                </span>
+            </div>
+          )}
+
+          {analysis.engine !== 'local' && metadata?.audioUrl && (
+            <div className="mt-6 flex flex-col items-center gap-2">
+                {!localCheck && (
+                  <button
+                    onClick={runLocalCheck}
+                    disabled={localCheckStatus === 'running'}
+                    className="bg-slate-800 hover:bg-slate-700 text-emerald-400 border border-emerald-500/30 px-4 py-2 rounded-full text-xs font-bold uppercase tracking-wide transition-all disabled:opacity-50"
+                  >
+                    {localCheckStatus === 'running' ? 'Running Local Check...' : 'Compare with Local DSP'}
+                  </button>
+                )}
+                {localCheckStatus === 'error' && (
+                  <p className="text-xs text-red-400">Local check failed: this browser could not decode the audio.</p>
+                )}
+                {comparison && (
+                  <div className="flex items-center gap-3 text-xs">
+                    <span className="text-slate-500 uppercase font-bold tracking-widest">Local DSP Agreement</span>
+                    <span className={`font-black text-lg ${comparison.agreement >= 0.7 ? 'text-emerald-400' : comparison.agreement >= 0.4 ? 'text-amber-400' : 'text-red-400'}`}>
+                      {Math.round(comparison.agreement * 100)}%
+                    </span>
+                    <button onClick={() => setLocalCheck(null)} className="text-slate-500 hover:text-slate-300 underline">Hide</button>
+                  </div>
+                )}
+            </div>
+          )}
+
+          <div className="mt-6 flex items-center justify-center gap-2">
+              <span className="text-[10px] text-slate-500 uppercase font-bold tracking-widest mr-1">Export</span>
+              <button onClick={() => exportChart('chordpro')}
+                  className="bg-slate-800 hover:bg-slate-700 text-slate-300 border border-slate-700 px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-wide transition-all">
+                  ChordPro
+              </button>
+              <button onClick={() => exportChart('text')}
+                  className="bg-slate-800 hover:bg-slate-700 text-slate-300 border border-slate-700 px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-wide transition-all">
+                  Text Chart
+              </button>
+              <button onClick={() => exportChart('midi')}
+                  className="bg-slate-800 hover:bg-slate-700 text-slate-300 border border-slate-700 px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-wide transition-all">
+                  MIDI
+              </button>
+              <button onClick={() => exportChart('json')}
+                  className="bg-slate-800 hover:bg-slate-700 text-slate-300 border border-slate-700 px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-wide transition-all">
+                  JSON
+              </button>
+          </div>
+
           {analysis.summary && (
             <div className="mt-8 max-w-3xl mx-auto">
                 <p className="text-slate-400 text-sm leading-relaxed italic opacity-80">
@@ -338,9 +1215,19 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({ analysis, metada
        </div>
 
        <ChordPlayer 
-          analysis={analysis} 
+          analysis={displayed} 
           audioUrl={metadata?.audioUrl} 
           duration={metadata?.duration || 0} 
+          referenceChords={displayedReference}
+          transpose={transpose}
+          onTransposeChange={setTranspose}
+          complexity={complexity}
+          onComplexityChange={setComplexity}
+          onEdit={applyEdit}
+          onUndo={() => setHistory(h => (h ? undo(h) : h))}
+          onRedo={() => setHistory(h => (h ? redo(h) : h))}
+          canUndo={!!history?.past.length}
+          canRedo={!!history?.future.length}
        />
     </div>
   );
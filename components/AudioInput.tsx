@@ -1,17 +1,26 @@
 
-import React, { useState, useRef } from 'react';
-import { AnalysisStatus, UserTier } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { AnalysisStatus, UserTier, SongAnalysis } from '../types';
+import { startLiveChords, LiveChordSession, LiveChordUpdate } from '../services/liveChords';
+import { getAudioContextClass } from '../services/audioUtils';
+import { createLevelMeter, listInputDevices, openInput, InputLevel, LevelMeter } from '../services/recording';
+import { maxPayloadSize, payloadLimit } from '../services/ingest';
+import { RecordingTrimmer } from './RecordingTrimmer';
 
 interface AudioInputProps {
   onAudioReady: (file: File) => void;
   onLinkReady: (url: string) => void;
+  onLiveSession: (analysis: SongAnalysis, file: File) => void; // A live take opened as it was recognized
   status: AnalysisStatus;
   userTier: UserTier;
 }
 
 type Tab = 'upload' | 'mic' | 'link';
 
-export const AudioInput: React.FC<AudioInputProps> = ({ onAudioReady, onLinkReady, status, userTier }) => {
+const LIVE_HISTORY_SHOWN = 12;
+const CLIP_HOLD_MS = 1500;
+
+export const AudioInput: React.FC<AudioInputProps> = ({ onAudioReady, onLinkReady, onLiveSession, status, userTier }) => {
   const [activeTab, setActiveTab] = useState<Tab>('upload');
   const [isRecording, setIsRecording] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
@@ -21,27 +30,71 @@ export const AudioInput: React.FC<AudioInputProps> = ({ onAudioReady, onLinkRead
   const chunksRef = useRef<Blob[]>([]);
   const timerRef = useRef<number | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [takeToTrim, setTakeToTrim] = useState<File | null>(null);
 
-  const getMaxSize = () => {
-    switch(userTier) {
-      case 'Premier': return 19.5 * 1024 * 1024;
-      case 'Pro': return 15 * 1024 * 1024;
-      case 'Basic': default: return 9.5 * 1024 * 1024;
-    }
+  // --- INPUT ---
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState('');
+  const [level, setLevel] = useState<InputLevel | null>(null);
+  const [clipping, setClipping] = useState(false);
+  const meterRef = useRef<{ meter: LevelMeter; ctx: AudioContext; frame: number } | null>(null);
+
+  const refreshDevices = () => listInputDevices().then(setDevices).catch(err => console.warn("Could not list inputs", err));
+
+  useEffect(() => {
+    refreshDevices();
+    navigator.mediaDevices?.addEventListener?.('devicechange', refreshDevices);
+    return () => {
+      navigator.mediaDevices?.removeEventListener?.('devicechange', refreshDevices);
+      stopMeter();
+    };
+  }, []);
+
+  const startMeter = (stream: MediaStream) => {
+    const AudioContextClass = getAudioContextClass();
+    const ctx = new AudioContextClass();
+    const meter = createLevelMeter(stream, ctx);
+    let clipUntil = 0;
+    const tick = () => {
+      const reading = meter.read();
+      const now = performance.now();
+      if (reading.clipped) clipUntil = now + CLIP_HOLD_MS;
+      setLevel(reading);
+      setClipping(now < clipUntil);
+      meterRef.current!.frame = requestAnimationFrame(tick);
+    };
+    meterRef.current = { meter, ctx, frame: requestAnimationFrame(tick) };
+  };
+
+  const stopMeter = () => {
+    const current = meterRef.current;
+    if (!current) return;
+    cancelAnimationFrame(current.frame);
+    current.meter.dispose();
+    current.ctx.close();
+    meterRef.current = null;
+    setLevel(null);
+    setClipping(false);
   };
 
-  const MAX_FILE_SIZE = getMaxSize();
-  const MAX_SIZE_LABEL = `${(MAX_FILE_SIZE / 1024 / 1024).toFixed(1)}MB`;
+  // --- LIVE CHORDS ---
+  const [liveMode, setLiveMode] = useState(false);
+  const [live, setLive] = useState<LiveChordUpdate | null>(null);
+  const [liveTake, setLiveTake] = useState<{ analysis: SongAnalysis; file: File } | null>(null);
+  const liveSessionRef = useRef<LiveChordSession | null>(null);
+  const liveResultRef = useRef<SongAnalysis | null>(null);
+
+  useEffect(() => () => liveSessionRef.current?.dispose(), []);
+
+  const PAYLOAD_LIMIT = payloadLimit(userTier);
+  const PAYLOAD_LIMIT_LABEL = `${(PAYLOAD_LIMIT / 1024 / 1024).toFixed(1)}MB`;
   const isDisabled = status !== AnalysisStatus.IDLE && status !== AnalysisStatus.COMPLETE && status !== AnalysisStatus.ERROR;
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const file = e.target.files[0];
       e.target.value = '';
-      if (file.size > MAX_FILE_SIZE) {
-        alert(`File too large for ${userTier}. Limit: ${MAX_SIZE_LABEL}`);
-        return;
-      }
+      // The limit applies to the compressed payload, which is only known after decoding
       onAudioReady(file);
     }
   };
@@ -50,20 +103,41 @@ export const AudioInput: React.FC<AudioInputProps> = ({ onAudioReady, onLinkRead
 
   const startRecording = async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const stream = await openInput(deviceId || undefined);
+      // Device labels are only exposed once permission has been granted
+      refreshDevices();
       const mediaRecorder = new MediaRecorder(stream);
       mediaRecorderRef.current = mediaRecorder;
       chunksRef.current = [];
+      setLive(null);
+      setLiveTake(null);
+      setTakeToTrim(null);
+      liveResultRef.current = null;
 
       mediaRecorder.ondataavailable = (e) => { if (e.data.size > 0) chunksRef.current.push(e.data); };
       mediaRecorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        stopMeter();
         const blob = new Blob(chunksRef.current, { type: 'audio/webm' });
-        if (blob.size > MAX_FILE_SIZE) { alert("Recording too long."); return; }
         const file = new File([blob], "live_recording.webm", { type: 'audio/webm' });
-        onAudioReady(file);
-        stream.getTracks().forEach(track => track.stop());
+        // A live take can be opened locally, so it isn't bound by the upload limit yet
+        if (liveResultRef.current) {
+          setLiveTake({ analysis: liveResultRef.current, file });
+          return;
+        }
+        setTakeToTrim(file);
       };
 
+      if (liveMode) {
+        try {
+          liveSessionRef.current = await startLiveChords(stream, setLive);
+        } catch (err) {
+          console.error("Live chord recognition unavailable", err);
+          setLiveMode(false);
+        }
+      }
+
+      startMeter(stream);
       mediaRecorder.start();
       setIsRecording(true);
       const startTime = Date.now();
@@ -74,7 +148,11 @@ export const AudioInput: React.FC<AudioInputProps> = ({ onAudioReady, onLinkRead
   };
 
   const stopRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
+    if (mediaRecorderRef.current?.state === 'recording') {
+      if (liveSessionRef.current) {
+        liveResultRef.current = liveSessionRef.current.stop();
+        liveSessionRef.current = null;
+      }
       mediaRecorderRef.current.stop();
       setIsRecording(false);
       if (timerRef.current) clearInterval(timerRef.current);
@@ -87,6 +165,8 @@ export const AudioInput: React.FC<AudioInputProps> = ({ onAudioReady, onLinkRead
     onLinkReady(linkUrl);
   };
 
+  const formatMb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -103,7 +183,7 @@ export const AudioInput: React.FC<AudioInputProps> = ({ onAudioReady, onLinkRead
         </div>
         <div className="text-right">
              <div className={`inline-block px-3 py-1.5 rounded-lg text-xs font-bold border ${userTier === 'Premier' ? 'bg-amber-500/10 border-amber-500/50 text-amber-400' : 'bg-slate-800 border-slate-700 text-slate-400'}`}>
-                {userTier} • {MAX_SIZE_LABEL}
+                {userTier} • {PAYLOAD_LIMIT_LABEL}
              </div>
         </div>
       </div>
@@ -131,19 +211,94 @@ export const AudioInput: React.FC<AudioInputProps> = ({ onAudioReady, onLinkRead
              <button onClick={triggerFileSelect} className="bg-white hover:bg-slate-200 text-slate-900 px-8 py-3 rounded-xl text-sm font-bold tracking-wide shadow-lg transition-all">
                 SELECT AUDIO FILE
              </button>
-             <p className="text-xs text-slate-500 mt-4">Supports MP3, WAV, M4A, FLAC</p>
+             <p className="text-xs text-slate-500 mt-4">Supports MP3, WAV, M4A, FLAC, OGG, AIFF · converted in the browser before upload</p>
           </div>
         )}
 
-        {activeTab === 'mic' && (
+        {activeTab === 'mic' && takeToTrim && (
+          <RecordingTrimmer
+            file={takeToTrim}
+            maxBytes={PAYLOAD_LIMIT}
+            onConfirm={(file) => { setTakeToTrim(null); setLive(null); onAudioReady(file); }}
+            onCancel={() => { setTakeToTrim(null); setLive(null); }}
+          />
+        )}
+
+        {activeTab === 'mic' && !takeToTrim && (
           <div className="w-full flex flex-col items-center animate-fade-in">
              {isRecording && <div className="text-red-400 text-3xl font-mono font-bold mb-4">{formatTime(recordingTime)}</div>}
-             <button 
-               onClick={isRecording ? stopRecording : startRecording} 
-               className={`px-8 py-3 rounded-xl text-sm font-bold tracking-wide shadow-lg transition-all ${isRecording ? 'bg-red-500 text-white animate-pulse' : 'bg-white text-slate-900'}`}
-             >
-               {isRecording ? 'STOP & ANALYZE' : 'START RECORDING'}
-             </button>
+
+             {isRecording && (
+               <div className="w-full max-w-sm mb-6">
+                 <div className="flex items-center gap-2">
+                   <div className="flex-1 h-2 bg-slate-800 rounded-full overflow-hidden">
+                     <div className={`h-full transition-[width] duration-75 ${clipping ? 'bg-red-500' : 'bg-emerald-400'}`}
+                       style={{ width: `${Math.min(100, Math.sqrt(level?.peak ?? 0) * 100)}%` }} />
+                   </div>
+                   <span className={`text-[10px] font-bold uppercase w-8 ${clipping ? 'text-red-400' : 'text-slate-600'}`}>Clip</span>
+                 </div>
+                 {/* The worst case; the compressed payload usually comes out near half of it */}
+                 <div className={`flex justify-between mt-2 text-[10px] font-mono ${maxPayloadSize(recordingTime) > PAYLOAD_LIMIT ? 'text-amber-400' : 'text-slate-500'}`}>
+                   <span>Payload up to {formatMb(maxPayloadSize(recordingTime))} / {PAYLOAD_LIMIT_LABEL}</span>
+                   {maxPayloadSize(recordingTime) > PAYLOAD_LIMIT && <span>Trim before analysis</span>}
+                 </div>
+               </div>
+             )}
+
+             {(isRecording || liveTake) && live && (
+               <div className="w-full max-w-2xl mb-6 text-center">
+                 <div className="text-6xl font-black text-white mb-1">{live.current?.symbol ?? '--'}</div>
+                 <div className="text-[10px] text-slate-500 font-bold uppercase tracking-widest mb-4">Key {live.key}</div>
+                 <div className="flex flex-wrap justify-center gap-1.5">
+                   {live.history.filter(c => c.root !== 'N.C.').slice(-LIVE_HISTORY_SHOWN).map((chord, i, shown) => (
+                     <span key={`${chord.seconds}-${i}`}
+                       className={`px-2.5 py-1 rounded-lg text-xs font-bold border ${i === shown.length - 1 && isRecording ? 'bg-indigo-500/20 border-indigo-500/40 text-indigo-200' : 'bg-slate-800 border-slate-700 text-slate-400'}`}>
+                       {chord.symbol}
+                     </span>
+                   ))}
+                 </div>
+               </div>
+             )}
+
+             {liveTake ? (
+               <div className="flex flex-wrap justify-center gap-3">
+                 <button onClick={() => onLiveSession(liveTake.analysis, liveTake.file)}
+                   className="bg-white text-slate-900 px-6 py-3 rounded-xl text-sm font-bold tracking-wide shadow-lg">
+                   OPEN LIVE CHART
+                 </button>
+                 <button onClick={() => { setTakeToTrim(liveTake.file); setLiveTake(null); }}
+                   title="Trim the recording and run the full analysis on it"
+                   className="bg-slate-800 border border-slate-700 text-slate-200 px-6 py-3 rounded-xl text-sm font-bold tracking-wide">
+                   ANALYZE RECORDING
+                 </button>
+                 <button onClick={() => { setLiveTake(null); setLive(null); }}
+                   className="text-slate-500 hover:text-slate-300 px-4 py-3 text-sm font-bold tracking-wide">
+                   DISCARD
+                 </button>
+               </div>
+             ) : (
+               <>
+                 {!isRecording && devices.length > 1 && (
+                   <select value={deviceId} onChange={(e) => setDeviceId(e.target.value)}
+                     className="mb-4 max-w-xs bg-slate-900 border border-slate-700 rounded-lg py-2 px-3 text-xs text-slate-300 focus:border-indigo-500 focus:outline-none">
+                     <option value="">Default input</option>
+                     {devices.map((device, i) => (
+                       <option key={device.deviceId || i} value={device.deviceId}>{device.label || `Input ${i + 1}`}</option>
+                     ))}
+                   </select>
+                 )}
+                 <button 
+                   onClick={isRecording ? stopRecording : startRecording} 
+                   className={`px-8 py-3 rounded-xl text-sm font-bold tracking-wide shadow-lg transition-all ${isRecording ? 'bg-red-500 text-white animate-pulse' : 'bg-white text-slate-900'}`}
+                 >
+                   {isRecording ? 'STOP' : 'START RECORDING'}
+                 </button>
+                 <label className={`flex items-center gap-2 mt-4 text-xs font-bold text-slate-400 ${isRecording ? 'opacity-40' : 'cursor-pointer'}`}>
+                   <input type="checkbox" checked={liveMode} onChange={(e) => setLiveMode(e.target.checked)} disabled={isRecording} className="accent-indigo-500" />
+                   Live chords while recording
+                 </label>
+               </>
+             )}
           </div>
         )}
 
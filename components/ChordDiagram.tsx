@@ -0,0 +1,84 @@
+import React from 'react';
+import { GuitarVoicing } from '../services/guitarChords';
+
+interface ChordDiagramProps {
+  voicing: GuitarVoicing;
+  width?: number;
+  highlighted?: boolean;
+}
+
+const FRET_ROWS = 4;
+
+export const ChordDiagram: React.FC<ChordDiagramProps> = ({ voicing, width = 72, highlighted = false }) => {
+  const fretted = voicing.frets.filter((f): f is number => f !== null && f > 0);
+  const maxFret = fretted.length ? Math.max(...fretted) : 0;
+  // Start at the nut when the shape fits in the first frets, otherwise at its lowest fret
+  const baseFret = maxFret <= FRET_ROWS ? 1 : Math.min(...fretted);
+
+  const padX = 10;
+  const padTop = 14;
+  const height = width * 1.15;
+  const stringGap = (width - padX * 2) / 5;
+  const fretGap = (height - padTop - 6) / FRET_ROWS;
+  const stringX = (s: number) => padX + s * stringGap;
+  const fretY = (row: number) => padTop + row * fretGap;
+
+  // Barre: the lowest fret, held on several strings with nothing lower in between
+  const barreFret = fretted.length ? Math.min(...fretted) : 0;
+  const barreStrings = voicing.frets
+    .map((f, s) => (f === barreFret ? s : -1))
+    .filter(s => s >= 0);
+  const hasBarre = barreStrings.length >= 3 && voicing.label.includes('barre');
+
+  const color = highlighted ? '#a5b4fc' : '#818cf8';
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="block" aria-label={voicing.label}>
+      {/* Nut or position marker */}
+      {baseFret === 1 ? (
+        <rect x={stringX(0)} y={padTop - 3} width={stringX(5) - stringX(0)} height={3} fill="#cbd5e1" />
+      ) : (
+        <text x={1} y={fretY(0) + fretGap * 0.65} fontSize={8} fill="#64748b" fontWeight="bold">{baseFret}</text>
+      )}
+
+      {/* Frets */}
+      {Array.from({ length: FRET_ROWS + 1 }, (_, row) => (
+        <line key={`f${row}`} x1={stringX(0)} x2={stringX(5)} y1={fretY(row)} y2={fretY(row)} stroke="#334155" strokeWidth={1} />
+      ))}
+
+      {/* Strings */}
+      {Array.from({ length: 6 }, (_, s) => (
+        <line key={`s${s}`} x1={stringX(s)} x2={stringX(s)} y1={fretY(0)} y2={fretY(FRET_ROWS)} stroke="#475569" strokeWidth={1} />
+      ))}
+
+      {/* Open / muted markers */}
+      {voicing.frets.map((f, s) => {
+        if (f === null) {
+          return <text key={`m${s}`} x={stringX(s)} y={padTop - 5} fontSize={7} fill="#64748b" textAnchor="middle">×</text>;
+        }
+        if (f === 0) {
+          return <circle key={`m${s}`} cx={stringX(s)} cy={padTop - 8} r={2.2} fill="none" stroke="#94a3b8" strokeWidth={1} />;
+        }
+        return null;
+      })}
+
+      {hasBarre && (
+        <rect
+          x={stringX(barreStrings[0]) - 3}
+          y={fretY(barreFret - baseFret) + fretGap / 2 - 3}
+          width={stringX(barreStrings[barreStrings.length - 1]) - stringX(barreStrings[0]) + 6}
+          height={6}
+          rx={3}
+          fill={color}
+        />
+      )}
+
+      {/* Fretted notes */}
+      {voicing.frets.map((f, s) => {
+        if (f === null || f === 0) return null;
+        if (hasBarre && f === barreFret) return null;
+        return <circle key={`n${s}`} cx={stringX(s)} cy={fretY(f - baseFret) + fretGap / 2} r={stringGap * 0.32} fill={color} />;
+      })}
+    </svg>
+  );
+};
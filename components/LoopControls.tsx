@@ -0,0 +1,95 @@
+import React from 'react';
+import { PracticeLoop } from '../types';
+import { formatTimestamp } from '../services/analysisValidator';
+
+interface LoopControlsProps {
+  loop: PracticeLoop | null;
+  savedLoops: PracticeLoop[];
+  pendingStart: number | null; // A point waiting for its B
+  repeat: number;
+  playbackRate: number;
+  rampStep: number; // 0 = no ramp
+  onSetA: () => void;
+  onSetB: () => void;
+  onClear: () => void;
+  onSave: () => void;
+  onSelect: (loop: PracticeLoop) => void;
+  onDelete: (index: number) => void;
+  onRampStepChange: (step: number) => void;
+}
+
+const RAMP_STEPS = [0, 0.05, 0.1];
+
+const pointLabel = (seconds: number) => `${formatTimestamp(seconds)}.${Math.floor((seconds % 1) * 10)}`;
+
+export const LoopControls: React.FC<LoopControlsProps> = ({
+  loop, savedLoops, pendingStart, repeat, playbackRate, rampStep,
+  onSetA, onSetB, onClear, onSave, onSelect, onDelete, onRampStepChange,
+}) => {
+  const isSaved = !!loop && savedLoops.some(l => l.start === loop.start && l.end === loop.end);
+  const pill = 'px-2 py-1 text-[10px] rounded font-bold transition-colors';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-[10px]">
+      <span className="font-bold text-slate-500 uppercase tracking-widest mr-1">Loop</span>
+
+      <div className="flex items-center bg-slate-800 rounded-lg p-0.5">
+        <button onClick={onSetA} title="Set A at the playhead (or shift-click a chord)"
+          className={`${pill} ${pendingStart !== null ? 'bg-amber-500/30 text-amber-200' : 'text-slate-400 hover:text-slate-200'}`}>
+          A
+        </button>
+        <button onClick={onSetB} disabled={pendingStart === null && !loop} title="Set B at the playhead"
+          className={`${pill} text-slate-400 hover:text-slate-200 disabled:opacity-30`}>
+          B
+        </button>
+      </div>
+
+      {loop ? (
+        <span className="font-mono text-amber-300">
+          {loop.name !== `${formatTimestamp(loop.start)}–${formatTimestamp(loop.end)}` && <span className="font-sans font-bold mr-1">{loop.name}</span>}
+          {pointLabel(loop.start)} – {pointLabel(loop.end)}
+          {repeat > 0 && <span className="text-slate-500"> · pass {repeat + 1}{rampStep > 0 && ` · ${playbackRate}x`}</span>}
+        </span>
+      ) : pendingStart !== null ? (
+        <span className="text-amber-300/80">A at {pointLabel(pendingStart)} · set B</span>
+      ) : (
+        <span className="text-slate-600">Click a section band or shift-click chords</span>
+      )}
+
+      {loop && (
+        <>
+          <button onClick={onSave} disabled={isSaved}
+            className={`${pill} border border-slate-700 text-slate-300 hover:border-slate-500 disabled:opacity-30`}>
+            {isSaved ? 'Saved' : 'Save'}
+          </button>
+          <button onClick={onClear} className={`${pill} text-slate-500 hover:text-slate-300`}>Clear</button>
+        </>
+      )}
+
+      <div className="flex items-center gap-2 ml-auto">
+        <select value={rampStep} onChange={(e) => onRampStepChange(parseFloat(e.target.value))}
+          title="Start at 0.5x and speed up after every repeat until 1.0x"
+          className="bg-slate-800 border border-slate-700 rounded px-1 py-1 text-slate-300 font-bold focus:outline-none">
+          {RAMP_STEPS.map(step => (
+            <option key={step} value={step}>{step === 0 ? 'No ramp' : `Ramp +${Math.round(step * 100)}%`}</option>
+          ))}
+        </select>
+      </div>
+
+      {savedLoops.length > 0 && (
+        <div className="w-full flex flex-wrap gap-1.5">
+          {savedLoops.map((saved, i) => {
+            const active = !!loop && saved.start === loop.start && saved.end === loop.end;
+            return (
+              <span key={`${i}-${saved.start}-${saved.end}`}
+                className={`inline-flex items-center rounded-full border ${active ? 'bg-amber-500/20 border-amber-500/50 text-amber-200' : 'bg-slate-800 border-slate-700 text-slate-300'}`}>
+                <button onClick={() => onSelect(saved)} className="pl-3 pr-1 py-1 font-bold">{saved.name}</button>
+                <button onClick={() => onDelete(i)} title="Delete saved loop" className="pr-2 pl-1 py-1 text-slate-500 hover:text-red-400">×</button>
+              </span>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
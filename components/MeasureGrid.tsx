@@ -0,0 +1,112 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { SongAnalysis } from '../types';
+import { buildMeasureGrid, beatGridOf, positionAt } from '../services/measureGrid';
+
+interface MeasureGridProps {
+  analysis: SongAnalysis;
+  chordLabel: (index: number) => string;
+  currentTime: number;
+  isPlaying: boolean;
+  selectedIndex?: number | null;
+  onBeatClick: (time: number, chordIndex: number) => void;
+  onBeatShiftClick?: (start: number, end: number) => void; // Marks loop points
+  onDownbeatChange: (time: number) => void;
+}
+
+const NUDGE_SECONDS = 0.02;
+
+export const MeasureGrid: React.FC<MeasureGridProps> = ({
+  analysis, chordLabel, currentTime, isPlaying, selectedIndex, onBeatClick, onBeatShiftClick, onDownbeatChange,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const barRefs = useRef<Record<number, HTMLDivElement | null>>({});
+
+  const grid = useMemo(() => beatGridOf(analysis), [analysis.bpm, analysis.timeSignature, analysis.downbeatOffset, analysis.tempoMap]);
+  const sections = useMemo(() => buildMeasureGrid(analysis), [analysis]);
+  const position = positionAt(currentTime, grid);
+
+  // Keep the playing bar in view, like the chord cards do
+  useEffect(() => {
+    if (!isPlaying) return;
+    const bar = barRefs.current[position.bar];
+    const container = containerRef.current;
+    if (!bar || !container) return;
+    const top = bar.offsetTop - container.offsetTop;
+    if (top < container.scrollTop || top + bar.clientHeight > container.scrollTop + container.clientHeight) {
+      container.scrollTo({ top: top - container.clientHeight / 3, behavior: 'smooth' });
+    }
+  }, [position.bar, isPlaying]);
+
+  const nudgeButton = 'px-2 py-1 rounded font-bold text-slate-400 hover:text-slate-200';
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-[10px]">
+        <span className="font-bold text-slate-500 uppercase tracking-widest mr-1">Downbeat</span>
+        <div className="flex items-center bg-slate-900 rounded-lg p-0.5">
+          <button onClick={() => onDownbeatChange(grid.offset - grid.beatSeconds)} title="Move bar lines one beat earlier" className={nudgeButton}>‹ Beat</button>
+          {/* Tracked beats fix the bar lines to the audio; only whole-beat moves apply then */}
+          {!grid.beats && <button onClick={() => onDownbeatChange(grid.offset - NUDGE_SECONDS)} title="Nudge earlier" className={nudgeButton}>−</button>}
+          <span className="px-2 font-mono text-slate-300 min-w-[3.5rem] text-center">{grid.offset.toFixed(2)}s</span>
+          {!grid.beats && <button onClick={() => onDownbeatChange(grid.offset + NUDGE_SECONDS)} title="Nudge later" className={nudgeButton}>+</button>}
+          <button onClick={() => onDownbeatChange(grid.offset + grid.beatSeconds)} title="Move bar lines one beat later" className={nudgeButton}>Beat ›</button>
+        </div>
+        <button onClick={() => onDownbeatChange(currentTime)}
+          className="px-2 py-1 rounded-lg border border-slate-800 text-slate-400 font-bold uppercase tracking-wide hover:text-slate-200 hover:border-slate-600">
+          Downbeat at playhead
+        </button>
+        <span className="text-slate-600 ml-auto">
+          {analysis.timeSignature} · {analysis.tempoMap ? `tracked beats, ~${Math.round(analysis.tempoMap.bpm)}` : Math.round(analysis.bpm)} BPM
+        </span>
+      </div>
+
+      <div ref={containerRef} className="max-h-[400px] overflow-y-auto pr-2 space-y-5 scroll-smooth">
+        {sections.map((section, s) => (
+          <div key={`${s}-${section.sectionIndex}`}>
+            {section.name && (
+              <div className="flex items-center gap-2 mb-2">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: section.color || '#475569' }} />
+                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{section.name}</span>
+              </div>
+            )}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {section.measures.map(measure => {
+                const isCurrentBar = measure.index === position.bar;
+                return (
+                  <div key={measure.index} ref={(el) => { barRefs.current[measure.index] = el; }}
+                    className={`relative rounded-xl border px-2 pt-4 pb-2 transition-colors ${isCurrentBar ? 'bg-indigo-900/30 border-indigo-500/70' : 'bg-slate-900 border-slate-800'}`}>
+                    <span className="absolute top-1 left-2 text-[9px] font-mono text-slate-600">
+                      {measure.index >= 0 ? measure.index + 1 : 'pickup'}
+                    </span>
+                    <div className="flex">
+                      {measure.beats.map((beat, b) => {
+                        const isCurrentBeat = isCurrentBar && b === position.beat;
+                        const isSelected = selectedIndex != null && beat.chordIndex === selectedIndex;
+                        return (
+                          <button key={b}
+                            onClick={(e) => (e.shiftKey && onBeatShiftClick ? onBeatShiftClick(beat.time, beat.endTime) : onBeatClick(beat.time, beat.chordIndex))}
+                            className={`flex-1 min-w-0 h-10 px-1 text-left rounded-md border-l transition-colors
+                              ${b === 0 ? 'border-transparent' : 'border-slate-800'}
+                              ${isCurrentBeat ? 'bg-indigo-500/30' : 'hover:bg-slate-800'}
+                              ${isSelected ? 'outline outline-1 outline-amber-400/70' : ''}`}>
+                            {beat.isChange ? (
+                              <span className={`block truncate font-black text-sm ${isCurrentBeat ? 'text-white' : 'text-indigo-400'}`}>
+                                {chordLabel(beat.chordIndex)}
+                              </span>
+                            ) : (
+                              <span className="text-slate-700 text-xs">{beat.chordIndex >= 0 ? '/' : '–'}</span>
+                            )}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React from 'react';
+
+export interface MetronomeState {
+  clickOn: boolean;  // Click along with the recording
+  volume: number;    // 0..1
+  offsetMs: number;  // Phase nudge against the beat grid
+  countInBars: number;
+  standalone: boolean;
+  bpm: number;       // Tempo when running without the recording
+}
+
+export const INITIAL_METRONOME: Omit<MetronomeState, 'bpm'> = {
+  clickOn: false,
+  volume: 0.7,
+  offsetMs: 0,
+  countInBars: 0,
+  standalone: false,
+};
+
+interface MetronomeControlsProps {
+  state: MetronomeState;
+  timeSignature: string;
+  onChange: (state: MetronomeState) => void;
+}
+
+const COUNT_IN_BARS = [0, 1, 2];
+const NUDGE_MS = 10;
+const MIN_BPM = 30;
+const MAX_BPM = 300;
+
+export const MetronomeControls: React.FC<MetronomeControlsProps> = ({ state, timeSignature, onChange }) => {
+  const pill = 'px-2 py-1 text-[10px] rounded font-bold transition-colors';
+  const nudge = (ms: number) => onChange({ ...state, offsetMs: state.offsetMs + ms });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-[10px]">
+      <span className="font-bold text-slate-500 uppercase tracking-widest mr-1">Click</span>
+
+      <button onClick={() => onChange({ ...state, clickOn: !state.clickOn })}
+        title="Click on every beat while the recording plays"
+        className={`px-3 py-1 rounded-lg uppercase font-bold tracking-wider border transition-all ${state.clickOn ? 'bg-indigo-500/20 text-indigo-300 border-indigo-500/40' : 'text-slate-500 border-slate-800 hover:text-slate-300'}`}>
+        Metronome
+      </button>
+
+      <input type="range" min={0} max={1} step={0.05} value={state.volume}
+        onChange={(e) => onChange({ ...state, volume: parseFloat(e.target.value) })}
+        title="Click volume"
+        className="w-16 h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+
+      <div className="flex items-center bg-slate-800 rounded-lg p-0.5" title="Nudge the clicks against the beat">
+        <button onClick={() => nudge(-NUDGE_MS)} className={`${pill} text-slate-400 hover:text-slate-200`}>−</button>
+        <button onClick={() => onChange({ ...state, offsetMs: 0 })} disabled={state.offsetMs === 0}
+          className={`${pill} font-mono w-14 ${state.offsetMs !== 0 ? 'text-amber-300' : 'text-slate-500'}`}>
+          {state.offsetMs > 0 ? '+' : ''}{state.offsetMs} ms
+        </button>
+        <button onClick={() => nudge(NUDGE_MS)} className={`${pill} text-slate-400 hover:text-slate-200`}>+</button>
+      </div>
+
+      <select value={state.countInBars} onChange={(e) => onChange({ ...state, countInBars: parseInt(e.target.value, 10) })}
+        title="Bars of clicks before playback starts"
+        className="bg-slate-800 border border-slate-700 rounded px-1 py-1 text-slate-300 font-bold focus:outline-none">
+        {COUNT_IN_BARS.map(bars => (
+          <option key={bars} value={bars}>{bars === 0 ? 'No count-in' : `Count-in ${bars} bar${bars > 1 ? 's' : ''}`}</option>
+        ))}
+      </select>
+
+      <div className="flex items-center gap-2 ml-auto">
+        <input type="number" min={MIN_BPM} max={MAX_BPM} value={state.bpm}
+          onChange={(e) => {
+            const bpm = parseInt(e.target.value, 10);
+            if (bpm >= MIN_BPM && bpm <= MAX_BPM) onChange({ ...state, bpm });
+          }}
+          className="w-14 bg-slate-800 border border-slate-700 rounded px-1 py-1 text-slate-300 font-mono focus:outline-none" />
+        <span className="text-slate-500 font-bold">BPM · {timeSignature}</span>
+        <button onClick={() => onChange({ ...state, standalone: !state.standalone })}
+          title="Run the metronome on its own, without the recording"
+          className={`${pill} border ${state.standalone ? 'bg-indigo-500/20 text-indigo-300 border-indigo-500/40' : 'border-slate-700 text-slate-300 hover:border-slate-500'}`}>
+          {state.standalone ? 'Stop' : 'Start'}
+        </button>
+      </div>
+    </div>
+  );
+};
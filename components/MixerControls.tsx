@@ -0,0 +1,77 @@
+import React from 'react';
+import { SynthPreset } from '../services/chordSynth';
+
+export type MixChannel = 'original' | 'synth';
+
+export interface MixState {
+  volume: Record<MixChannel, number>; // 0..1
+  muted: Record<MixChannel, boolean>;
+  solo: MixChannel | null;
+  synthOn: boolean;
+  preset: SynthPreset;
+}
+
+export const INITIAL_MIX: MixState = {
+  volume: { original: 1, synth: 0.8 },
+  muted: { original: false, synth: false },
+  solo: null,
+  synthOn: false,
+  preset: 'piano',
+};
+
+/** Gain a channel should play at after mute and solo. */
+export const channelGain = (mix: MixState, channel: MixChannel): number =>
+  mix.muted[channel] || (mix.solo !== null && mix.solo !== channel) ? 0 : mix.volume[channel];
+
+interface MixerControlsProps {
+  mix: MixState;
+  onChange: (mix: MixState) => void;
+}
+
+const PRESETS: SynthPreset[] = ['pad', 'piano', 'guitar'];
+const CHANNEL_LABELS: Record<MixChannel, string> = { original: 'Original', synth: 'Synth' };
+
+export const MixerControls: React.FC<MixerControlsProps> = ({ mix, onChange }) => {
+  const toggle = 'w-6 py-1 text-[10px] rounded font-bold transition-colors';
+
+  const channel = (name: MixChannel) => {
+    const disabled = name === 'synth' && !mix.synthOn;
+    return (
+      <div className={`flex items-center gap-2 ${disabled ? 'opacity-40' : ''}`}>
+        <span className="font-bold text-slate-400 w-12">{CHANNEL_LABELS[name]}</span>
+        <input type="range" min={0} max={1} step={0.05} value={mix.volume[name]} disabled={disabled}
+          onChange={(e) => onChange({ ...mix, volume: { ...mix.volume, [name]: parseFloat(e.target.value) } })}
+          className="w-20 h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+        <button onClick={() => onChange({ ...mix, muted: { ...mix.muted, [name]: !mix.muted[name] } })} disabled={disabled}
+          title="Mute" className={`${toggle} ${mix.muted[name] ? 'bg-red-500/30 text-red-300' : 'bg-slate-800 text-slate-500 hover:text-slate-300'}`}>
+          M
+        </button>
+        <button onClick={() => onChange({ ...mix, solo: mix.solo === name ? null : name })} disabled={disabled}
+          title="Solo" className={`${toggle} ${mix.solo === name ? 'bg-amber-500/30 text-amber-200' : 'bg-slate-800 text-slate-500 hover:text-slate-300'}`}>
+          S
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-5 gap-y-2 text-[10px]">
+      <span className="font-bold text-slate-500 uppercase tracking-widest">Mix</span>
+      {channel('original')}
+      <button onClick={() => onChange({ ...mix, synthOn: !mix.synthOn, solo: mix.synthOn && mix.solo === 'synth' ? null : mix.solo })}
+        title="Play the detected chords with a synthesizer"
+        className={`px-3 py-1 rounded-lg uppercase font-bold tracking-wider border transition-all ${mix.synthOn ? 'bg-indigo-500/20 text-indigo-300 border-indigo-500/40' : 'text-slate-500 border-slate-800 hover:text-slate-300'}`}>
+        Chord synth
+      </button>
+      {channel('synth')}
+      <div className={`flex bg-slate-800 rounded-lg p-0.5 ${mix.synthOn ? '' : 'opacity-40'}`}>
+        {PRESETS.map(preset => (
+          <button key={preset} onClick={() => onChange({ ...mix, preset })} disabled={!mix.synthOn}
+            className={`px-2 py-1 rounded uppercase font-bold transition-colors ${mix.preset === preset ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}>
+            {preset}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { decodeAudio } from '../services/audioUtils';
+import { computePeaks } from '../services/audioOverview';
+import { detectSoundBounds, trimToWav } from '../services/recording';
+import { maxPayloadSize } from '../services/ingest';
+
+interface RecordingTrimmerProps {
+  file: File;
+  maxBytes: number;
+  onConfirm: (file: File) => void;
+  onCancel: () => void;
+}
+
+const WAVEFORM_BARS = 240;
+const MIN_SELECTION = 1; // Seconds
+const EPSILON = 0.01;
+
+const formatSeconds = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+const formatMb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+
+export const RecordingTrimmer: React.FC<RecordingTrimmerProps> = ({ file, maxBytes, onConfirm, onCancel }) => {
+  const [buffer, setBuffer] = useState<AudioBuffer | null>(null);
+  const [status, setStatus] = useState<'decoding' | 'ready' | 'rendering' | 'error'>('decoding');
+  const [range, setRange] = useState({ start: 0, end: 0 });
+  const [dragging, setDragging] = useState<'start' | 'end' | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const waveRef = useRef<HTMLDivElement>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const fileUrl = useMemo(() => URL.createObjectURL(file), [file]);
+
+  useEffect(() => () => URL.revokeObjectURL(fileUrl), [fileUrl]);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const decoded = await decodeAudio(await file.arrayBuffer());
+        if (cancelled) return;
+        setBuffer(decoded);
+        setRange({ start: 0, end: decoded.duration });
+        setStatus('ready');
+      } catch (err) {
+        console.error("Could not decode the recording", err);
+        if (!cancelled) setStatus('error');
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [file]);
+
+  const peaks = useMemo(
+    () => (buffer ? computePeaks(buffer.getChannelData(0), buffer.sampleRate, WAVEFORM_BARS / buffer.duration) : null),
+    [buffer]
+  );
+
+  const duration = buffer?.duration || 0;
+  const untouched = range.start < EPSILON && range.end > duration - EPSILON;
+  // Worst case for the analysis payload; it usually compresses to about half
+  const payloadBytes = maxPayloadSize(range.end - range.start);
+  const mayExceed = payloadBytes > maxBytes;
+
+  // --- SELECTION ---
+  const timeAt = (clientX: number) => {
+    const rect = waveRef.current!.getBoundingClientRect();
+    return Math.max(0, Math.min(duration, ((clientX - rect.left) / rect.width) * duration));
+  };
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (!buffer) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const time = timeAt(e.clientX);
+    // Grab whichever edge is closer
+    setDragging(Math.abs(time - range.start) <= Math.abs(time - range.end) ? 'start' : 'end');
+  };
+  const onPointerMove = (e: React.PointerEvent) => {
+    if (!dragging) return;
+    const time = timeAt(e.clientX);
+    setRange(r => dragging === 'start'
+      ? { ...r, start: Math.min(time, r.end - MIN_SELECTION) }
+      : { ...r, end: Math.max(time, r.start + MIN_SELECTION) });
+  };
+
+  const autoTrim = () => buffer && setRange(detectSoundBounds(buffer));
+
+  // --- PREVIEW ---
+  const togglePreview = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (previewing) {
+      audio.pause();
+      setPreviewing(false);
+      return;
+    }
+    audio.currentTime = range.start;
+    audio.play();
+    setPreviewing(true);
+  };
+
+  const confirm = async () => {
+    if (!buffer) return;
+    audioRef.current?.pause();
+    if (untouched) {
+      onConfirm(file);
+      return;
+    }
+    setStatus('rendering');
+    try {
+      onConfirm(await trimToWav(buffer, range.start, range.end, file.name.replace(/\.[^/.]+$/, '') + '_trimmed.wav'));
+    } catch (err) {
+      console.error("Could not trim the recording", err);
+      setStatus('error');
+    }
+  };
+
+  if (status === 'error') {
+    return (
+      <div className="w-full max-w-2xl text-center">
+        <p className="text-sm text-red-400 mb-4">This recording could not be prepared for trimming.</p>
+        <div className="flex justify-center gap-3">
+          <button onClick={() => onConfirm(file)} className="bg-white text-slate-900 px-6 py-3 rounded-xl text-sm font-bold tracking-wide shadow-lg">
+            ANALYZE AS RECORDED
+          </button>
+          <button onClick={onCancel} className="text-slate-500 hover:text-slate-300 px-4 py-3 text-sm font-bold tracking-wide">DISCARD</button>
+        </div>
+      </div>
+    );
+  }
+
+  const pct = (t: number) => `${duration ? (t / duration) * 100 : 0}%`;
+
+  return (
+    <div className="w-full max-w-2xl">
+      <audio ref={audioRef} src={fileUrl}
+        onTimeUpdate={(e) => { if (previewing && e.currentTarget.currentTime >= range.end) { e.currentTarget.pause(); setPreviewing(false); } }}
+        onEnded={() => setPreviewing(false)} />
+
+      <div className="flex justify-between items-center mb-2 text-[10px] font-bold uppercase tracking-wider">
+        <span className="text-slate-500">Trim the take · drag the edges</span>
+        <span className="font-mono text-slate-400 normal-case">{formatSeconds(range.start)} – {formatSeconds(range.end)}</span>
+      </div>
+
+      <div ref={waveRef}
+        onPointerDown={onPointerDown} onPointerMove={onPointerMove} onPointerUp={() => setDragging(null)} onPointerCancel={() => setDragging(null)}
+        className="relative h-24 bg-slate-950 rounded-xl border border-slate-800 overflow-hidden cursor-ew-resize touch-none select-none">
+        {peaks ? (
+          <div className="absolute inset-0 flex items-center">
+            {Array.from(peaks.max, (hi: number, i: number) => (
+              <div key={i} className="flex-1 bg-indigo-400/50" style={{ height: `${Math.max(2, (hi - peaks.min[i]) * 45)}%` }} />
+            ))}
+          </div>
+        ) : (
+          <div className="absolute inset-0 flex items-center justify-center text-xs text-slate-500">Reading recording...</div>
+        )}
+        {/* Cut regions */}
+        <div className="absolute inset-y-0 left-0 bg-slate-950/80 border-r-2 border-amber-400" style={{ width: pct(range.start) }} />
+        <div className="absolute inset-y-0 right-0 bg-slate-950/80 border-l-2 border-amber-400" style={{ width: `calc(100% - ${pct(range.end)})` }} />
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 mt-4">
+        <div className="flex items-center gap-2">
+          <button onClick={togglePreview} disabled={status !== 'ready'}
+            className="px-3 py-1.5 text-[10px] rounded-lg uppercase font-bold tracking-wider border border-slate-700 text-slate-300 hover:border-slate-500 disabled:opacity-30">
+            {previewing ? 'Stop' : 'Preview'}
+          </button>
+          <button onClick={autoTrim} disabled={status !== 'ready'} title="Cut leading and trailing silence"
+            className="px-3 py-1.5 text-[10px] rounded-lg uppercase font-bold tracking-wider border border-slate-700 text-slate-300 hover:border-slate-500 disabled:opacity-30">
+            Trim silence
+          </button>
+          <button onClick={() => setRange({ start: 0, end: duration })} disabled={untouched}
+            className="px-3 py-1.5 text-[10px] rounded-lg uppercase font-bold tracking-wider text-slate-500 hover:text-slate-300 disabled:opacity-30">
+            Reset
+          </button>
+        </div>
+        <span className={`text-xs font-mono ${mayExceed ? 'text-amber-400' : 'text-slate-400'}`}
+          title={mayExceed ? 'May exceed the limit once compressed; trimming guarantees it fits' : undefined}>
+          Up to {formatMb(payloadBytes)} / {formatMb(maxBytes)}
+        </span>
+      </div>
+
+      <div className="flex justify-center gap-3 mt-6">
+        <button onClick={confirm} disabled={status !== 'ready'}
+          className="bg-white text-slate-900 px-8 py-3 rounded-xl text-sm font-bold tracking-wide shadow-lg disabled:opacity-40">
+          {status === 'rendering' ? 'PREPARING...' : 'ANALYZE'}
+        </button>
+        <button onClick={onCancel} className="text-slate-500 hover:text-slate-300 px-4 py-3 text-sm font-bold tracking-wide">DISCARD</button>
+      </div>
+    </div>
+  );
+};
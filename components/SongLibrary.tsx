@@ -0,0 +1,181 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LibraryEntry } from '../types';
+import { listSongs, filterSongs, renameSong, deleteSong, saveSong, toAnalysisJson, parseAnalysisJson } from '../services/songLibrary';
+import { downloadText, safeFileName } from '../services/download';
+
+interface SongLibraryProps {
+  onOpen: (entry: LibraryEntry) => void;
+  onClose: () => void;
+}
+
+const formatDate = (epochMs: number) =>
+  new Date(epochMs).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+
+export const SongLibrary: React.FC<SongLibraryProps> = ({ onOpen, onClose }) => {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    try {
+      setEntries(await listSongs());
+      setError(null);
+    } catch (err) {
+      console.error("Failed to load library", err);
+      setError(err instanceof Error ? err.message : "Failed to load the library.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const visible = useMemo(() => filterSongs(entries, query), [entries, query]);
+
+  const commitRename = async (id: string) => {
+    setRenamingId(null);
+    try {
+      await renameSong(id, renameValue);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Rename failed.");
+    }
+  };
+
+  const handleDelete = async (entry: LibraryEntry) => {
+    if (!window.confirm(`Delete "${entry.analysis.title || entry.metadata.fileName}" from the library?`)) return;
+    try {
+      await deleteSong(entry.id);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Delete failed.");
+    }
+  };
+
+  const handleExport = (entry: LibraryEntry) => {
+    const name = safeFileName(entry.analysis.title || entry.metadata.fileName, 'analysis');
+    downloadText(toAnalysisJson(entry.analysis, entry.metadata), `${name}.json`, 'application/json');
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = event.target.files ? Array.from(event.target.files) : [];
+    event.target.value = '';
+    const failures: string[] = [];
+    for (const file of files) {
+      try {
+        const { analysis, metadata } = parseAnalysisJson(await file.text(), file.name.replace(/\.[^/.]+$/, ''));
+        await saveSong(analysis, metadata);
+      } catch (err) {
+        console.warn(`Import of ${file.name} failed`, err);
+        failures.push(`${file.name}: ${err instanceof Error ? err.message : 'unknown error'}`);
+      }
+    }
+    await refresh();
+    setError(failures.length ? `Could not import ${failures.join('; ')}` : null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-md animate-fade-in">
+      <div className="relative w-full max-w-3xl max-h-[85vh] flex flex-col bg-slate-900 rounded-3xl border border-slate-700 p-8 shadow-2xl">
+
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-slate-500 hover:text-white transition-colors"
+        >
+          <svg className="w-8 h-8" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+
+        <div className="text-center mb-6">
+          <h2 className="text-2xl font-black text-white uppercase tracking-widest">Song Library</h2>
+          <p className="text-slate-500 text-xs mt-1">Saved in this browser only</p>
+        </div>
+
+        <div className="flex gap-3 mb-4">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search title, artist or key..."
+            className="flex-1 bg-slate-800 border border-slate-700 rounded-full px-4 py-2 text-sm text-white placeholder-slate-500 focus:outline-none focus:border-indigo-500"
+          />
+          <button
+            onClick={() => importRef.current?.click()}
+            className="bg-slate-800 hover:bg-slate-700 text-slate-300 border border-slate-700 px-4 py-2 rounded-full text-xs font-bold uppercase tracking-wide transition-all"
+          >
+            Import JSON
+          </button>
+          <input ref={importRef} type="file" accept="application/json,.json" multiple className="hidden" onChange={handleImport} />
+        </div>
+
+        {error && <p className="text-xs text-red-400 mb-3">{error}</p>}
+
+        <div className="flex-1 overflow-y-auto -mx-2 px-2">
+          {loading ? (
+            <p className="text-center text-slate-500 text-sm py-12">Loading...</p>
+          ) : visible.length === 0 ? (
+            <p className="text-center text-slate-500 text-sm py-12">
+              {entries.length ? 'No songs match your search.' : 'No saved songs yet. Completed analyses are saved here automatically.'}
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {visible.map(entry => (
+                <li key={entry.id} className="flex items-center gap-4 bg-slate-800/60 border border-slate-700/50 rounded-2xl px-4 py-3">
+                  <div className="flex-1 min-w-0">
+                    {renamingId === entry.id ? (
+                      <input
+                        autoFocus
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onBlur={() => commitRename(entry.id)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename(entry.id);
+                          if (e.key === 'Escape') setRenamingId(null);
+                        }}
+                        className="w-full bg-slate-900 border border-indigo-500 rounded px-2 py-1 text-sm text-white focus:outline-none"
+                      />
+                    ) : (
+                      <div className="text-white font-bold text-sm truncate">{entry.analysis.title || entry.metadata.fileName}</div>
+                    )}
+                    <div className="text-[11px] text-slate-400 truncate">
+                      {entry.analysis.artist || 'Unknown Artist'} · {entry.analysis.key || '--'} · {Math.round(entry.analysis.bpm)} BPM
+                    </div>
+                    <div className="text-[10px] text-slate-600 mt-0.5">
+                      {formatDate(entry.updatedAt)}{!entry.hasAudio && ' · no audio'}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button onClick={() => onOpen(entry)}
+                        className="bg-indigo-600 hover:bg-indigo-500 text-white px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-wide transition-all">
+                        Open
+                    </button>
+                    <button onClick={() => { setRenamingId(entry.id); setRenameValue(entry.analysis.title); }}
+                        className="text-slate-400 hover:text-white px-2 py-1.5 text-[10px] font-bold uppercase tracking-wide">
+                        Rename
+                    </button>
+                    <button onClick={() => handleExport(entry)}
+                        className="text-slate-400 hover:text-white px-2 py-1.5 text-[10px] font-bold uppercase tracking-wide">
+                        JSON
+                    </button>
+                    <button onClick={() => handleDelete(entry)}
+                        className="text-red-400/70 hover:text-red-400 px-2 py-1.5 text-[10px] font-bold uppercase tracking-wide">
+                        Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { AudioOverview } from '../services/audioOverview';
+
+interface LaneProps {
+  overview: AudioOverview;
+  currentTime: number;     // Time under the playhead, drawn at the horizontal centre
+  pixelsPerSecond: number;
+  className?: string; // Positions the lane; the canvas fills it
+  style?: React.CSSProperties;
+}
+
+/**
+ * Canvas sized to its box (and the device pixel ratio) that redraws the
+ * window of time around the playhead whenever its inputs change. Lanes stay
+ * viewport-sized instead of spanning the whole song, which could exceed the
+ * browser's canvas limits when zoomed in.
+ */
+const useLaneCanvas = (draw: (ctx: CanvasRenderingContext2D, width: number, height: number) => void, deps: unknown[]) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    const width = canvas.clientWidth;
+    const height = canvas.clientHeight;
+    if (canvas.width !== Math.round(width * ratio) || canvas.height !== Math.round(height * ratio)) {
+      canvas.width = Math.round(width * ratio);
+      canvas.height = Math.round(height * ratio);
+    }
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    draw(ctx, width, height);
+  }, deps);
+
+  return canvasRef;
+};
+
+export const WaveformLane: React.FC<LaneProps> = ({ overview, currentTime, pixelsPerSecond, className, style }) => {
+  const canvasRef = useLaneCanvas((ctx, width, height) => {
+    const { min, max, peaksPerSecond } = overview;
+    const mid = height / 2;
+    const timeAt = (x: number) => currentTime + (x - width / 2) / pixelsPerSecond;
+    ctx.fillStyle = 'rgba(129, 140, 248, 0.35)'; // indigo-400
+    for (let x = 0; x < width; x++) {
+      const from = Math.floor(timeAt(x) * peaksPerSecond);
+      const to = Math.max(from + 1, Math.floor(timeAt(x + 1) * peaksPerSecond));
+      if (to <= 0 || from >= min.length) continue;
+      let lo = 0;
+      let hi = 0;
+      for (let b = Math.max(0, from); b < Math.min(to, min.length); b++) {
+        if (min[b] < lo) lo = min[b];
+        if (max[b] > hi) hi = max[b];
+      }
+      const top = mid - hi * mid * 0.9;
+      ctx.fillRect(x, top, 1, Math.max(1, mid - lo * mid * 0.9 - top));
+    }
+  }, [overview, currentTime, pixelsPerSecond]);
+
+  return (
+    <div className={className} style={style}>
+      <canvas ref={canvasRef} className="block w-full h-full" />
+    </div>
+  );
+};
+
+export const ChromaLane: React.FC<LaneProps> = ({ overview, currentTime, pixelsPerSecond, className, style }) => {
+  // One pixel per frame and pitch class, drawn once and stretched onto the lane
+  const image = useMemo(() => {
+    const { chroma, chromaLevel } = overview;
+    const frames = Math.max(1, chroma.length);
+    const canvas = document.createElement('canvas');
+    canvas.width = frames;
+    canvas.height = 12;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    const pixels = ctx.createImageData(frames, 12);
+    chroma.forEach((vector, f) => {
+      const peak = Math.max(...vector) || 1;
+      for (let pc = 0; pc < 12; pc++) {
+        const value = (vector[pc] / peak) ** 3 * chromaLevel[f];
+        const offset = ((11 - pc) * frames + f) * 4; // C at the bottom
+        pixels.data[offset] = 51 + 200 * value; // slate-700 to amber-400
+        pixels.data[offset + 1] = 65 + 126 * value;
+        pixels.data[offset + 2] = 85 - 49 * value;
+        pixels.data[offset + 3] = Math.round(255 * (0.15 + 0.85 * value));
+      }
+    });
+    ctx.putImageData(pixels, 0, 0);
+    return canvas;
+  }, [overview]);
+
+  const canvasRef = useLaneCanvas((ctx, width, height) => {
+    if (!image) return;
+    const { chromaHopSeconds: hop, chromaStart } = overview;
+    const first = Math.max(0, Math.floor((currentTime - width / 2 / pixelsPerSecond - chromaStart) / hop));
+    const last = Math.min(image.width, Math.ceil((currentTime + width / 2 / pixelsPerSecond - chromaStart) / hop) + 1);
+    if (last <= first) return;
+    ctx.imageSmoothingEnabled = false;
+    const x = width / 2 + (chromaStart + first * hop - currentTime) * pixelsPerSecond;
+    ctx.drawImage(image, first, 0, last - first, 12, x, 0, (last - first) * hop * pixelsPerSecond, height);
+  }, [image, currentTime, pixelsPerSecond]);
+
+  return (
+    <div className={className} style={style}>
+      <canvas ref={canvasRef} className="block w-full h-full" />
+    </div>
+  );
+};
@@ -1,96 +1,46 @@
 
 import React, { useEffect, useRef, useState } from 'react';
+import { detectPitch, createPitchTracker, PitchTracker, NoteReading, noteName, DEFAULT_A4, MIN_A4, MAX_A4 } from '../services/pitchDetector';
+import { TUNING_PRESETS, presetLabel, nearestString, suggestTunings } from '../services/tunings';
 
 interface TunerProps {
   onClose: () => void;
+  songKey?: string; // Key of the open analysis, for tuning suggestions
 }
 
-const NOTE_STRINGS = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+const IN_TUNE_CENTS = 5;
+const DRIFT_CENTS = 10; // A tuned string reading further off than this is unchecked again
 
-export const Tuner: React.FC<TunerProps> = ({ onClose }) => {
-  const [note, setNote] = useState<string>("--");
-  const [cents, setCents] = useState<number>(0);
-  const [frequency, setFrequency] = useState<number>(0);
+const INSTRUMENTS = Array.from(new Set(TUNING_PRESETS.map(p => p.instrument)));
+
+export const Tuner: React.FC<TunerProps> = ({ onClose, songKey }) => {
+  const [reading, setReading] = useState<NoteReading | null>(null);
+  const [referenceA4, setReferenceA4] = useState(DEFAULT_A4);
+  const [presetId, setPresetId] = useState<string | null>(null); // null = chromatic
+  const [tuned, setTuned] = useState<boolean[]>([]);
   const [isActive, setIsActive] = useState(false);
   
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
   const requestRef = useRef<number | null>(null);
+  const bufferRef = useRef<Float32Array | null>(null);
+  const trackerRef = useRef<PitchTracker>(createPitchTracker(referenceA4));
 
-  // Autocorrelation algorithm to detect pitch
-  const autoCorrelate = (buf: Float32Array, sampleRate: number) => {
-    let size = buf.length;
-    let rms = 0;
-
-    for (let i = 0; i < size; i++) {
-      const val = buf[i];
-      rms += val * val;
-    }
-    rms = Math.sqrt(rms / size);
-
-    // Noise gate
-    if (rms < 0.01) return -1;
-
-    let r1 = 0, r2 = size - 1, thres = 0.2;
-    for (let i = 0; i < size / 2; i++) {
-      if (Math.abs(buf[i]) < thres) { r1 = i; break; }
-    }
-    for (let i = 1; i < size / 2; i++) {
-      if (Math.abs(buf[size - i]) < thres) { r2 = size - i; break; }
-    }
-
-    buf = buf.slice(r1, r2);
-    size = buf.length;
-
-    const c = new Array(size).fill(0);
-    for (let i = 0; i < size; i++) {
-      for (let j = 0; j < size - i; j++) {
-        c[i] = c[i] + buf[j] * buf[j + i];
-      }
-    }
-
-    let d = 0;
-    while (c[d] > c[d + 1]) d++;
-    let maxval = -1, maxpos = -1;
-    for (let i = d; i < size; i++) {
-      if (c[i] > maxval) {
-        maxval = c[i];
-        maxpos = i;
-      }
-    }
-    let T0 = maxpos;
-
-    // Parabolic interpolation for better precision
-    const x1 = c[T0 - 1], x2 = c[T0], x3 = c[T0 + 1];
-    const a = (x1 + x3 - 2 * x2) / 2;
-    const b = (x3 - x1) / 2;
-    if (a) T0 = T0 - b / (2 * a);
-
-    return sampleRate / T0;
-  };
+  // A new reference restarts the smoothing so old readings don't leak into the new scale
+  useEffect(() => {
+    trackerRef.current = createPitchTracker(referenceA4);
+  }, [referenceA4]);
 
   const updatePitch = () => {
-    if (!analyserRef.current || !audioContextRef.current) return;
+    const analyser = analyserRef.current;
+    if (!analyser || !audioContextRef.current) return;
     
-    const buffer = new Float32Array(2048); // Size suitable for pitch detection
-    analyserRef.current.getFloatTimeDomainData(buffer);
+    if (!bufferRef.current || bufferRef.current.length !== analyser.fftSize) bufferRef.current = new Float32Array(analyser.fftSize);
+    analyser.getFloatTimeDomainData(bufferRef.current);
     
-    const freq = autoCorrelate(buffer, audioContextRef.current.sampleRate);
-
-    if (freq !== -1) {
-      const noteNum = 12 * (Math.log(freq / 440) / Math.log(2)) + 69;
-      const noteIndex = Math.round(noteNum) % 12;
-      const closestNote = NOTE_STRINGS[noteIndex];
-      
-      // Calculate cents deviation
-      const closestNoteFreq = 440 * Math.pow(2, (Math.round(noteNum) - 69) / 12);
-      const centDiff = Math.floor(1200 * Math.log2(freq / closestNoteFreq));
-
-      setFrequency(Math.round(freq));
-      setNote(closestNote);
-      setCents(centDiff);
-    }
+    const estimate = detectPitch(bufferRef.current, audioContextRef.current.sampleRate);
+    setReading(trackerRef.current.push(estimate));
 
     requestRef.current = requestAnimationFrame(updatePitch);
   };
@@ -100,7 +50,7 @@ export const Tuner: React.FC<TunerProps> = ({ onClose }) => {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
       audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
       analyserRef.current = audioContextRef.current.createAnalyser();
-      analyserRef.current.fftSize = 4096; // Higher resolution
+      analyserRef.current.fftSize = 4096; // Enough periods of a low B for a stable estimate
       
       sourceRef.current = audioContextRef.current.createMediaStreamSource(stream);
       sourceRef.current.connect(analyserRef.current);
@@ -125,9 +75,37 @@ export const Tuner: React.FC<TunerProps> = ({ onClose }) => {
     return () => stopTuner();
   }, []);
 
+  // --- PRESETS ---
+  const preset = TUNING_PRESETS.find(p => p.id === presetId) || null;
+  const suggestions = songKey ? suggestTunings(songKey) : [];
+  // With a preset the reading is measured against the nearest string instead of the nearest note
+  const stringIndex = preset && reading ? nearestString(preset, reading.midi + reading.cents / 100) : null;
+  const target = preset && stringIndex !== null ? preset.strings[stringIndex] : null;
+
+  const selectPreset = (id: string | null) => {
+    setPresetId(id);
+    setTuned([]);
+  };
+
   // Visual calculations
+  const cents = reading ? (target !== null ? Math.round((reading.midi - target) * 100 + reading.cents) : reading.cents) : 0;
+  const stability = reading?.stability ?? 0;
   const needleRotation = Math.max(-45, Math.min(45, cents)); // Clamp between -45 and 45 degrees
-  const isInTune = Math.abs(cents) < 5;
+  const isInTune = !!reading && Math.abs(cents) < IN_TUNE_CENTS && stability > 0.5;
+  const shown = target !== null ? noteName(target) : reading;
+
+  // Check strings off as they settle in tune, uncheck them if they drift
+  useEffect(() => {
+    if (stringIndex === null || stability <= 0.5) return;
+    const inTune = Math.abs(cents) < IN_TUNE_CENTS;
+    if (!inTune && Math.abs(cents) < DRIFT_CENTS) return;
+    setTuned(prev => {
+      if (!!prev[stringIndex] === inTune) return prev;
+      const next = [...prev];
+      next[stringIndex] = inTune;
+      return next;
+    });
+  }, [stringIndex, cents, stability]);
 
   return (
     <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-slate-950/90 backdrop-blur-md animate-fade-in">
@@ -144,16 +122,51 @@ export const Tuner: React.FC<TunerProps> = ({ onClose }) => {
 
         <div className="text-center mb-8">
           <h2 className="text-2xl font-black text-white uppercase tracking-widest">Calibration Tuner</h2>
-          <p className="text-slate-500 text-xs mt-1">Standard Concert Pitch A = 440Hz</p>
+          <div className="flex items-center justify-center gap-2 text-slate-500 text-xs mt-1">
+            <span>Concert pitch A4 =</span>
+            <div className="flex items-center bg-slate-800 rounded-lg p-0.5">
+              <button onClick={() => setReferenceA4(a => Math.max(MIN_A4, a - 1))} disabled={referenceA4 <= MIN_A4}
+                className="px-2 py-0.5 rounded font-bold text-slate-400 hover:text-slate-200 disabled:opacity-30">−</button>
+              <span className={`font-mono w-14 ${referenceA4 !== DEFAULT_A4 ? 'text-amber-300' : 'text-slate-300'}`}>{referenceA4} Hz</span>
+              <button onClick={() => setReferenceA4(a => Math.min(MAX_A4, a + 1))} disabled={referenceA4 >= MAX_A4}
+                className="px-2 py-0.5 rounded font-bold text-slate-400 hover:text-slate-200 disabled:opacity-30">+</button>
+            </div>
+            {referenceA4 !== DEFAULT_A4 && (
+              <button onClick={() => setReferenceA4(DEFAULT_A4)} className="font-bold uppercase text-[10px] hover:text-slate-300">Reset</button>
+            )}
+          </div>
+          <select value={presetId ?? ''} onChange={(e) => selectPreset(e.target.value || null)}
+            className="mt-3 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-300 font-bold focus:outline-none">
+            <option value="">Chromatic</option>
+            {INSTRUMENTS.map(instrument => (
+              <optgroup key={instrument} label={instrument}>
+                {TUNING_PRESETS.filter(p => p.instrument === instrument).map(p => (
+                  <option key={p.id} value={p.id}>{presetLabel(p)}</option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+          {suggestions.length > 0 && (
+            <div className="flex flex-wrap items-center justify-center gap-1.5 mt-2 text-[10px]">
+              <span className="text-slate-500 font-bold uppercase tracking-wider">Song in {songKey}:</span>
+              {suggestions.map(s => (
+                <button key={s.preset.id} onClick={() => selectPreset(s.preset.id)} title={s.reason}
+                  className={`px-2 py-0.5 rounded-full border font-bold ${presetId === s.preset.id ? 'bg-indigo-500/20 text-indigo-300 border-indigo-500/40' : 'border-slate-700 text-slate-300 hover:border-slate-500'}`}>
+                  {s.preset.name}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Display */}
         <div className="flex flex-col items-center justify-center mb-8">
            <div className={`text-8xl font-black mb-4 transition-colors ${isInTune ? 'text-emerald-400 drop-shadow-[0_0_15px_rgba(52,211,153,0.5)]' : 'text-white'}`}>
-             {note || "--"}
+             {shown ? shown.note : "--"}
+             {shown && <span className="text-4xl text-slate-500 align-baseline">{shown.octave}</span>}
            </div>
            <div className="flex items-center gap-4 text-slate-400 font-mono">
-              <span className="bg-slate-800 px-3 py-1 rounded-lg border border-slate-700">{frequency} Hz</span>
+              <span className="bg-slate-800 px-3 py-1 rounded-lg border border-slate-700">{reading ? reading.frequency.toFixed(1) : '--'} Hz</span>
               <span className={`px-3 py-1 rounded-lg border ${isInTune ? 'bg-emerald-900/30 border-emerald-500/30 text-emerald-400' : 'bg-slate-800 border-slate-700'}`}>
                 {cents > 0 ? '+' : ''}{cents} cents
               </span>
@@ -179,6 +192,31 @@ export const Tuner: React.FC<TunerProps> = ({ onClose }) => {
           <div className="absolute bottom-2 right-10 text-xs font-bold text-slate-600">+50</div>
         </div>
 
+        {/* String checklist */}
+        {preset && (
+          <div className="flex justify-center gap-2 mb-6">
+            {preset.strings.map((note, i) => {
+              const { note: name, octave } = noteName(note);
+              return (
+                <div key={i}
+                  className={`w-12 py-1.5 rounded-lg border text-center transition-colors ${tuned[i] ? 'bg-emerald-900/30 border-emerald-500/40 text-emerald-300' : 'bg-slate-800 border-slate-700 text-slate-400'} ${i === stringIndex ? 'ring-2 ring-indigo-500' : ''}`}>
+                  <div className="text-sm font-black">{name}<span className="text-[9px] text-slate-500">{octave}</span></div>
+                  <div className="text-[9px] font-bold">{tuned[i] ? '✓' : preset.strings.length - i}</div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Stability */}
+        <div className="flex items-center gap-3 mb-6">
+          <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Stability</span>
+          <div className="flex-1 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+            <div className={`h-full rounded-full transition-all duration-150 ${stability > 0.5 ? 'bg-emerald-500' : 'bg-amber-500'}`}
+              style={{ width: `${Math.round(stability * 100)}%` }}></div>
+          </div>
+        </div>
+
         <div className="text-center">
             <div className={`inline-block px-4 py-2 rounded-full text-xs font-bold uppercase tracking-wide transition-all ${isInTune ? 'bg-emerald-500 text-black' : 'bg-slate-800 text-slate-500'}`}>
                 {isInTune ? 'PERFECTLY TUNED' : 'TUNING...'}
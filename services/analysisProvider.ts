@@ -0,0 +1,53 @@
+import { SongAnalysis, AnalysisProgress } from "../types";
+
+// --- PROVIDER CONTRACT ---
+
+export type AnalysisProviderId = 'gemini' | 'mock' | 'local';
+
+export interface AudioSegment {
+  startTime: number;     // Where this excerpt starts in the full recording (seconds)
+  endTime: number;
+  totalDuration: number; // Length of the full recording
+}
+
+export interface AudioAnalysisRequest {
+  base64Data: string;
+  mimeType: string;
+  duration: number;       // Seconds (0 if unknown)
+  segment?: AudioSegment; // Set when the audio is one window of a longer recording
+}
+
+export interface ProviderCallOptions {
+  signal?: AbortSignal; // Aborts the request and any pending retries
+  onProgress?: (progress: AnalysisProgress) => void;
+}
+
+/**
+ * A backend able to turn audio (or a link to a song) into a validated SongAnalysis.
+ * Implementations must return data that has passed `validateSongAnalysis`.
+ */
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  label: string;
+  analyzeAudio: (request: AudioAnalysisRequest, options?: ProviderCallOptions) => Promise<SongAnalysis>;
+  analyzeUrl: (url: string, options?: ProviderCallOptions) => Promise<SongAnalysis>;
+}
+
+// --- CANCELLATION ---
+
+/** True for what an aborted signal rejects with (its default reason). */
+export const isAbortError = (error: unknown): boolean => error instanceof DOMException && error.name === 'AbortError';
+
+/** Resolves after `ms`, or rejects as soon as `signal` aborts. */
+export const wait = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
@@ -0,0 +1,170 @@
+import { SongAnalysis, AnalysisEngine } from "../types";
+import { AnalysisProvider, AnalysisProviderId, ProviderCallOptions, isAbortError } from "./analysisProvider";
+import { createGeminiProvider } from "./geminiService";
+import { createMockProvider } from "./mockProvider";
+import { AnalysisValidationError, formatTimestamp } from "./analysisValidator";
+import { createDspProvider, recognizeChords } from "./dspChordRecognizer";
+import { planWindows, stitchWindowResults, WindowPlan, WindowResult } from "./timelineStitcher";
+import { ANALYSIS_SAMPLE_RATE, arrayBufferToBase64, base64ToArrayBuffer, decodeAudio, encodeWav, renderMono } from "./audioUtils";
+
+// --- CONFIGURATION ---
+// ANALYSIS_PROVIDER (.env.local) selects the AI backend: "gemini", "mock" or "local".
+// When unset, Gemini is used if an API key is configured, otherwise the local DSP
+// engine, which at least analyzes the real audio. The fixtures are opt-in only.
+
+const PROVIDER_IDS: AnalysisProviderId[] = ['gemini', 'mock', 'local'];
+
+const resolveProviderId = (): AnalysisProviderId => {
+  const configured = (process.env.ANALYSIS_PROVIDER || '').trim().toLowerCase();
+  if (configured === 'gemini' && !process.env.API_KEY) {
+    console.warn('ANALYSIS_PROVIDER is "gemini" but GEMINI_API_KEY is not set; using local analysis.');
+    return 'local';
+  }
+  if (PROVIDER_IDS.includes(configured as AnalysisProviderId)) return configured as AnalysisProviderId;
+  if (configured) console.warn(`Unknown ANALYSIS_PROVIDER "${configured}", falling back to default.`);
+  return process.env.API_KEY ? 'gemini' : 'local';
+};
+
+export const createProvider = (id: AnalysisProviderId): AnalysisProvider => {
+  switch (id) {
+    case 'gemini':
+      if (!process.env.API_KEY) throw new Error("GEMINI_API_KEY is not configured.");
+      return createGeminiProvider({ apiKey: process.env.API_KEY, model: process.env.GEMINI_MODEL || undefined });
+    case 'mock':
+      return createMockProvider();
+    case 'local':
+      return createDspProvider();
+  }
+};
+
+let activeProvider: AnalysisProvider | null = null;
+
+export const getAnalysisProvider = (): AnalysisProvider => {
+  if (!activeProvider) {
+    activeProvider = createProvider(resolveProviderId());
+    console.info(`Analysis provider: ${activeProvider.label}`);
+  }
+  return activeProvider;
+};
+
+/** Swaps the active provider at runtime (tests, dev tooling). */
+export const setAnalysisProvider = (provider: AnalysisProvider) => {
+  activeProvider = provider;
+};
+
+// --- WINDOWING ---
+// Recordings longer than WINDOWING_THRESHOLD are analyzed in overlapping windows,
+// so each response fits the model's output budget, then stitched back together.
+
+const WINDOWING_THRESHOLD = 150; // Seconds
+const WINDOW_PLAN: WindowPlan = { windowSeconds: 90, overlapSeconds: 12, minTailSeconds: 20 };
+
+export interface AnalyzeOptions extends ProviderCallOptions {
+  engine?: AnalysisEngine; // 'local' skips the AI provider entirely
+}
+
+const analyzeInWindows = async (
+  provider: AnalysisProvider,
+  base64Data: string,
+  duration: number,
+  { signal, onProgress }: ProviderCallOptions,
+): Promise<SongAnalysis> => {
+  onProgress?.({ stage: 'preparing', message: 'Decoding audio for windowed analysis...' });
+  const decoded = await decodeAudio(base64ToArrayBuffer(base64Data));
+  const samples = await renderMono(decoded, ANALYSIS_SAMPLE_RATE);
+  signal?.throwIfAborted();
+  const totalDuration = decoded.duration || duration;
+
+  const windows = planWindows(totalDuration, WINDOW_PLAN);
+  const results: WindowResult[] = [];
+
+  for (const window of windows) {
+    const range = `${formatTimestamp(window.startTime)}–${formatTimestamp(window.endTime)}`;
+    onProgress?.({
+      message: `Analyzing window ${window.index + 1} of ${windows.length} (${range})...`,
+      windowIndex: window.index,
+      windowCount: windows.length,
+    });
+
+    const slice = samples.subarray(
+      Math.floor(window.startTime * ANALYSIS_SAMPLE_RATE),
+      Math.ceil(window.endTime * ANALYSIS_SAMPLE_RATE),
+    );
+    const analysis = await provider.analyzeAudio({
+      base64Data: arrayBufferToBase64(encodeWav(slice, ANALYSIS_SAMPLE_RATE)),
+      mimeType: 'audio/wav',
+      duration: window.endTime - window.startTime,
+      segment: { startTime: window.startTime, endTime: window.endTime, totalDuration },
+    }, {
+      signal,
+      // Provider stages are reported per window
+      onProgress: (progress) => onProgress?.({
+        ...progress,
+        message: `Window ${window.index + 1} of ${windows.length} (${range}): ${progress.message}`,
+        windowIndex: window.index,
+        windowCount: windows.length,
+      }),
+    });
+    results.push({ window, analysis });
+  }
+
+  onProgress?.({ message: 'Stitching chord timeline...', windowIndex: windows.length - 1, windowCount: windows.length });
+  return stitchWindowResults(results, totalDuration);
+};
+
+// --- PROVIDER ---
+
+const analyzeWithProvider = async (
+  provider: AnalysisProvider,
+  base64Data: string,
+  mimeType: string,
+  duration: number,
+  options: ProviderCallOptions,
+): Promise<SongAnalysis> => {
+  if (duration > WINDOWING_THRESHOLD) {
+    try {
+      return await analyzeInWindows(provider, base64Data, duration, options);
+    } catch (error) {
+      // Windowing needs Web Audio to decode the file; without it, fall back to one request.
+      if (!(error instanceof DOMException) || isAbortError(error)) throw error;
+      console.warn("Could not decode audio for windowing, sending it whole:", error);
+    }
+  }
+
+  options.onProgress?.({ message: 'Generating beat map & structural segmentation...' });
+  return provider.analyzeAudio({ base64Data, mimeType, duration }, options);
+};
+
+const analyzeLocally = (base64Data: string, { signal, onProgress }: ProviderCallOptions) =>
+  recognizeChords(base64ToArrayBuffer(base64Data), { signal, onProgress });
+
+// --- PUBLIC API ---
+
+export const analyzeAudioContent = async (
+  base64Data: string,
+  mimeType: string,
+  duration: number,
+  { engine = 'ai', ...options }: AnalyzeOptions = {},
+): Promise<SongAnalysis> => {
+  if (engine === 'local') return analyzeLocally(base64Data, options);
+
+  const provider = getAnalysisProvider();
+  try {
+    const result = await analyzeWithProvider(provider, base64Data, mimeType, duration, options);
+    return { ...result, engine: provider.id === 'local' ? 'local' : 'ai' };
+  } catch (error: any) {
+    // A malformed answer is reported as such; an unreachable AI falls back to local DSP.
+    // A cancelled analysis just stops.
+    if (error instanceof AnalysisValidationError || isAbortError(error) || provider.id === 'local') throw error;
+    console.warn("AI engine unavailable, falling back to local analysis:", error);
+    options.onProgress?.({ message: 'AI engine unavailable. Running local analysis...' });
+    const local = await analyzeLocally(base64Data, options);
+    return { ...local, summary: `AI engine unavailable (${error?.message || 'unknown error'}). ${local.summary}` };
+  }
+};
+
+export const analyzeSongFromUrl = async (url: string, options: ProviderCallOptions = {}): Promise<SongAnalysis> => {
+  const provider = getAnalysisProvider();
+  const result = await provider.analyzeUrl(url, options);
+  return { ...result, engine: provider.id === 'local' ? 'local' : 'ai' };
+};
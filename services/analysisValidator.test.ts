@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { validateSongAnalysis, AnalysisValidationError } from './analysisValidator';
+
+const rawChord = (root: string, seconds: number, duration: number) => ({
+  timestamp: `0:${String(seconds).padStart(2, '0')}`, seconds, duration, root, quality: '', extension: '', bass: '', symbol: root, confidence: 0.9,
+});
+
+const response = (fields: Record<string, unknown> = {}) => ({
+  title: 'Song',
+  artist: 'Band',
+  key: 'G Major',
+  bpm: 100,
+  timeSignature: '4/4',
+  complexityLevel: 'Basic',
+  summary: 'A test.',
+  sections: [{ name: 'Verse', startTime: 0, endTime: 8 }],
+  chords: [rawChord('G', 0, 2), rawChord('C', 2, 2), rawChord('D', 4, 2), rawChord('G', 6, 2)],
+  ...fields,
+});
+
+const pathsOf = (issues: { path: string }[]) => issues.map(i => i.path);
+
+describe('validateSongAnalysis', () => {
+  it('accepts a well-formed response without repairs', () => {
+    const { analysis, repairs } = validateSongAnalysis(response());
+    expect(repairs).toEqual([]);
+    expect(analysis.chords.map(c => c.symbol)).toEqual(['G', 'C', 'D', 'G']);
+  });
+
+  it('reports every metadata field it fills with a default', () => {
+    const { analysis, repairs } = validateSongAnalysis(response({ title: undefined, artist: '', summary: '  ' }));
+    expect(analysis.title).toBe('');
+    expect(pathsOf(repairs)).toEqual(expect.arrayContaining(['title', 'artist', 'summary']));
+  });
+
+  it('estimates a missing key from the chords and says so', () => {
+    const { analysis, repairs } = validateSongAnalysis(response({ key: undefined }));
+    expect(analysis.key).toBe('G Major');
+    expect(repairs.find(r => r.path === 'key')?.message).toMatch(/estimated "G Major"/);
+  });
+
+  it('drops an unusable chord with a repair that names its original index', () => {
+    const chords = [rawChord('D', 4, 0), 'garbage', rawChord('G', 0, 4), { ...rawChord('H', 6, 2), symbol: '??' }];
+    const { analysis, repairs } = validateSongAnalysis(response({ chords }));
+    expect(analysis.chords.map(c => c.root)).toEqual(['G', 'D']);
+    expect(pathsOf(repairs)).toEqual(expect.arrayContaining(['chords[1]', 'chords[3]', 'chords', 'chords[0].duration']));
+  });
+
+  it('rejects the response when no chord is usable', () => {
+    expect(() => validateSongAnalysis(response({ chords: ['x', { root: 'G' }] }))).toThrow(AnalysisValidationError);
+  });
+
+  it('rejects what it cannot repair', () => {
+    try {
+      validateSongAnalysis(response({ bpm: -4 }));
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(AnalysisValidationError);
+      expect(pathsOf((error as AnalysisValidationError).issues)).toContain('bpm');
+    }
+  });
+
+  it('coerces numeric strings and percentage confidence', () => {
+    const chords = [{ ...rawChord('G', 0, 4), seconds: '0', confidence: 85 }, rawChord('C', 4, 4)];
+    const { analysis, repairs } = validateSongAnalysis(response({ bpm: '96', chords }));
+    expect(analysis.bpm).toBe(96);
+    expect(analysis.chords[0].confidence).toBeCloseTo(0.85);
+    expect(pathsOf(repairs)).toEqual(expect.arrayContaining(['bpm', 'chords[0].seconds', 'chords[0].confidence']));
+  });
+});
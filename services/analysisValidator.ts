@@ -0,0 +1,550 @@
+import { SongAnalysis, SectionEvent, ChordEvent, KeyRegion, TempoMap, PracticeLoop } from "../types";
+import { parseKey, formatKey, keyFit, Mode } from "./musicTheory";
+import { buildTempoMap } from "./beatTracker";
+
+// --- TYPES ---
+
+export interface ValidationIssue {
+  path: string;    // "chords[3].seconds"
+  message: string; // What was wrong (and what we did about it, for repairs)
+}
+
+export interface ValidationResult {
+  analysis: SongAnalysis;
+  repairs: ValidationIssue[]; // Problems that were coerced into valid values
+}
+
+export class AnalysisValidationError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    const details = issues.slice(0, 5).map(i => `${i.path}: ${i.message}`).join('; ');
+    const more = issues.length > 5 ? ` (+${issues.length - 5} more)` : '';
+    super(`Analysis response failed validation: ${details}${more}`);
+    this.name = 'AnalysisValidationError';
+    this.issues = issues;
+  }
+}
+
+// --- UTILS ---
+
+const PLACEHOLDERS = ['none', 'null', 'undefined', 'n/a', 'nan', '-', ''];
+const NO_CHORD = 'N.C.';
+const NOTE_REGEX = /^([A-Ga-g])([#b♯♭]?)$/;
+const TIME_SIG_REGEX = /^(\d{1,2})\s*[\/\-]\s*(\d{1,2})$/;
+const HEX_COLOR_REGEX = /^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/;
+
+const describe = (value: unknown): string => {
+  if (value === undefined) return 'undefined';
+  if (typeof value === 'string') return `"${value.length > 24 ? value.slice(0, 24) + '…' : value}"`;
+  try {
+    return JSON.stringify(value).slice(0, 30);
+  } catch {
+    return typeof value;
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPlaceholder = (value: unknown): boolean =>
+  value === null || value === undefined || (typeof value === 'string' && PLACEHOLDERS.includes(value.trim().toLowerCase()));
+
+const isNoChord = (value: string): boolean => /^(n\.?c\.?|no chord|silence)$/i.test(value.trim());
+
+/** "1:05", "1:05.5" or "65" -> seconds. Returns null if unparseable. */
+const parseTimestamp = (value: string): number | null => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  return (match[1] ? parseInt(match[1], 10) * 60 : 0) + parseFloat(match[2]);
+};
+
+export const formatTimestamp = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+/** Normalizes a note name ("bb", "F♯") to "Bb" / "F#". Returns null if it is not a note. */
+const normalizeNote = (value: string): string | null => {
+  const match = value.trim().match(NOTE_REGEX);
+  if (!match) return null;
+  const accidental = match[2] === '♯' ? '#' : match[2] === '♭' ? 'b' : match[2];
+  return match[1].toUpperCase() + accidental;
+};
+
+/** Splits a chord symbol like "Cm7/Bb" into its parts. */
+const parseSymbol = (symbol: string) => {
+  const match = symbol.trim().match(/^([A-G][#b♯♭]?)([^/]*)(?:\/([A-G][#b♯♭]?))?$/);
+  if (!match) return null;
+  const rest = match[2];
+  const extMatch = rest.match(/(\d+.*)$/);
+  const extension = extMatch ? extMatch[1] : '';
+  const quality = extMatch ? rest.slice(0, rest.length - extension.length) : rest;
+  return {
+    root: normalizeNote(match[1])!,
+    quality,
+    extension,
+    bass: match[3] ? normalizeNote(match[3])! : '',
+  };
+};
+
+// --- VALIDATOR ---
+
+class Collector {
+  repairs: ValidationIssue[] = [];
+  errors: ValidationIssue[] = [];
+
+  repair(path: string, message: string) { this.repairs.push({ path, message }); }
+  error(path: string, message: string) { this.errors.push({ path, message }); }
+
+  string(obj: Record<string, unknown>, key: string, path: string, fallback = ''): string {
+    const value = obj[key];
+    if (typeof value === 'string' && !isPlaceholder(value)) return value.trim();
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      this.repair(path, `coerced number ${value} to string`);
+      return String(value);
+    }
+    if (!isPlaceholder(value)) {
+      this.repair(path, `expected a string, got ${describe(value)}; using "${fallback}"`);
+    } else if (value !== undefined && value !== '' && value !== fallback) {
+      this.repair(path, `placeholder ${describe(value)} replaced with "${fallback}"`);
+    }
+    return fallback;
+  }
+
+  /** Like `string`, for fields the shape requires: a missing or empty value is reported too. */
+  requiredString(obj: Record<string, unknown>, key: string, path: string, fallback = ''): string {
+    const value = obj[key];
+    if (value === undefined || (typeof value === 'string' && !value.trim())) {
+      this.repair(path, `missing; using "${fallback}"`);
+      return fallback;
+    }
+    return this.string(obj, key, path, fallback);
+  }
+
+  /** Returns the numeric value, or null (after recording an error) if it cannot be coerced. */
+  number(obj: Record<string, unknown>, key: string, path: string, required = true): number | null {
+    const value = obj[key];
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    if (typeof value === 'string' && !isPlaceholder(value)) {
+      const parsed = parseFloat(value.replace(',', '.'));
+      if (Number.isFinite(parsed)) {
+        this.repair(path, `coerced string ${describe(value)} to ${parsed}`);
+        return parsed;
+      }
+    }
+    if (required) this.error(path, `expected a number, got ${describe(value)}`);
+    return null;
+  }
+}
+
+const validateSection = (raw: unknown, index: number, c: Collector): SectionEvent | null => {
+  const path = `sections[${index}]`;
+  if (!isRecord(raw)) {
+    c.repair(path, `expected an object, got ${describe(raw)}; dropped`);
+    return null;
+  }
+
+  const name = c.string(raw, 'name', `${path}.name`, `Section ${index + 1}`);
+  let startTime = c.number(raw, 'startTime', `${path}.startTime`, false);
+  let endTime = c.number(raw, 'endTime', `${path}.endTime`, false);
+
+  if (startTime === null || endTime === null) {
+    c.repair(path, 'missing startTime/endTime; dropped');
+    return null;
+  }
+  if (startTime < 0) {
+    c.repair(`${path}.startTime`, `negative value ${startTime} clamped to 0`);
+    startTime = 0;
+  }
+  if (endTime < startTime) {
+    c.repair(path, `endTime ${endTime} before startTime ${startTime}; swapped`);
+    [startTime, endTime] = [endTime, startTime];
+  }
+  if (endTime === startTime) {
+    c.repair(path, 'zero-length section; dropped');
+    return null;
+  }
+
+  const section: SectionEvent = { name, startTime, endTime };
+  if (typeof raw.color === 'string' && HEX_COLOR_REGEX.test(raw.color.trim())) {
+    section.color = raw.color.trim();
+  } else if (!isPlaceholder(raw.color)) {
+    c.repair(`${path}.color`, `invalid color ${describe(raw.color)} removed`);
+  }
+  return section;
+};
+
+const KEY_SNAP_SECONDS = 1.5; // Region boundaries move to a chord change this close
+const MIN_KEY_FIT = 0.5;      // Below this share of fitting chords a region must beat its neighbour
+
+/**
+ * Key regions must name a real key and tile the chord timeline: they are sorted,
+ * clamped, snapped to chord changes and made gapless. A region whose chords fit
+ * the preceding key clearly better is folded into it.
+ */
+const validateKeyRegions = (raw: unknown, chords: ChordEvent[], c: Collector): KeyRegion[] | undefined => {
+  if (isPlaceholder(raw)) return undefined;
+  if (!Array.isArray(raw)) {
+    c.repair('keyRegions', `expected an array, got ${describe(raw)}; ignored`);
+    return undefined;
+  }
+  const songEnd = chords.reduce((end, ch) => Math.max(end, ch.seconds + ch.duration), 0);
+
+  const parsed: KeyRegion[] = [];
+  raw.forEach((r, i) => {
+    const path = `keyRegions[${i}]`;
+    if (!isRecord(r)) {
+      c.repair(path, `expected an object, got ${describe(r)}; dropped`);
+      return;
+    }
+    const info = parseKey(c.string(r, 'key', `${path}.key`));
+    const startTime = c.number(r, 'startTime', `${path}.startTime`, false);
+    if (!info || startTime === null) {
+      c.repair(path, `unreadable key ${describe(r.key)} or startTime; dropped`);
+      return;
+    }
+    const key = formatKey(info.tonic, info.mode);
+    if (key !== r.key) c.repair(`${path}.key`, `normalized ${describe(r.key)} to "${key}"`);
+    const endTime = c.number(r, 'endTime', `${path}.endTime`, false) ?? songEnd;
+    parsed.push({ key, startTime: Math.max(0, Math.min(startTime, songEnd)), endTime: Math.max(0, Math.min(endTime, songEnd)) });
+  });
+  parsed.sort((a, b) => a.startTime - b.startTime);
+
+  // Snap starts to chord changes, then tile the timeline
+  const changes = chords.map(ch => ch.seconds);
+  const regions: KeyRegion[] = [];
+  parsed.forEach((region, i) => {
+    let start = i === 0 ? 0 : region.startTime;
+    if (i > 0) {
+      const nearest = changes.reduce((best, t) => (Math.abs(t - start) < Math.abs(best - start) ? t : best), start);
+      if (nearest !== start && Math.abs(nearest - start) <= KEY_SNAP_SECONDS) {
+        c.repair(`keyRegions[${i}].startTime`, `snapped ${start} to chord change at ${nearest}`);
+        start = nearest;
+      }
+    }
+    const prev = regions[regions.length - 1];
+    if (prev && start <= prev.startTime) {
+      c.repair(`keyRegions[${i}]`, 'starts inside the previous region; dropped');
+      return;
+    }
+    if (prev) prev.endTime = start;
+    regions.push({ key: region.key, startTime: start, endTime: songEnd });
+  });
+
+  // Fold regions the chords don't support, and merge neighbours in the same key
+  const result: KeyRegion[] = [];
+  for (const region of regions) {
+    const prev = result[result.length - 1];
+    if (prev && prev.key !== region.key) {
+      const inside = chords.filter(ch => ch.seconds >= region.startTime - 0.05 && ch.seconds < region.endTime);
+      const own = keyFit(inside, parseKey(region.key)!);
+      const previous = keyFit(inside, parseKey(prev.key)!);
+      if (own < MIN_KEY_FIT && previous > own) {
+        c.repair('keyRegions', `chords from ${formatTimestamp(region.startTime)} don't fit ${region.key}; kept ${prev.key}`);
+        prev.endTime = region.endTime;
+        continue;
+      }
+    }
+    if (prev && prev.key === region.key) {
+      prev.endTime = region.endTime;
+      continue;
+    }
+    result.push({ ...region });
+  }
+
+  return result.length ? result : undefined;
+};
+
+/** The key whose scale holds the most chord time; ties go to the first (C major before A minor). */
+const bestFittingKey = (chords: ChordEvent[]): string => {
+  let best = formatKey(0, 'major');
+  let bestFit = -1;
+  for (const mode of ['major', 'minor'] as Mode[]) {
+    for (let tonic = 0; tonic < 12; tonic++) {
+      const fit = keyFit(chords, { tonic, tonicName: '', mode });
+      if (fit > bestFit) {
+        bestFit = fit;
+        best = formatKey(tonic, mode);
+      }
+    }
+  }
+  return best;
+};
+
+/** Keeps measured beat times (sorted, strictly increasing); the tempo is recomputed from them. */
+const validateTempoMap = (raw: unknown, c: Collector): TempoMap | undefined => {
+  if (raw === undefined) return undefined;
+  if (!isRecord(raw) || !Array.isArray(raw.beats)) {
+    c.repair('tempoMap', `expected { beats: number[] }, got ${describe(raw)}; ignored`);
+    return undefined;
+  }
+  const times = raw.beats.filter((t): t is number => typeof t === 'number' && Number.isFinite(t) && t >= 0).sort((a, b) => a - b);
+  const beats = times.filter((t, i) => i === 0 || t > times[i - 1]);
+  if (beats.length !== raw.beats.length) c.repair('tempoMap.beats', `dropped ${raw.beats.length - beats.length} invalid or duplicate beat times`);
+  const map = buildTempoMap(beats);
+  if (!map) c.repair('tempoMap', 'too few beats; ignored');
+  return map || undefined;
+};
+
+/** Saved practice loops: ordered start/end pairs with a name. Invalid entries are dropped. */
+const validateLoops = (raw: unknown, c: Collector): PracticeLoop[] | undefined => {
+  if (raw === undefined) return undefined;
+  if (!Array.isArray(raw)) {
+    c.repair('loops', `expected an array, got ${describe(raw)}; ignored`);
+    return undefined;
+  }
+  const loops: PracticeLoop[] = [];
+  raw.forEach((item, i) => {
+    const start = isRecord(item) ? c.number(item, 'start', `loops[${i}].start`, false) : null;
+    const end = isRecord(item) ? c.number(item, 'end', `loops[${i}].end`, false) : null;
+    if (start === null || end === null || start < 0 || end <= start) {
+      c.repair(`loops[${i}]`, `invalid range ${describe(item)}; dropped`);
+      return;
+    }
+    const name = isRecord(item) && typeof item.name === 'string' && item.name.trim() ? item.name.trim() : `Loop ${loops.length + 1}`;
+    loops.push({ name, start, end });
+  });
+  return loops.length ? loops.sort((a, b) => a.start - b.start) : undefined;
+};
+
+type ParsedChord = ChordEvent & { _hasDuration: boolean; _index: number };
+
+/**
+ * Validates everything except `duration`, which needs the neighbouring chords.
+ * A chord without a usable time or root is dropped; the response only fails
+ * when none are left.
+ */
+const validateChord = (raw: unknown, index: number, c: Collector): ParsedChord | null => {
+  const path = `chords[${index}]`;
+  if (!isRecord(raw)) {
+    c.repair(path, `expected an object, got ${describe(raw)}; dropped`);
+    return null;
+  }
+
+  // --- Timing ---
+  let seconds = c.number(raw, 'seconds', `${path}.seconds`, false);
+  const timestamp = c.string(raw, 'timestamp', `${path}.timestamp`);
+  if (seconds === null) {
+    const fromTimestamp = timestamp ? parseTimestamp(timestamp) : null;
+    if (fromTimestamp === null) {
+      c.repair(path, `seconds missing and timestamp ${describe(raw.timestamp)} is not parseable; dropped`);
+      return null;
+    }
+    c.repair(`${path}.seconds`, `derived ${fromTimestamp} from timestamp "${timestamp}"`);
+    seconds = fromTimestamp;
+  }
+  if (seconds < 0) {
+    c.repair(`${path}.seconds`, `negative value ${seconds} clamped to 0`);
+    seconds = 0;
+  }
+
+  const rawDuration = c.number(raw, 'duration', `${path}.duration`, false);
+  const hasDuration = rawDuration !== null && rawDuration > 0;
+
+  // --- Harmony ---
+  const symbol = c.string(raw, 'symbol', `${path}.symbol`);
+  const rootStr = c.string(raw, 'root', `${path}.root`);
+  const fromSymbol = symbol ? parseSymbol(symbol) : null;
+
+  let root: string;
+  let quality = c.string(raw, 'quality', `${path}.quality`);
+  let extension = c.string(raw, 'extension', `${path}.extension`);
+  let bass = '';
+
+  if (isNoChord(rootStr) || (!rootStr && isNoChord(symbol))) {
+    root = NO_CHORD;
+    quality = '';
+    extension = '';
+  } else {
+    const normalized = rootStr ? normalizeNote(rootStr) : null;
+    if (normalized) {
+      if (normalized !== rootStr) c.repair(`${path}.root`, `normalized "${rootStr}" to "${normalized}"`);
+      root = normalized;
+    } else if (fromSymbol) {
+      c.repair(`${path}.root`, `${describe(raw.root)} replaced with "${fromSymbol.root}" from symbol "${symbol}"`);
+      root = fromSymbol.root;
+      if (!quality && !extension) {
+        quality = fromSymbol.quality;
+        extension = fromSymbol.extension;
+      }
+    } else {
+      c.repair(path, `root ${describe(raw.root)} is not a note name and symbol ${describe(raw.symbol)} is not a chord; dropped`);
+      return null;
+    }
+
+    const bassStr = c.string(raw, 'bass', `${path}.bass`);
+    if (bassStr) {
+      const normalizedBass = normalizeNote(bassStr);
+      if (normalizedBass) {
+        bass = normalizedBass === root ? '' : normalizedBass;
+      } else {
+        c.repair(`${path}.bass`, `${describe(raw.bass)} is not a note name; removed`);
+      }
+    } else if (fromSymbol?.bass && fromSymbol.bass !== root) {
+      c.repair(`${path}.bass`, `derived "${fromSymbol.bass}" from symbol "${symbol}"`);
+      bass = fromSymbol.bass;
+    }
+  }
+
+  let finalSymbol = symbol;
+  if (root === NO_CHORD) {
+    finalSymbol = NO_CHORD;
+  } else if (!symbol || symbol.length >= 15) {
+    finalSymbol = `${root}${quality}${extension}${bass ? `/${bass}` : ''}`;
+    c.repair(`${path}.symbol`, `rebuilt as "${finalSymbol}"`);
+  }
+
+  // --- Confidence ---
+  let confidence = c.number(raw, 'confidence', `${path}.confidence`, false);
+  if (confidence === null) {
+    confidence = 0;
+    if (raw.confidence !== undefined) c.repair(`${path}.confidence`, `${describe(raw.confidence)} replaced with 0`);
+  } else if (confidence > 1 && confidence <= 100) {
+    c.repair(`${path}.confidence`, `percentage ${confidence} scaled to ${confidence / 100}`);
+    confidence = confidence / 100;
+  } else if (confidence < 0 || confidence > 1) {
+    const clamped = Math.min(1, Math.max(0, confidence));
+    c.repair(`${path}.confidence`, `${confidence} clamped to ${clamped}`);
+    confidence = clamped;
+  }
+
+  return {
+    timestamp: formatTimestamp(seconds),
+    seconds,
+    duration: hasDuration ? rawDuration! : 0,
+    root,
+    quality,
+    extension,
+    bass,
+    symbol: finalSymbol,
+    confidence,
+    _hasDuration: hasDuration,
+    _index: index,
+  };
+};
+
+/**
+ * Checks every field of a raw model response against the SongAnalysis shape.
+ * Values are coerced where that is unambiguous (numeric strings, placeholders,
+ * percentages, timestamps); anything that cannot be repaired raises an
+ * AnalysisValidationError listing each offending field.
+ */
+export const validateSongAnalysis = (raw: unknown): ValidationResult => {
+  const c = new Collector();
+
+  if (!isRecord(raw)) {
+    throw new AnalysisValidationError([{ path: '$', message: `expected a JSON object, got ${describe(raw)}` }]);
+  }
+
+  // --- Metadata ---
+  const title = c.requiredString(raw, 'title', 'title');
+  const artist = c.requiredString(raw, 'artist', 'artist');
+  const key = c.string(raw, 'key', 'key'); // Checked once the chords are known
+  const complexityLevel = c.requiredString(raw, 'complexityLevel', 'complexityLevel');
+  const summary = c.requiredString(raw, 'summary', 'summary');
+
+  let bpm = c.number(raw, 'bpm', 'bpm');
+  if (bpm !== null && bpm <= 0) {
+    c.error('bpm', `must be positive, got ${bpm}`);
+    bpm = null;
+  }
+
+  let timeSignature = '4/4';
+  const rawSig = raw.timeSignature;
+  if (typeof rawSig === 'string' && TIME_SIG_REGEX.test(rawSig.trim())) {
+    const [, num, den] = rawSig.trim().match(TIME_SIG_REGEX)!;
+    timeSignature = `${num}/${den}`;
+    if (timeSignature !== rawSig) c.repair('timeSignature', `normalized "${rawSig}" to "${timeSignature}"`);
+  } else if (typeof rawSig === 'number' && Number.isInteger(rawSig) && rawSig > 0) {
+    timeSignature = `${rawSig}/4`;
+    c.repair('timeSignature', `coerced number ${rawSig} to "${timeSignature}"`);
+  } else {
+    c.repair('timeSignature', `${describe(rawSig)} replaced with "4/4"`);
+  }
+
+  // --- Sections ---
+  let sections: SectionEvent[] = [];
+  if (Array.isArray(raw.sections)) {
+    sections = raw.sections
+      .map((s, i) => validateSection(s, i, c))
+      .filter((s): s is SectionEvent => s !== null)
+      .sort((a, b) => a.startTime - b.startTime);
+  } else {
+    c.repair('sections', `expected an array, got ${describe(raw.sections)}; using []`);
+  }
+
+  // --- Chords ---
+  let chords: ChordEvent[] = [];
+  if (!Array.isArray(raw.chords)) {
+    c.error('chords', `expected an array, got ${describe(raw.chords)}`);
+  } else if (raw.chords.length === 0) {
+    c.error('chords', 'array is empty');
+  } else {
+    const parsed = raw.chords
+      .map((ch, i) => validateChord(ch, i, c))
+      .filter((ch): ch is ParsedChord => ch !== null);
+    if (parsed.length === 0) c.error('chords', 'no chord has a usable time and root');
+
+    const sorted = [...parsed].sort((a, b) => a.seconds - b.seconds);
+    if (sorted.some((ch, i) => ch !== parsed[i])) c.repair('chords', 'reordered by start time');
+
+    // Durations: fill gaps from the next chord's start; never overlap the next chord.
+    // Repairs keep the index the chord had in the response.
+    const songEnd = sections.length ? sections[sections.length - 1].endTime : 0;
+    const beat = bpm ? 60 / bpm : 0.5;
+    chords = sorted.map((ch, i) => {
+      const { _hasDuration, _index, ...chord } = ch;
+      const next = sorted[i + 1];
+      if (!_hasDuration) {
+        const fallback = next ? next.seconds - chord.seconds : Math.max(songEnd - chord.seconds, beat * 4);
+        chord.duration = fallback > 0 ? fallback : beat;
+        c.repair(`chords[${_index}].duration`, `missing or non-positive; derived ${chord.duration.toFixed(2)}s`);
+      } else if (next && chord.seconds + chord.duration > next.seconds + 0.05 && next.seconds > chord.seconds) {
+        const trimmed = next.seconds - chord.seconds;
+        c.repair(`chords[${_index}].duration`, `overlapped next chord; trimmed ${chord.duration} to ${trimmed.toFixed(2)}`);
+        chord.duration = trimmed;
+      }
+      return chord;
+    });
+  }
+
+  if (c.errors.length > 0 || bpm === null) {
+    throw new AnalysisValidationError(c.errors);
+  }
+
+  // --- Key regions (need the final chord timeline) ---
+  const keyRegions = validateKeyRegions(raw.keyRegions, chords, c);
+  // Transposition and the functional view need a real key, so a missing or
+  // unreadable one is replaced and reported
+  let mainKey = key;
+  if (!mainKey || !parseKey(mainKey)) {
+    const problem = mainKey ? `unreadable ${describe(raw.key)}` : 'missing';
+    if (keyRegions) {
+      const longest = [...keyRegions].sort((a, b) => (b.endTime - b.startTime) - (a.endTime - a.startTime))[0];
+      mainKey = longest.key;
+      c.repair('key', `${problem}; using the longest key region "${mainKey}"`);
+    } else {
+      mainKey = bestFittingKey(chords);
+      c.repair('key', `${problem}; estimated "${mainKey}" from the chords`);
+    }
+  }
+
+  // --- Downbeat (optional) ---
+  let downbeatOffset: number | null = null;
+  if (raw.downbeatOffset !== undefined) {
+    downbeatOffset = c.number(raw, 'downbeatOffset', 'downbeatOffset', false);
+    if (downbeatOffset === null || downbeatOffset < 0) {
+      c.repair('downbeatOffset', `${describe(raw.downbeatOffset)} is not a time; ignored`);
+      downbeatOffset = null;
+    }
+  }
+
+  const tempoMap = validateTempoMap(raw.tempoMap, c);
+  const loops = validateLoops(raw.loops, c);
+
+  const analysis: SongAnalysis = { title, artist, key: mainKey, bpm, timeSignature, complexityLevel, sections, chords, summary };
+  if (keyRegions) analysis.keyRegions = keyRegions;
+  if (downbeatOffset !== null) analysis.downbeatOffset = downbeatOffset;
+  if (tempoMap) analysis.tempoMap = tempoMap;
+  if (loops) analysis.loops = loops;
+  return { analysis, repairs: c.repairs };
+};
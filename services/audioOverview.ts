@@ -0,0 +1,68 @@
+import { decodeAudio, renderMono } from "./audioUtils";
+import { computeChroma } from "./dsp";
+
+// --- CONFIGURATION ---
+const OVERVIEW_SAMPLE_RATE = 11025; // Plenty for drawing and for chroma up to ~2 kHz
+const PEAKS_PER_SECOND = 400;       // About one peak per pixel at the closest zoom
+const CHROMA_FRAME = 4096;
+const CHROMA_HOP = 1024;            // ~93 ms per column
+
+// --- TYPES ---
+
+export interface AudioOverview {
+  duration: number;
+  peaksPerSecond: number;
+  min: Float32Array;         // Per-bucket minimum, normalized to the loudest peak
+  max: Float32Array;
+  chroma: Float32Array[];    // One 12-bin vector per hop, C = 0
+  chromaLevel: Float32Array; // Frame loudness 0..1, so silence draws dark
+  chromaHopSeconds: number;
+  chromaStart: number;       // Seconds where the first column begins (frames are centred on their window)
+}
+
+// --- BUILD ---
+
+/** Min/max envelope of the samples, normalized so the loudest peak is ±1. */
+export const computePeaks = (samples: Float32Array, sampleRate: number, peaksPerSecond = PEAKS_PER_SECOND) => {
+  const bucket = sampleRate / peaksPerSecond;
+  const count = Math.ceil(samples.length / bucket);
+  const min = new Float32Array(count);
+  const max = new Float32Array(count);
+  let loudest = 0;
+  for (let b = 0; b < count; b++) {
+    let lo = 0;
+    let hi = 0;
+    const end = Math.min(samples.length, Math.round((b + 1) * bucket));
+    for (let i = Math.round(b * bucket); i < end; i++) {
+      const s = samples[i];
+      if (s < lo) lo = s;
+      if (s > hi) hi = s;
+    }
+    min[b] = lo;
+    max[b] = hi;
+    loudest = Math.max(loudest, hi, -lo);
+  }
+  if (loudest > 0) {
+    for (let b = 0; b < count; b++) {
+      min[b] /= loudest;
+      max[b] /= loudest;
+    }
+  }
+  return { min, max };
+};
+
+export const buildAudioOverview = async (buffer: AudioBuffer): Promise<AudioOverview> => {
+  const samples = await renderMono(buffer, OVERVIEW_SAMPLE_RATE);
+  const { min, max } = computePeaks(samples, OVERVIEW_SAMPLE_RATE);
+  const { chroma, rms, hopSeconds } = computeChroma(samples, OVERVIEW_SAMPLE_RATE, { frameSize: CHROMA_FRAME, hopSize: CHROMA_HOP });
+  const loudest = rms.reduce((m, v) => Math.max(m, v), 0);
+  const chromaLevel = rms.map(v => (loudest > 0 ? Math.sqrt(v / loudest) : 0));
+  return {
+    duration: buffer.duration, peaksPerSecond: PEAKS_PER_SECOND, min, max, chroma, chromaLevel,
+    chromaHopSeconds: hopSeconds,
+    chromaStart: (CHROMA_FRAME / 2 - CHROMA_HOP / 2) / OVERVIEW_SAMPLE_RATE,
+  };
+};
+
+export const buildAudioOverviewFromData = async (data: ArrayBuffer): Promise<AudioOverview> =>
+  buildAudioOverview(await decodeAudio(data));
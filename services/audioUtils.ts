@@ -0,0 +1,90 @@
+// --- AUDIO HELPERS (Web Audio) ---
+// Decoding, resampling and WAV encoding used to prepare audio for analysis.
+
+export const ANALYSIS_SAMPLE_RATE = 16000; // Gemini downsamples audio to 16 kHz internally
+
+export const getAudioContextClass = (): typeof AudioContext =>
+  window.AudioContext || (window as any).webkitAudioContext;
+
+export const base64ToArrayBuffer = (base64: string): ArrayBuffer => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+};
+
+export const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  const CHUNK = 0x8000; // Avoids "Maximum call stack size exceeded" on large buffers
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
+};
+
+/** Decodes any container/codec the browser supports into PCM. */
+export const decodeAudio = async (data: ArrayBuffer): Promise<AudioBuffer> => {
+  const AudioContextClass = getAudioContextClass();
+  const ctx = new AudioContextClass();
+  try {
+    // decodeAudioData detaches its input, so hand it a copy
+    return await ctx.decodeAudioData(data.slice(0));
+  } finally {
+    ctx.close();
+  }
+};
+
+/** Downmixes to mono and resamples with the browser's own resampler. */
+export const renderMono = async (buffer: AudioBuffer, sampleRate = ANALYSIS_SAMPLE_RATE): Promise<Float32Array> => {
+  const length = Math.ceil(buffer.duration * sampleRate);
+  const offline = new OfflineAudioContext(1, length, sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start();
+  const rendered = await offline.startRendering();
+  return rendered.getChannelData(0);
+};
+
+/** Encodes mono float samples as a 16-bit PCM WAV file. */
+export const encodeWav = (samples: Float32Array, sampleRate: number): ArrayBuffer => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);          // PCM chunk size
+  view.setUint16(20, 1, true);           // Format: PCM
+  view.setUint16(22, 1, true);           // Channels: mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true);           // Block align
+  view.setUint16(34, 16, true);          // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0, offset = 44; i < samples.length; i++, offset += 2) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return buffer;
+};
+
+/**
+ * Registers an AudioWorklet processor from source text. Worklet modules are
+ * loaded from a Blob URL so they don't need a separate bundler entry.
+ */
+export const loadWorkletModule = async (ctx: BaseAudioContext, source: string): Promise<void> => {
+  const url = URL.createObjectURL(new Blob([source], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,64 @@
+import { TempoMap } from "../types";
+import { decodeAudio, renderMono } from "./audioUtils";
+import { OnsetEnvelope, computeOnsetEnvelope, estimateTempo, trackBeats } from "./dsp";
+
+// --- CONFIGURATION ---
+const BEAT_SAMPLE_RATE = 11025;
+const BPM_TOLERANCE = 0.04; // Relative difference still counted as the same tempo
+
+// --- TEMPO MAP ---
+
+const median = (values: number[]): number => {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+/** Tempo map from beat times; null when there are too few beats to say anything. */
+export const buildTempoMap = (beats: number[]): TempoMap | null => {
+  if (beats.length < 4) return null;
+  const intervals = beats.slice(1).map((t, i) => t - beats[i]);
+  return { beats: beats.map(t => round(t, 3)), bpm: round(60 / median(intervals), 1) };
+};
+
+/** Tracks beats on an onset envelope, seeded with its global tempo. */
+export const tempoMapFromEnvelope = (envelope: OnsetEnvelope): TempoMap | null => {
+  const bpm = estimateTempo(envelope);
+  return bpm ? buildTempoMap(trackBeats(envelope, bpm)) : null;
+};
+
+export const analyzeTempo = async (buffer: AudioBuffer): Promise<TempoMap | null> => {
+  const samples = await renderMono(buffer, BEAT_SAMPLE_RATE);
+  return tempoMapFromEnvelope(computeOnsetEnvelope(samples, BEAT_SAMPLE_RATE));
+};
+
+export const analyzeTempoFromData = async (data: ArrayBuffer): Promise<TempoMap | null> =>
+  analyzeTempo(await decodeAudio(data));
+
+// --- COMPARISON ---
+
+export type TempoAgreement = 'match' | 'half' | 'double' | 'mismatch';
+
+/**
+ * How a stated BPM relates to the measured one. 'half' and 'double' mean the
+ * stated tempo counts half or twice as many beats (a common octave error).
+ */
+export const compareTempo = (bpm: number, map: TempoMap): TempoAgreement => {
+  const ratio = bpm / map.bpm;
+  const near = (target: number) => Math.abs(ratio / target - 1) <= BPM_TOLERANCE;
+  if (near(1)) return 'match';
+  if (near(0.5)) return 'half';
+  if (near(2)) return 'double';
+  return 'mismatch';
+};
+
+/** 10th and 90th percentile of the beat-to-beat tempo, to show drift. */
+export const tempoRange = (map: TempoMap): [number, number] => {
+  const tempos = map.beats.slice(1).map((t, i) => 60 / (t - map.beats[i])).sort((a, b) => a - b);
+  if (!tempos.length) return [map.bpm, map.bpm];
+  const at = (q: number) => tempos[Math.min(tempos.length - 1, Math.floor(q * tempos.length))];
+  return [round(at(0.1), 1), round(at(0.9), 1)];
+};
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { toChordPro, toTextChart } from './chartExport';
+import { chord, chordRun, song } from './fixtures/testChords';
+
+/** The bar lines of a chart, without headers or directives. */
+const barLines = (chart: string) => chart.split('\n').filter(line => line.startsWith('|'));
+
+describe('chart layout', () => {
+  it('puts one bar per four beats in 4/4', () => {
+    const analysis = song({ chords: chordRun(['G', 'C', 'D', 'G'], 2) });
+    expect(barLines(toChordPro(analysis, 'Basic'))).toEqual(['| [G]/ / / / | [C]/ / / / | [D]/ / / / | [G]/ / / / |']);
+  });
+
+  it('places changes on their beat within the bar', () => {
+    const analysis = song({ chords: [chord('G', 0, 1), chord('D', 1, 1, { bass: 'F#' }), chord('E', 2, 2, { quality: 'm' })] });
+    expect(barLines(toChordPro(analysis, 'Advanced'))).toEqual(['| [G]/ / [D/F#]/ / | [Em]/ / / / |']);
+  });
+
+  it('counts bars from the downbeat and gives a pickup its own bar', () => {
+    const analysis = song({ downbeatOffset: 0.5, chords: [chord('G', 0, 0.5), chord('C', 0.5, 2), chord('F', 2.5, 2)] });
+    expect(barLines(toChordPro(analysis, 'Basic'))).toEqual(['| / / / [G]/ | [C]/ / / / | [F]/ / / / |']);
+  });
+
+  it('follows the tempo map instead of the nominal tempo', () => {
+    // Beats drift to 0.6s apart; at a fixed 120 BPM the third chord would land a beat early
+    const beats = Array.from({ length: 16 }, (_, i) => i * 0.6);
+    const analysis = song({ tempoMap: { bpm: 100, beats }, chords: [chord('C', 0, 2.4), chord('F', 2.4, 2.4), chord('G', 4.8, 2.4)] });
+    expect(barLines(toChordPro(analysis, 'Basic'))).toEqual(['| [C]/ / / / | [F]/ / / / | [G]/ / / / |']);
+  });
+
+  it('lays 3/4 out in bars of three beats', () => {
+    const analysis = song({ timeSignature: '3/4', chords: chordRun(['C', 'G'], 1.5) });
+    expect(barLines(toChordPro(analysis, 'Basic'))).toEqual(['| [C]/ / / | [G]/ / / |']);
+  });
+
+  it('repeats a bar with % only when it was one chord throughout', () => {
+    const analysis = song({ chords: [chord('D', 0, 0.5), chord('C', 0.5, 5.5), chord('G', 6, 4)] });
+    expect(barLines(toTextChart(analysis, 'Basic'))).toEqual(['| D C    | C      | %      | G      |', '| %      |']);
+  });
+
+  it('starts a section on a new line', () => {
+    const analysis = song({
+      sections: [{ name: 'Verse', startTime: 0, endTime: 4 }, { name: 'Chorus', startTime: 4, endTime: 8 }],
+      chords: chordRun(['G', 'C', 'D', 'G'], 2),
+    });
+    const text = toTextChart(analysis, 'Basic');
+    expect(text).toContain('[Verse]\n| G      | C      |');
+    expect(text).toContain('[Chorus]\n| D      | G      |');
+  });
+});
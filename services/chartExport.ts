@@ -0,0 +1,167 @@
+import { SongAnalysis, ChordEvent, AnalysisLevel } from "../types";
+import { getDisplayChord, parseKey, keyAtTime } from "./musicTheory";
+import { beatGridOf, nearestBeat } from "./measureGrid";
+
+// --- TYPES ---
+
+interface ChartBar {
+  // One entry per beat: the chord label starting on that beat, or null if the previous chord continues
+  beats: (string | null)[];
+  keyChange?: string; // Key that takes effect in this bar (modulation)
+}
+
+interface ChartSection {
+  name: string;
+  bars: ChartBar[];
+}
+
+const BARS_PER_LINE = 4;
+
+// --- LAYOUT ---
+
+const floorMod = (n: number, m: number) => ((n % m) + m) % m;
+
+/**
+ * Quantizes the chord timeline to beats and groups it into bars per section.
+ * Bar lines follow the song's beat grid (downbeat and tempo map), so a pickup
+ * gets its own bar; chords are assigned to the section they start in.
+ */
+const layoutChart = (analysis: SongAnalysis, level: AnalysisLevel): ChartSection[] => {
+  const grid = beatGridOf(analysis);
+  const { beatsPerBar } = grid;
+
+  // 1. Chords on the beat grid (beat 0 is the first downbeat)
+  let cursor = -Infinity;
+  const placed = analysis.chords.map(chord => {
+    const start = Math.max(cursor, nearestBeat(chord.seconds, grid));
+    const end = Math.max(start + 1, nearestBeat(chord.seconds + chord.duration, grid));
+    cursor = end;
+    return { chord, start, end };
+  });
+
+  // 2. Sections (or one implicit section when the analysis has none)
+  const sectionOf = (chord: ChordEvent) =>
+    analysis.sections.findIndex(s => chord.seconds >= s.startTime - 0.05 && chord.seconds < s.endTime);
+  const groups: { index: number; name: string; items: typeof placed }[] = [];
+  for (const item of placed) {
+    const index = sectionOf(item.chord);
+    const last = groups[groups.length - 1];
+    if (last && last.index === index) {
+      last.items.push(item);
+    } else {
+      groups.push({ index, name: index >= 0 ? analysis.sections[index].name : 'Song', items: [item] });
+    }
+  }
+
+  // 3. Bars, marking where the key in effect changes (the header carries the main key)
+  let currentKey = analysis.key;
+  return groups.map(({ name, items }) => {
+    const firstBar = Math.floor(items[0].start / beatsPerBar);
+    const lastBar = Math.floor((items[items.length - 1].end - 1) / beatsPerBar);
+    const bars: ChartBar[] = Array.from({ length: lastBar - firstBar + 1 }, () => ({ beats: Array(beatsPerBar).fill(null) }));
+    for (const { chord, start } of items) {
+      const bar = bars[Math.floor(start / beatsPerBar) - firstBar];
+      bar.beats[floorMod(start, beatsPerBar)] = getDisplayChord(chord, level);
+      const key = keyAtTime(analysis, chord.seconds);
+      if (key && key !== currentKey) {
+        bar.keyChange = key;
+        currentKey = key;
+      }
+    }
+    return { name, bars };
+  });
+};
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, i * size + size));
+
+/** Lines of bars; a key change always starts a new line so its directive can precede it. */
+const chartRows = <T>(bars: ChartBar[], cells: T[]): { keyChange?: string; cells: T[] }[] => {
+  const runs: number[][] = [];
+  bars.forEach((bar, i) => {
+    if (bar.keyChange || !runs.length) runs.push([]);
+    runs[runs.length - 1].push(i);
+  });
+  return runs.flatMap(run =>
+    chunk(run, BARS_PER_LINE).map((row, r) => ({
+      keyChange: r === 0 ? bars[row[0]].keyChange : undefined,
+      cells: row.map(i => cells[i]),
+    })),
+  );
+};
+
+/** "G Major" -> "G", "C Minor" -> "Cm" (ChordPro key directive format). */
+const shortKey = (key: string): string => {
+  const parsed = parseKey(key);
+  if (!parsed) return key;
+  return `${parsed.tonicName}${parsed.mode === 'minor' ? 'm' : ''}`;
+};
+
+// --- CHORDPRO ---
+
+/** ChordPro chart with slash notation: `| [G]/ / / / | [D/F#]/ / [Em]/ / |`. */
+export const toChordPro = (analysis: SongAnalysis, level: AnalysisLevel): string => {
+  const lines: string[] = [
+    `{title: ${analysis.title || 'Untitled Track'}}`,
+    ...(analysis.artist ? [`{artist: ${analysis.artist}}`] : []),
+    ...(analysis.key ? [`{key: ${shortKey(analysis.key)}}`] : []),
+    `{tempo: ${Math.round(analysis.bpm)}}`,
+    `{time: ${analysis.timeSignature}}`,
+  ];
+  if (analysis.summary) lines.push(`{comment: ${analysis.summary.replace(/[{}]/g, '')}}`);
+
+  for (const section of layoutChart(analysis, level)) {
+    lines.push('', `{start_of_section: ${section.name}}`);
+    for (const row of chartRows(section.bars, section.bars)) {
+      if (row.keyChange) lines.push(`{key: ${shortKey(row.keyChange)}}`);
+      const bars = row.cells.map(bar => bar.beats.map(label => (label ? `[${label}]/` : '/')).join(' '));
+      lines.push(`| ${bars.join(' | ')} |`);
+    }
+    lines.push('{end_of_section}');
+  }
+
+  return lines.join('\n') + '\n';
+};
+
+// --- PLAIN TEXT ---
+
+/**
+ * Monospaced bar chart: the chords starting in each bar. A bar without a change
+ * shows "%" only when the previous bar was that one chord throughout; after a
+ * bar with several chords it names the chord that is held.
+ */
+export const toTextChart = (analysis: SongAnalysis, level: AnalysisLevel): string => {
+  const sections = layoutChart(analysis, level);
+  let held = '';        // Chord sounding at the end of the previous bar
+  let wholeBar = false; // The previous bar was that chord alone
+  const cells = sections.map(section =>
+    section.bars.map(bar => {
+      const labels = bar.beats.filter((l): l is string => l !== null);
+      if (!labels.length) {
+        const cell = wholeBar ? '%' : held;
+        wholeBar = true;
+        return cell;
+      }
+      held = labels[labels.length - 1];
+      wholeBar = labels.length === 1 && bar.beats[0] !== null;
+      return labels.join(' ');
+    }),
+  );
+  const width = Math.max(6, ...cells.flat().map(c => c.length)) + 2;
+
+  const header = [
+    `${analysis.title || 'Untitled Track'}${analysis.artist ? ` - ${analysis.artist}` : ''}`,
+    `Key: ${analysis.key || '--'} | Tempo: ${Math.round(analysis.bpm)} BPM | Time: ${analysis.timeSignature}`,
+  ];
+  const lines = [...header, '='.repeat(Math.max(...header.map(h => h.length)))];
+
+  sections.forEach((section, i) => {
+    lines.push('', `[${section.name}]`);
+    for (const row of chartRows(section.bars, cells[i])) {
+      if (row.keyChange) lines.push(`Key: ${row.keyChange}`);
+      lines.push(`|${row.cells.map(c => ` ${c}`.padEnd(width)).join('|')}|`);
+    }
+  });
+
+  return lines.join('\n') + '\n';
+};
@@ -0,0 +1,202 @@
+import { ChordEvent, AnalysisLevel } from "../types";
+import { getAudioContextClass } from "./audioUtils";
+import { voiceChord, bassNote } from "./voicing";
+
+// --- CONFIGURATION ---
+
+export type SynthPreset = 'pad' | 'piano' | 'guitar';
+
+const LOOKAHEAD_SECONDS = 0.25; // How far ahead of the playhead chords get scheduled
+const SEEK_TOLERANCE = 0.3;     // A playhead jump larger than this counts as a seek
+const PREVIEW_SECONDS = 1.5;
+const STRUM_SPACING = 0.025;    // Seconds between strings in a guitar strum
+
+const midiToFrequency = (note: number) => 440 * Math.pow(2, (note - 69) / 12);
+
+// --- VOICES ---
+
+interface Voice {
+  nodes: AudioScheduledSourceNode[];
+  gain: GainNode;
+  end: number; // AudioContext time when the release is over
+}
+
+/**
+ * Schedules one note with the preset's envelope. `start` and `duration` are
+ * in AudioContext time; the voice releases after `duration`.
+ */
+const playNote = (ctx: AudioContext, out: AudioNode, preset: SynthPreset, note: number, start: number, duration: number, velocity: number): Voice => {
+  const freq = midiToFrequency(note);
+  const gain = ctx.createGain();
+  gain.connect(out);
+  const nodes: AudioScheduledSourceNode[] = [];
+  const oscillator = (type: OscillatorType, frequency: number, detune = 0, target: AudioNode = gain) => {
+    const osc = ctx.createOscillator();
+    osc.type = type;
+    osc.frequency.value = frequency;
+    osc.detune.value = detune;
+    osc.connect(target);
+    nodes.push(osc);
+    return osc;
+  };
+
+  const g = gain.gain;
+  g.setValueAtTime(0, start);
+  let end: number;
+
+  if (preset === 'pad') {
+    // Detuned saws through a soft lowpass, slow swell and release
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = 1200;
+    filter.connect(gain);
+    oscillator('sawtooth', freq, -7, filter);
+    oscillator('sawtooth', freq, 7, filter);
+    const release = 0.4;
+    end = start + duration + release;
+    g.linearRampToValueAtTime(velocity * 0.35, start + Math.min(0.3, duration / 2));
+    g.setValueAtTime(velocity * 0.35, start + duration);
+    g.linearRampToValueAtTime(0, end);
+  } else if (preset === 'piano') {
+    // Fundamental plus a quiet octave, percussive attack and natural decay
+    oscillator('triangle', freq);
+    const overtone = ctx.createGain();
+    overtone.gain.value = 0.3;
+    overtone.connect(gain);
+    oscillator('sine', freq * 2, 0, overtone);
+    end = start + duration + 0.15;
+    g.linearRampToValueAtTime(velocity * 0.6, start + 0.005);
+    g.exponentialRampToValueAtTime(velocity * 0.2, start + Math.min(1.2, duration + 0.01));
+    g.setValueAtTime(velocity * 0.2, start + duration);
+    g.linearRampToValueAtTime(0, end);
+  } else {
+    // Plucked string: bright attack whose brightness dies away
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.setValueAtTime(4000, start);
+    filter.frequency.exponentialRampToValueAtTime(600, start + 0.4);
+    filter.connect(gain);
+    oscillator('sawtooth', freq, 0, filter);
+    end = start + Math.min(duration, 2.5) + 0.1;
+    g.linearRampToValueAtTime(velocity * 0.4, start + 0.003);
+    g.exponentialRampToValueAtTime(velocity * 0.02, end - 0.1);
+    g.linearRampToValueAtTime(0, end);
+  }
+
+  nodes.forEach(node => { node.start(start); node.stop(end + 0.05); });
+  return { nodes, gain, end };
+};
+
+// --- SYNTH ---
+
+export interface ChordSynth {
+  setPreset: (preset: SynthPreset) => void;
+  setVolume: (volume: number) => void; // 0..1
+  /**
+   * Call on every frame while the recording plays with its audible time.
+   * Chords starting within the lookahead are scheduled on the Web Audio
+   * clock; jumps in `mediaTime` (seeks, loop repeats) restart the schedule.
+   */
+  update: (chords: ChordEvent[], level: AnalysisLevel, mediaTime: number, playbackRate: number) => void;
+  preview: (chord: ChordEvent, level: AnalysisLevel) => void;
+  stop: () => void;
+  dispose: () => void;
+}
+
+export const createChordSynth = (): ChordSynth => {
+  let ctx: AudioContext | null = null;
+  let master: GainNode | null = null;
+  let preset: SynthPreset = 'piano';
+  let volume = 0.8;
+  let voices: Voice[] = [];
+  let nextIndex = 0;
+  let previousVoicing: number[] | null = null;
+  let last: { mediaTime: number; ctxTime: number; rate: number; chords: ChordEvent[] } | null = null;
+
+  const ensureContext = () => {
+    if (!ctx) {
+      const AudioContextClass = getAudioContextClass();
+      ctx = new AudioContextClass();
+      master = ctx.createGain();
+      master.gain.value = volume;
+      master.connect(ctx.destination);
+    }
+    if (ctx.state === 'suspended') ctx.resume();
+    return { ctx, master: master! };
+  };
+
+  const playChord = (chord: ChordEvent, level: AnalysisLevel, start: number, duration: number) => {
+    const { ctx: context, master: out } = ensureContext();
+    const notes = voiceChord(chord, level, previousVoicing);
+    if (!notes) return;
+    previousVoicing = notes;
+    const bass = bassNote(chord);
+    const all = bass !== null ? [bass, ...notes] : notes;
+    all.forEach((note, i) => {
+      const at = preset === 'guitar' ? start + i * STRUM_SPACING : start;
+      const velocity = note === bass ? 0.8 : 0.6 / Math.sqrt(notes.length);
+      voices.push(playNote(context, out, preset, note, at, Math.max(0.05, duration - (at - start)), velocity));
+    });
+    // Forget voices that have finished
+    voices = voices.filter(voice => voice.end > context.currentTime);
+  };
+
+  const stop = () => {
+    if (ctx) {
+      const now = ctx.currentTime;
+      for (const voice of voices) {
+        voice.gain.gain.cancelScheduledValues(now);
+        voice.gain.gain.setTargetAtTime(0, now, 0.02);
+        voice.nodes.forEach(node => { try { node.stop(now + 0.1); } catch { /* already stopped */ } });
+      }
+    }
+    voices = [];
+    last = null;
+    previousVoicing = null;
+  };
+
+  return {
+    setPreset: (next) => { preset = next; },
+    setVolume: (next) => {
+      volume = next;
+      if (master && ctx) master.gain.setTargetAtTime(next, ctx.currentTime, 0.02);
+    },
+    update: (chords, level, mediaTime, playbackRate) => {
+      const { ctx: context } = ensureContext();
+      const now = context.currentTime;
+
+      const expected = last ? last.mediaTime + (now - last.ctxTime) * last.rate : mediaTime;
+      if (!last || Math.abs(mediaTime - expected) > SEEK_TOLERANCE || playbackRate !== last.rate || chords !== last.chords) {
+        // (Re)start: silence what was scheduled and pick up the chord under the playhead
+        stop();
+        nextIndex = chords.findIndex(c => c.seconds + c.duration > mediaTime);
+        if (nextIndex < 0) nextIndex = chords.length;
+        const current = chords[nextIndex];
+        if (current && current.seconds < mediaTime) {
+          playChord(current, level, now, (current.seconds + current.duration - mediaTime) / playbackRate);
+          nextIndex++;
+        }
+      }
+      last = { mediaTime, ctxTime: now, rate: playbackRate, chords };
+
+      while (nextIndex < chords.length && chords[nextIndex].seconds < mediaTime + LOOKAHEAD_SECONDS * playbackRate) {
+        const chord = chords[nextIndex];
+        const start = now + Math.max(0, (chord.seconds - mediaTime) / playbackRate);
+        playChord(chord, level, start, chord.duration / playbackRate);
+        nextIndex++;
+      }
+    },
+    preview: (chord, level) => {
+      const { ctx: context } = ensureContext();
+      stop();
+      playChord(chord, level, context.currentTime + 0.01, PREVIEW_SECONDS);
+    },
+    stop,
+    dispose: () => {
+      stop();
+      ctx?.close();
+      ctx = null;
+      master = null;
+    },
+  };
+};
@@ -0,0 +1,23 @@
+// --- FILE DOWNLOADS ---
+
+/** Strips characters that are unsafe in file names on common platforms. */
+export const safeFileName = (name: string, fallback = 'chord-ia'): string => {
+  const cleaned = name.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '').replace(/\s+/g, ' ').trim();
+  return cleaned || fallback;
+};
+
+/** Triggers a browser download for an in-memory blob. */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadText = (content: string, fileName: string, mimeType = 'text/plain') =>
+  downloadBlob(new Blob([content], { type: `${mimeType};charset=utf-8` }), fileName);
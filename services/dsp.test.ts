@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { computeOnsetEnvelope, createOnsetFollower } from './dsp';
+
+describe('createOnsetFollower', () => {
+  it('streams the same envelope as the offline pass', () => {
+    // Clicks every 0.25s over a quiet tone
+    const sampleRate = 8000;
+    const samples = Float32Array.from({ length: sampleRate * 2 }, (_, i) =>
+      0.1 * Math.sin((2 * Math.PI * 220 * i) / sampleRate) + (i % 2000 < 40 ? 0.8 : 0));
+    const follower = createOnsetFollower(sampleRate);
+    for (let i = 0; i < samples.length; i += 700) follower.push(samples.subarray(i, i + 700));
+
+    const offline = computeOnsetEnvelope(samples, sampleRate);
+    const streamed = follower.envelope();
+    expect(streamed.frameRate).toBe(offline.frameRate);
+    expect(streamed.offsetSeconds).toBe(offline.offsetSeconds);
+    expect(Array.from(streamed.values)).toEqual(Array.from(offline.values));
+  });
+});
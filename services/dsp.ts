@@ -0,0 +1,272 @@
+// --- SIGNAL PROCESSING PRIMITIVES ---
+// Plain TypeScript (no Web Audio) so it can run on decoded buffers or in a worklet.
+
+/** In-place iterative radix-2 FFT. `re.length` must be a power of two. */
+export const fft = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const angle = (-2 * Math.PI) / size;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < half; k++) {
+        const a = start + k;
+        const b = a + half;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+};
+
+export const hannWindow = (size: number): Float64Array => {
+  const w = new Float64Array(size);
+  for (let i = 0; i < size; i++) w[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+  return w;
+};
+
+/** Magnitude spectrum (bins 0..size/2) of one windowed frame starting at `offset`. */
+export const magnitudeSpectrum = (samples: Float32Array, offset: number, window: Float64Array, out?: Float64Array): Float64Array => {
+  const size = window.length;
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  for (let i = 0; i < size; i++) {
+    const idx = offset + i;
+    re[i] = idx < samples.length ? samples[idx] * window[i] : 0;
+  }
+  fft(re, im);
+  const mags = out || new Float64Array(size / 2 + 1);
+  for (let k = 0; k <= size / 2; k++) mags[k] = Math.hypot(re[k], im[k]);
+  return mags;
+};
+
+// --- CHROMA ---
+
+export interface ChromaOptions {
+  frameSize?: number; // Power of two
+  hopSize?: number;
+  minFreq?: number;   // Hz
+  maxFreq?: number;
+  referenceA4?: number;
+}
+
+export interface ChromaResult {
+  chroma: Float32Array[]; // One 12-bin vector per frame, C = 0, L2-normalized (zeros if silent)
+  rms: Float32Array;      // Frame energy, used as a silence gate
+  hopSeconds: number;
+}
+
+/** Maps each FFT bin to a pitch class (or -1 when outside the frequency range). */
+export const buildChromaMap = (frameSize: number, sampleRate: number, minFreq: number, maxFreq: number, referenceA4 = 440): Int8Array => {
+  const map = new Int8Array(frameSize / 2 + 1).fill(-1);
+  for (let k = 1; k <= frameSize / 2; k++) {
+    const freq = (k * sampleRate) / frameSize;
+    if (freq < minFreq || freq > maxFreq) continue;
+    const midi = 69 + 12 * Math.log2(freq / referenceA4);
+    map[k] = ((Math.round(midi) % 12) + 12) % 12;
+  }
+  return map;
+};
+
+/** Folds a magnitude spectrum into a 12-bin chroma vector (log-compressed, L2-normalized). */
+export const foldChroma = (mags: Float64Array, map: Int8Array, out = new Float32Array(12)): Float32Array => {
+  out.fill(0);
+  for (let k = 0; k < map.length; k++) {
+    const pc = map[k];
+    if (pc >= 0) out[pc] += Math.log1p(100 * mags[k]);
+  }
+  let norm = 0;
+  for (let i = 0; i < 12; i++) norm += out[i] * out[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) for (let i = 0; i < 12; i++) out[i] /= norm;
+  return out;
+};
+
+export const computeChroma = (
+  samples: Float32Array,
+  sampleRate: number,
+  { frameSize = 4096, hopSize = 2048, minFreq = 65, maxFreq = 2100, referenceA4 = 440 }: ChromaOptions = {},
+): ChromaResult => {
+  const window = hannWindow(frameSize);
+  const map = buildChromaMap(frameSize, sampleRate, minFreq, maxFreq, referenceA4);
+  const frameCount = Math.max(1, Math.floor((samples.length - frameSize) / hopSize) + 1);
+  const chroma: Float32Array[] = [];
+  const rms = new Float32Array(frameCount);
+  const mags = new Float64Array(frameSize / 2 + 1);
+
+  for (let f = 0; f < frameCount; f++) {
+    const offset = f * hopSize;
+    let energy = 0;
+    for (let i = 0; i < frameSize && offset + i < samples.length; i++) energy += samples[offset + i] ** 2;
+    rms[f] = Math.sqrt(energy / frameSize);
+    magnitudeSpectrum(samples, offset, window, mags);
+    chroma.push(foldChroma(mags, map));
+  }
+
+  return { chroma, rms, hopSeconds: hopSize / sampleRate };
+};
+
+// --- ONSETS & TEMPO ---
+
+export interface OnsetEnvelope {
+  values: Float32Array; // Half-wave rectified spectral flux, one value per hop
+  frameRate: number;    // Values per second
+  offsetSeconds: number; // Time of the first value (centre of the first frame)
+}
+
+/** Sum of the rises in log magnitude from one spectrum to the next. */
+const spectralFlux = (current: Float64Array, prev: Float64Array) => {
+  let flux = 0;
+  for (let k = 0; k < current.length; k++) {
+    const diff = Math.log1p(current[k]) - Math.log1p(prev[k]);
+    if (diff > 0) flux += diff;
+  }
+  return flux;
+};
+
+export const computeOnsetEnvelope = (samples: Float32Array, sampleRate: number, frameSize = 1024, hopSize = 256): OnsetEnvelope => {
+  const window = hannWindow(frameSize);
+  const frameCount = Math.max(1, Math.floor((samples.length - frameSize) / hopSize) + 1);
+  const values = new Float32Array(frameCount);
+  let prev = new Float64Array(frameSize / 2 + 1);
+  let current = new Float64Array(frameSize / 2 + 1);
+
+  for (let f = 0; f < frameCount; f++) {
+    magnitudeSpectrum(samples, f * hopSize, window, current);
+    values[f] = f === 0 ? 0 : spectralFlux(current, prev);
+    [prev, current] = [current, prev];
+  }
+
+  return { values, frameRate: sampleRate / hopSize, offsetSeconds: frameSize / 2 / sampleRate };
+};
+
+export interface OnsetFollower {
+  /** Feeds the next samples of the stream, in blocks of any size. */
+  push: (block: Float32Array) => void;
+  /** The envelope of everything pushed so far. */
+  envelope: () => OnsetEnvelope;
+}
+
+/** Streaming counterpart of `computeOnsetEnvelope`, with the same frames and values. */
+export const createOnsetFollower = (sampleRate: number, frameSize = 1024, hopSize = 256): OnsetFollower => {
+  const window = hannWindow(frameSize);
+  const values: number[] = [];
+  let pending = new Float32Array(0); // Samples not yet passed by a whole hop
+  let prev = new Float64Array(frameSize / 2 + 1);
+  let current = new Float64Array(frameSize / 2 + 1);
+
+  return {
+    push: (block) => {
+      const joined = new Float32Array(pending.length + block.length);
+      joined.set(pending);
+      joined.set(block, pending.length);
+      let offset = 0;
+      for (; offset + frameSize <= joined.length; offset += hopSize) {
+        magnitudeSpectrum(joined, offset, window, current);
+        values.push(values.length === 0 ? 0 : spectralFlux(current, prev));
+        [prev, current] = [current, prev];
+      }
+      pending = joined.slice(offset);
+    },
+    envelope: () => ({ values: Float32Array.from(values), frameRate: sampleRate / hopSize, offsetSeconds: frameSize / 2 / sampleRate }),
+  };
+};
+
+/**
+ * Global tempo from the autocorrelation of the onset envelope, weighted
+ * towards ~120 BPM to avoid octave errors. Returns 0 if nothing periodic is found.
+ */
+export const estimateTempo = ({ values, frameRate }: OnsetEnvelope, minBpm = 60, maxBpm = 200): number => {
+  const n = values.length;
+  let mean = 0;
+  for (let i = 0; i < n; i++) mean += values[i];
+  mean /= n || 1;
+
+  const autocorrelation = (lag: number) => {
+    let acf = 0;
+    for (let i = 0; i + lag < n; i++) acf += (values[i] - mean) * (values[i + lag] - mean);
+    return acf / (n - lag);
+  };
+
+  const minLag = Math.max(1, Math.floor((60 * frameRate) / maxBpm));
+  const maxLag = Math.min(n - 2, Math.ceil((60 * frameRate) / minBpm));
+  let bestLag = 0;
+  let bestScore = 0;
+
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = (60 * frameRate) / lag;
+    const prior = Math.exp(-0.5 * (Math.log2(bpm / 120) / 0.9) ** 2);
+    const score = autocorrelation(lag) * prior;
+    if (score > bestScore) { bestScore = score; bestLag = lag; }
+  }
+  if (!bestLag) return 0;
+
+  // Parabolic interpolation around the peak for sub-frame precision
+  const [y0, y1, y2] = [autocorrelation(bestLag - 1), autocorrelation(bestLag), autocorrelation(bestLag + 1)];
+  const denom = y0 - 2 * y1 + y2;
+  const refined = denom < 0 ? bestLag + Math.max(-0.5, Math.min(0.5, (0.5 * (y0 - y2)) / denom)) : bestLag;
+  return (60 * frameRate) / refined;
+};
+
+/**
+ * Dynamic-programming beat tracker (Ellis 2007): picks the sequence of onset
+ * peaks that best fits a beat period near `bpm` while allowing the period to
+ * drift from beat to beat. Returns beat times in seconds.
+ */
+export const trackBeats = ({ values, frameRate, offsetSeconds }: OnsetEnvelope, bpm: number, tightness = 100): number[] => {
+  const n = values.length;
+  if (n < 2 || !(bpm > 0)) return [];
+  const period = (60 * frameRate) / bpm; // Frames per beat
+
+  // Normalize so the transition penalty has the same weight on loud and quiet recordings
+  let mean = 0;
+  for (let i = 0; i < n; i++) mean += values[i];
+  mean /= n;
+  let variance = 0;
+  for (let i = 0; i < n; i++) variance += (values[i] - mean) ** 2;
+  const std = Math.sqrt(variance / n) || 1;
+
+  const score = new Float64Array(n);
+  const backlink = new Int32Array(n).fill(-1);
+  const minStep = Math.max(1, Math.round(period / 2));
+  const maxStep = Math.round(period * 2);
+
+  for (let i = 0; i < n; i++) {
+    let best = -Infinity;
+    for (let j = Math.max(0, i - maxStep); j <= i - minStep; j++) {
+      const candidate = score[j] - tightness * Math.log((i - j) / period) ** 2;
+      if (candidate > best) { best = candidate; backlink[i] = j; }
+    }
+    score[i] = values[i] / std + (backlink[i] >= 0 ? Math.max(0, best) : 0);
+    if (backlink[i] >= 0 && best <= 0) backlink[i] = -1; // Start a fresh chain rather than inherit a penalty
+  }
+
+  // End on the best-scoring frame within the last beat period, then backtrace
+  let last = n - 1;
+  for (let i = Math.max(0, n - Math.ceil(period)); i < n; i++) if (score[i] > score[last]) last = i;
+  const frames: number[] = [];
+  for (let f = last; f >= 0; f = backlink[f]) frames.push(f);
+  return frames.reverse().map(f => f / frameRate + offsetSeconds);
+};
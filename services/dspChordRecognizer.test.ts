@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { chordsFromStates, createChordFollower, createChordSegmenter, estimateKey, nameChordState } from './dspChordRecognizer';
+
+/** A normalized chroma frame with energy on the given pitch classes. */
+const chromaOf = (...pitchClasses: number[]) => {
+  const frame = new Float32Array(12);
+  pitchClasses.forEach(pc => { frame[pc] = 1 / Math.sqrt(pitchClasses.length); });
+  return frame;
+};
+
+const C_MAJOR = chromaOf(0, 4, 7);
+const A_MINOR = chromaOf(9, 0, 4);
+
+describe('createChordFollower', () => {
+  it('settles on the matching triad and ignores silence', () => {
+    const follower = createChordFollower();
+    const { state } = follower.push(C_MAJOR, 0.2);
+    expect(nameChordState(state, false).symbol).toBe('C');
+    expect(nameChordState(follower.push(C_MAJOR, 0).state, false).symbol).toBe('N.C.');
+  });
+});
+
+describe('chordsFromStates', () => {
+  it('turns runs of frames into chords covering the clip', () => {
+    const follower = createChordFollower();
+    const frames = [...Array(20).fill(C_MAJOR), ...Array(20).fill(A_MINOR)];
+    const states = frames.map(frame => follower.push(frame, 0.2).state);
+    const chords = chordsFromStates(states, states.map(() => 0.9), 0.1, 0, 4, false);
+    expect(chords.map(c => [c.symbol, c.seconds])).toEqual([['C', 0], ['Am', expect.closeTo(2, 0)]]);
+    expect(chords[1].seconds + chords[1].duration).toBe(4);
+  });
+
+  it('makes a clip shorter than one frame a single N.C.', () => {
+    expect(chordsFromStates([], [], 0.1, 0, 0.2, false)).toEqual([
+      expect.objectContaining({ symbol: 'N.C.', seconds: 0, duration: 0.2 }),
+    ]);
+  });
+});
+
+describe('createChordSegmenter', () => {
+  it('gives the same chords at every frame as segmenting the clip so far', () => {
+    // C#, a blip of C too short to keep, then A# and back to C#; the spelling flips to flats on the way
+    const states = [...Array(12).fill(8), ...Array(3).fill(0), ...Array(10).fill(80), ...Array(8).fill(8)];
+    const scores = states.map((_, f) => 0.5 + (f % 5) / 10);
+    const segmenter = createChordSegmenter(0.1, 0.05);
+    states.forEach((state, f) => {
+      segmenter.push(state, scores[f]);
+      const duration = (f + 1) * 0.1;
+      expect(segmenter.chords(duration, f > 27)).toEqual(chordsFromStates(states.slice(0, f + 1), scores, 0.1, 0.05, duration, f > 27));
+    });
+  });
+});
+
+describe('estimateKey', () => {
+  it('finds the key from accumulated chroma', () => {
+    const frames = [C_MAJOR, chromaOf(5, 9, 0), chromaOf(7, 11, 2), C_MAJOR];
+    expect(estimateKey(frames)).toEqual({ tonic: 0, mode: 'major' });
+  });
+});
@@ -0,0 +1,397 @@
+import { SongAnalysis, ChordEvent, AnalysisProgress } from "../types";
+import { AnalysisProvider } from "./analysisProvider";
+import { formatTimestamp } from "./analysisValidator";
+import { base64ToArrayBuffer, decodeAudio, renderMono } from "./audioUtils";
+import { computeChroma, computeOnsetEnvelope } from "./dsp";
+import { tempoMapFromEnvelope } from "./beatTracker";
+import { chordFamily, formatKey, keyUsesFlats, mod12, noteToPitchClass, pitchClassName, Mode } from "./musicTheory";
+
+// --- CONFIGURATION ---
+const DSP_SAMPLE_RATE = 11025;  // Plenty for chroma up to ~2 kHz
+const CHROMA_FRAME = 4096;
+const CHROMA_HOP = 2048;
+// A chord change detected at frame f happens between the centres of frames f-1 and f
+const CHANGE_OFFSET = (CHROMA_FRAME - CHROMA_HOP) / 2 / DSP_SAMPLE_RATE;
+const SWITCH_PENALTY = 0.12;    // Viterbi cost of changing chord between frames
+const SILENCE_RMS = 0.008;      // Frames quieter than this are "N.C."
+const MIN_CHORD_SECONDS = 0.5;  // Shorter segments are absorbed by their neighbour
+const SMOOTHING_FRAMES = 2;     // Chroma moving average radius
+
+// --- CHORD TEMPLATES ---
+
+interface ChordTemplate {
+  root: number;
+  quality: string;
+  extension: string;
+  vector: Float32Array;
+  prior: number; // Slight bias towards plain triads
+}
+
+const CHORD_TYPES: { quality: string; extension: string; intervals: number[]; prior: number }[] = [
+  { quality: '', extension: '', intervals: [0, 4, 7], prior: 1.0 },
+  { quality: 'm', extension: '', intervals: [0, 3, 7], prior: 1.0 },
+  { quality: 'dim', extension: '', intervals: [0, 3, 6], prior: 0.93 },
+  { quality: 'aug', extension: '', intervals: [0, 4, 8], prior: 0.9 },
+  { quality: 'sus4', extension: '', intervals: [0, 5, 7], prior: 0.92 },
+  { quality: '', extension: '7', intervals: [0, 4, 7, 10], prior: 0.88 },
+  { quality: 'm', extension: '7', intervals: [0, 3, 7, 10], prior: 0.88 },
+  { quality: 'maj', extension: '7', intervals: [0, 4, 7, 11], prior: 0.87 },
+];
+
+const buildTemplates = (): ChordTemplate[] => {
+  const templates: ChordTemplate[] = [];
+  for (let root = 0; root < 12; root++) {
+    for (const type of CHORD_TYPES) {
+      const vector = new Float32Array(12);
+      type.intervals.forEach((interval, i) => { vector[mod12(root + interval)] = i === 0 ? 1.2 : 1; });
+      const norm = Math.hypot(...vector);
+      vector.forEach((v, i) => { vector[i] = v / norm; });
+      templates.push({ root, quality: type.quality, extension: type.extension, vector, prior: type.prior });
+    }
+  }
+  return templates;
+};
+
+const TEMPLATES = buildTemplates();
+const NO_CHORD_STATE = TEMPLATES.length;
+
+// Krumhansl-Schmuckler key profiles
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+// --- UTILS ---
+
+const dot = (a: Float32Array, b: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < 12; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+const correlation = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+  const n = a.length;
+  let ma = 0, mb = 0;
+  for (let i = 0; i < n; i++) { ma += a[i]; mb += b[i]; }
+  ma /= n; mb /= n;
+  let num = 0, da = 0, db = 0;
+  for (let i = 0; i < n; i++) {
+    num += (a[i] - ma) * (b[i] - mb);
+    da += (a[i] - ma) ** 2;
+    db += (b[i] - mb) ** 2;
+  }
+  return da && db ? num / Math.sqrt(da * db) : 0;
+};
+
+const smoothChroma = (chroma: Float32Array[], radius: number): Float32Array[] =>
+  chroma.map((_, f) => {
+    const out = new Float32Array(12);
+    const from = Math.max(0, f - radius);
+    const to = Math.min(chroma.length - 1, f + radius);
+    for (let g = from; g <= to; g++) for (let i = 0; i < 12; i++) out[i] += chroma[g][i];
+    const norm = Math.hypot(...out);
+    if (norm > 0) for (let i = 0; i < 12; i++) out[i] /= norm;
+    return out;
+  });
+
+export const estimateKey = (chroma: Float32Array[]): { tonic: number; mode: Mode } => {
+  const total = new Float64Array(12);
+  for (const frame of chroma) for (let i = 0; i < 12; i++) total[i] += frame[i];
+
+  let best = { tonic: 0, mode: 'major' as Mode, score: -Infinity };
+  for (let tonic = 0; tonic < 12; tonic++) {
+    const rotated = Array.from({ length: 12 }, (_, i) => total[mod12(i + tonic)]);
+    const major = correlation(rotated, MAJOR_PROFILE);
+    const minor = correlation(rotated, MINOR_PROFILE);
+    if (major > best.score) best = { tonic, mode: 'major', score: major };
+    if (minor > best.score) best = { tonic, mode: 'minor', score: minor };
+  }
+  return { tonic: best.tonic, mode: best.mode };
+};
+
+/** How well one chroma frame fits a chord state (cosine similarity weighted by the prior). */
+const stateEmission = (chroma: Float32Array, silent: boolean, s: number) =>
+  s === NO_CHORD_STATE ? (silent ? 1 : 0) : (silent ? 0 : dot(chroma, TEMPLATES[s].vector) * TEMPLATES[s].prior);
+
+/**
+ * Viterbi decoding over chord states: each frame scores every template by cosine
+ * similarity; changing chord costs SWITCH_PENALTY, which suppresses flicker.
+ */
+const decodeStates = (chroma: Float32Array[], silent: boolean[]): { states: number[]; scores: number[] } => {
+  const stateCount = TEMPLATES.length + 1;
+  const frameCount = chroma.length;
+  if (frameCount === 0) return { states: [], scores: [] }; // Nothing to decode in a clip shorter than a frame
+  const backPointers: Int16Array[] = [];
+  const emission = (f: number, s: number) => stateEmission(chroma[f], silent[f], s);
+
+  let prev = new Float64Array(stateCount);
+  for (let s = 0; s < stateCount; s++) prev[s] = emission(0, s);
+
+  for (let f = 1; f < frameCount; f++) {
+    let bestPrev = 0;
+    for (let s = 1; s < stateCount; s++) if (prev[s] > prev[bestPrev]) bestPrev = s;
+
+    const current = new Float64Array(stateCount);
+    const pointers = new Int16Array(stateCount);
+    for (let s = 0; s < stateCount; s++) {
+      const stay = prev[s];
+      const jump = prev[bestPrev] - SWITCH_PENALTY;
+      pointers[s] = stay >= jump ? s : bestPrev;
+      current[s] = Math.max(stay, jump) + emission(f, s);
+    }
+    backPointers.push(pointers);
+    prev = current;
+  }
+
+  let state = 0;
+  for (let s = 1; s < stateCount; s++) if (prev[s] > prev[state]) state = s;
+  const states = new Array<number>(frameCount);
+  states[frameCount - 1] = state;
+  for (let f = frameCount - 1; f > 0; f--) {
+    state = backPointers[f - 1][state];
+    states[f - 1] = state;
+  }
+  const scores = states.map((s, f) => emission(f, s));
+  return { states, scores };
+};
+
+// --- SEGMENTS ---
+
+export type ChordName = Pick<ChordEvent, 'root' | 'quality' | 'extension' | 'bass' | 'symbol'>;
+
+/** Spelling of a chord state ("N.C." for the no-chord state). */
+export const nameChordState = (state: number, useFlats: boolean): ChordName => {
+  if (state === NO_CHORD_STATE) return { root: 'N.C.', quality: '', extension: '', bass: '', symbol: 'N.C.' };
+  const template = TEMPLATES[state];
+  const root = pitchClassName(template.root, useFlats);
+  return { root, quality: template.quality, extension: template.extension, bass: '', symbol: `${root}${template.quality}${template.extension}` };
+};
+
+interface Segment { state: number; start: number; end: number; score: number; frames: number }
+
+export interface ChordSegmenter {
+  /** Adds the next frame's chord state and its fit. */
+  push: (state: number, score: number) => void;
+  /** The chords so far, the last one running to `duration`. Without any frames the whole clip is one N.C. */
+  chords: (duration: number, useFlats: boolean) => ChordEvent[];
+}
+
+/**
+ * Turns per-frame chord states into chord events as the frames arrive: runs
+ * of the same state become one chord, and segments shorter than
+ * MIN_CHORD_SECONDS are absorbed by the previous one. `changeOffset` places a
+ * change detected at frame f. Only the last segment can still change, so the
+ * chords before it are built once (and respelled only if `useFlats` flips).
+ */
+export const createChordSegmenter = (hopSeconds: number, changeOffset: number): ChordSegmenter => {
+  const minFrames = Math.ceil(MIN_CHORD_SECONDS / hopSeconds);
+  const settled: ChordEvent[] = [];
+  const settledStates: number[] = [];
+  let spelledFlats = false;
+  let merged: Segment | null = null; // Last merged segment; absorbs short runs after it
+  let run: Segment | null = null;    // Current run of one state, not merged yet
+  let frameCount = 0;
+
+  /** Whether `segment` joins `last` instead of starting a chord of its own. */
+  const joins = (last: Segment, segment: Segment) => segment.end - segment.start < minFrames || last.state === segment.state;
+  const join = (last: Segment, segment: Segment) => {
+    last.end = segment.end;
+    if (last.state === segment.state) { last.score += segment.score; last.frames += segment.frames; }
+  };
+
+  const toChord = (segment: Segment, seconds: number, end: number, useFlats: boolean): ChordEvent => ({
+    timestamp: formatTimestamp(seconds),
+    seconds,
+    duration: end - seconds,
+    ...nameChordState(segment.state, useFlats),
+    confidence: segment.state === NO_CHORD_STATE ? 1 : Math.round(Math.min(1, segment.score / segment.frames) * 100) / 100,
+  });
+
+  const startOf = (segment: Segment) => (segment.start === 0 ? 0 : segment.start * hopSeconds + changeOffset);
+
+  const settle = (segment: Segment, end: number) => {
+    settled.push(toChord(segment, startOf(segment), end, spelledFlats));
+    settledStates.push(segment.state);
+  };
+
+  return {
+    push: (state, score) => {
+      if (run && run.state === state) {
+        run.end++;
+        run.score += score;
+        run.frames++;
+      } else {
+        if (run && merged && joins(merged, run)) {
+          join(merged, run);
+        } else if (run) {
+          if (merged) settle(merged, run.start * hopSeconds + changeOffset);
+          merged = { ...run };
+        }
+        run = { state, start: frameCount, end: frameCount + 1, score, frames: 1 };
+      }
+      frameCount++;
+    },
+    chords: (duration, useFlats) => {
+      if (useFlats !== spelledFlats) {
+        spelledFlats = useFlats;
+        settled.forEach((chord, i) => { settled[i] = { ...chord, ...nameChordState(settledStates[i], useFlats) }; });
+      }
+      // Merge the open run into a copy of the last segment; that merge can still be undone by what follows
+      let last = merged && { ...merged };
+      let before: ChordEvent | null = null;
+      if (run) {
+        if (last && joins(last, run)) {
+          join(last, run);
+        } else {
+          if (last) before = toChord(last, startOf(last), run.start * hopSeconds + changeOffset, useFlats);
+          last = { ...run };
+        }
+      }
+      if (!last) {
+        return [{ timestamp: formatTimestamp(0), seconds: 0, duration, ...nameChordState(NO_CHORD_STATE, useFlats), confidence: 1 }];
+      }
+      const open = toChord(last, startOf(last), duration, useFlats);
+      return before ? [...settled, before, open] : [...settled, open];
+    },
+  };
+};
+
+/** Segments a whole clip's chord states at once; see `createChordSegmenter`. */
+export const chordsFromStates = (
+  states: number[], scores: number[], hopSeconds: number, changeOffset: number, duration: number, useFlats: boolean,
+): ChordEvent[] => {
+  const segmenter = createChordSegmenter(hopSeconds, changeOffset);
+  states.forEach((state, f) => segmenter.push(state, scores[f]));
+  return segmenter.chords(duration, useFlats);
+};
+
+// --- LIVE ---
+
+export interface ChordFollower {
+  /** Feeds one chroma frame and returns the chord state it settles on, with the frame's fit. */
+  push: (chroma: Float32Array, rms: number) => { state: number; score: number; silent: boolean };
+  reset: () => void;
+}
+
+/**
+ * Streaming counterpart of `decodeStates`: the forward Viterbi pass without
+ * backtracking, so each frame commits at once. A new chord has to out-score
+ * the current one by SWITCH_PENALTY before it takes over.
+ */
+export const createChordFollower = (): ChordFollower => {
+  const stateCount = TEMPLATES.length + 1;
+  let prev: Float64Array | null = null;
+
+  return {
+    push: (chroma, rms) => {
+      const silent = rms < SILENCE_RMS;
+      const current = new Float64Array(stateCount);
+      let bestPrev = 0;
+      if (prev) for (let s = 1; s < stateCount; s++) if (prev[s] > prev[bestPrev]) bestPrev = s;
+      let best = 0;
+      for (let s = 0; s < stateCount; s++) {
+        const carried = prev ? Math.max(prev[s], prev[bestPrev] - SWITCH_PENALTY) : 0;
+        current[s] = carried + stateEmission(chroma, silent, s);
+        if (current[s] > current[best]) best = s;
+      }
+      // Only differences matter; keep the scores from growing without bound
+      const top = current[best];
+      for (let s = 0; s < stateCount; s++) current[s] -= top;
+      prev = current;
+      return { state: best, score: stateEmission(chroma, silent, best), silent };
+    },
+    reset: () => { prev = null; },
+  };
+};
+
+// --- RECOGNIZER ---
+
+export interface DspRecognizerOptions {
+  title?: string;
+  onProgress?: (progress: AnalysisProgress) => void;
+  signal?: AbortSignal; // Checked between stages; a stage itself runs to completion
+}
+
+/** Builds a SongAnalysis from decoded audio using chroma template matching. */
+export const recognizeChordsFromBuffer = async (buffer: AudioBuffer, { title = '', onProgress, signal }: DspRecognizerOptions = {}): Promise<SongAnalysis> => {
+  onProgress?.({ message: 'Resampling audio...' });
+  const samples = await renderMono(buffer, DSP_SAMPLE_RATE);
+
+  signal?.throwIfAborted();
+  onProgress?.({ message: 'Computing chroma features...' });
+  const { chroma: rawChroma, rms, hopSeconds } = computeChroma(samples, DSP_SAMPLE_RATE, { frameSize: CHROMA_FRAME, hopSize: CHROMA_HOP });
+  const chroma = smoothChroma(rawChroma, SMOOTHING_FRAMES);
+  const silent = Array.from(rms, v => v < SILENCE_RMS);
+
+  signal?.throwIfAborted();
+  onProgress?.({ message: 'Matching chord templates...' });
+  const key = estimateKey(chroma.filter((_, f) => !silent[f]));
+  const useFlats = keyUsesFlats(key.tonic, key.mode);
+  const { states, scores } = decodeStates(chroma, silent);
+
+  const duration = buffer.duration;
+  const chords = chordsFromStates(states, scores, hopSeconds, CHANGE_OFFSET, duration, useFlats);
+
+  signal?.throwIfAborted();
+  onProgress?.({ message: 'Tracking beats...' });
+  const tempoMap = tempoMapFromEnvelope(computeOnsetEnvelope(samples, DSP_SAMPLE_RATE));
+  const bpm = tempoMap ? Math.round(tempoMap.bpm) : 120;
+
+  return {
+    title,
+    artist: '',
+    key: formatKey(key.tonic, key.mode),
+    bpm,
+    timeSignature: '4/4',
+    complexityLevel: 'Basic',
+    summary: 'Local signal-processing estimate (chroma template matching). Triads and basic sevenths only; no inversions.',
+    sections: [{ name: 'Full Track', startTime: 0, endTime: duration, color: '#334155' }],
+    chords,
+    ...(tempoMap ? { tempoMap } : {}),
+    engine: 'local',
+  };
+};
+
+export const recognizeChords = async (data: ArrayBuffer, options?: DspRecognizerOptions): Promise<SongAnalysis> => {
+  options?.onProgress?.({ message: 'Decoding audio...' });
+  const buffer = await decodeAudio(data);
+  options?.signal?.throwIfAborted();
+  return recognizeChordsFromBuffer(buffer, options);
+};
+
+// --- COMPARISON ---
+
+export interface TimelineComparison {
+  agreement: number;      // 0..1 share of compared time where both engines agree on root + triad family
+  comparedSeconds: number;
+}
+
+/** Samples both timelines on a fixed grid and compares root pitch class and triad family. */
+export const compareTimelines = (a: ChordEvent[], b: ChordEvent[], step = 0.25): TimelineComparison => {
+  const end = Math.min(
+    Math.max(0, ...a.map(c => c.seconds + c.duration)),
+    Math.max(0, ...b.map(c => c.seconds + c.duration)),
+  );
+  const at = (chords: ChordEvent[], t: number) => chords.find(c => t >= c.seconds && t < c.seconds + c.duration);
+  const signature = (c: ChordEvent) => `${noteToPitchClass(c.root)}:${chordFamily(c)}`;
+
+  let agree = 0;
+  let compared = 0;
+  for (let t = 0; t < end; t += step) {
+    const ca = at(a, t);
+    const cb = at(b, t);
+    if (!ca || !cb) continue;
+    compared++;
+    if (signature(ca) === signature(cb)) agree++;
+  }
+  return { agreement: compared ? agree / compared : 0, comparedSeconds: compared * step };
+};
+
+// --- PROVIDER ---
+
+export const createDspProvider = (): AnalysisProvider => ({
+  id: 'local',
+  label: 'Local DSP',
+  analyzeAudio: ({ base64Data }, options) => recognizeChords(base64ToArrayBuffer(base64Data), options),
+  analyzeUrl: async () => {
+    throw new Error("Local analysis needs the audio itself; links can only be analyzed by the AI engine.");
+  },
+});
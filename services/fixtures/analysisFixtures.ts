@@ -0,0 +1,95 @@
+import { SongAnalysis } from "../../types";
+
+// Recorded analyses used by the offline mock provider.
+// Each one is a complete, validator-clean SongAnalysis.
+
+export const POP_BALLAD_FIXTURE: SongAnalysis = {
+  title: "Demo Ballad",
+  artist: "CHORD-IA Fixtures",
+  key: "G Major",
+  bpm: 96,
+  timeSignature: "4/4",
+  complexityLevel: "Intermediate",
+  summary: "Diatonic I-V-vi-IV ballad in G with a passing D/F# bass line and a suspended pre-chorus.",
+  sections: [
+    { name: "Count-in", startTime: 0.0, endTime: 2.5, color: "#334155" },
+    { name: "Intro", startTime: 2.5, endTime: 12.5, color: "#475569" },
+    { name: "Verse 1", startTime: 12.5, endTime: 32.5, color: "#4f46e5" },
+    { name: "Pre-Chorus", startTime: 32.5, endTime: 42.5, color: "#7c3aed" },
+    { name: "Chorus", startTime: 42.5, endTime: 62.5, color: "#db2777" },
+    { name: "Outro", startTime: 62.5, endTime: 72.5, color: "#475569" },
+  ],
+  chords: [
+    { timestamp: "0:00", seconds: 0.0, duration: 2.5, root: "N.C.", quality: "", extension: "", bass: "", symbol: "N.C.", confidence: 1.0 },
+    { timestamp: "0:02", seconds: 2.5, duration: 2.5, root: "G", quality: "", extension: "", bass: "", symbol: "G", confidence: 0.97 },
+    { timestamp: "0:05", seconds: 5.0, duration: 2.5, root: "D", quality: "", extension: "", bass: "F#", symbol: "D/F#", confidence: 0.9 },
+    { timestamp: "0:07", seconds: 7.5, duration: 2.5, root: "E", quality: "m", extension: "", bass: "", symbol: "Em", confidence: 0.95 },
+    { timestamp: "0:10", seconds: 10.0, duration: 2.5, root: "C", quality: "", extension: "add9", bass: "", symbol: "Cadd9", confidence: 0.88 },
+    { timestamp: "0:12", seconds: 12.5, duration: 2.5, root: "G", quality: "", extension: "", bass: "", symbol: "G", confidence: 0.96 },
+    { timestamp: "0:15", seconds: 15.0, duration: 2.5, root: "D", quality: "", extension: "", bass: "", symbol: "D", confidence: 0.94 },
+    { timestamp: "0:17", seconds: 17.5, duration: 2.5, root: "E", quality: "m", extension: "7", bass: "", symbol: "Em7", confidence: 0.91 },
+    { timestamp: "0:20", seconds: 20.0, duration: 2.5, root: "C", quality: "", extension: "", bass: "", symbol: "C", confidence: 0.95 },
+    { timestamp: "0:22", seconds: 22.5, duration: 2.5, root: "G", quality: "", extension: "", bass: "", symbol: "G", confidence: 0.96 },
+    { timestamp: "0:25", seconds: 25.0, duration: 2.5, root: "D", quality: "", extension: "", bass: "", symbol: "D", confidence: 0.93 },
+    { timestamp: "0:27", seconds: 27.5, duration: 5.0, root: "C", quality: "", extension: "", bass: "", symbol: "C", confidence: 0.95 },
+    { timestamp: "0:32", seconds: 32.5, duration: 2.5, root: "A", quality: "m", extension: "7", bass: "", symbol: "Am7", confidence: 0.89 },
+    { timestamp: "0:35", seconds: 35.0, duration: 2.5, root: "D", quality: "", extension: "", bass: "", symbol: "D", confidence: 0.94 },
+    { timestamp: "0:37", seconds: 37.5, duration: 2.5, root: "D", quality: "sus4", extension: "", bass: "", symbol: "Dsus4", confidence: 0.82 },
+    { timestamp: "0:40", seconds: 40.0, duration: 2.5, root: "D", quality: "", extension: "", bass: "", symbol: "D", confidence: 0.9 },
+    { timestamp: "0:42", seconds: 42.5, duration: 2.5, root: "C", quality: "", extension: "", bass: "", symbol: "C", confidence: 0.95 },
+    { timestamp: "0:45", seconds: 45.0, duration: 2.5, root: "D", quality: "", extension: "", bass: "", symbol: "D", confidence: 0.96 },
+    { timestamp: "0:47", seconds: 47.5, duration: 2.5, root: "G", quality: "", extension: "", bass: "", symbol: "G", confidence: 0.97 },
+    { timestamp: "0:50", seconds: 50.0, duration: 2.5, root: "E", quality: "m", extension: "", bass: "", symbol: "Em", confidence: 0.93 },
+    { timestamp: "0:52", seconds: 52.5, duration: 2.5, root: "C", quality: "", extension: "", bass: "", symbol: "C", confidence: 0.95 },
+    { timestamp: "0:55", seconds: 55.0, duration: 2.5, root: "D", quality: "", extension: "", bass: "", symbol: "D", confidence: 0.95 },
+    { timestamp: "0:57", seconds: 57.5, duration: 5.0, root: "G", quality: "", extension: "", bass: "", symbol: "G", confidence: 0.97 },
+    { timestamp: "1:02", seconds: 62.5, duration: 2.5, root: "G", quality: "", extension: "", bass: "", symbol: "G", confidence: 0.96 },
+    { timestamp: "1:05", seconds: 65.0, duration: 2.5, root: "C", quality: "", extension: "", bass: "G", symbol: "C/G", confidence: 0.86 },
+    { timestamp: "1:07", seconds: 67.5, duration: 5.0, root: "G", quality: "", extension: "", bass: "", symbol: "G", confidence: 0.97 },
+  ],
+};
+
+export const JAZZ_STANDARD_FIXTURE: SongAnalysis = {
+  title: "Demo Changes",
+  artist: "CHORD-IA Fixtures",
+  key: "Bb Major",
+  bpm: 120,
+  timeSignature: "4/4",
+  complexityLevel: "Advanced",
+  summary: "ii-V-I cycles in Bb with a secondary dominant (G7b9), a passing diminished chord and a minor ii-V into Cm.",
+  sections: [
+    { name: "A", startTime: 0.0, endTime: 16.0, color: "#4f46e5" },
+    { name: "A'", startTime: 16.0, endTime: 32.0, color: "#6366f1" },
+    { name: "Bridge", startTime: 32.0, endTime: 40.0, color: "#db2777" },
+    { name: "Tag", startTime: 40.0, endTime: 48.0, color: "#475569" },
+  ],
+  keyRegions: [
+    { key: "Bb Major", startTime: 0.0, endTime: 32.0 },
+    { key: "C Minor", startTime: 32.0, endTime: 40.0 },
+    { key: "Bb Major", startTime: 40.0, endTime: 48.0 },
+  ],
+  chords: [
+    { timestamp: "0:00", seconds: 0.0, duration: 2.0, root: "C", quality: "m", extension: "7", bass: "", symbol: "Cm7", confidence: 0.93 },
+    { timestamp: "0:02", seconds: 2.0, duration: 2.0, root: "F", quality: "", extension: "7", bass: "", symbol: "F7", confidence: 0.92 },
+    { timestamp: "0:04", seconds: 4.0, duration: 2.0, root: "Bb", quality: "maj", extension: "7", bass: "", symbol: "Bbmaj7", confidence: 0.95 },
+    { timestamp: "0:06", seconds: 6.0, duration: 2.0, root: "G", quality: "", extension: "7b9", bass: "", symbol: "G7b9", confidence: 0.78 },
+    { timestamp: "0:08", seconds: 8.0, duration: 2.0, root: "C", quality: "m", extension: "7", bass: "", symbol: "Cm7", confidence: 0.92 },
+    { timestamp: "0:10", seconds: 10.0, duration: 2.0, root: "F", quality: "", extension: "13", bass: "", symbol: "F13", confidence: 0.81 },
+    { timestamp: "0:12", seconds: 12.0, duration: 4.0, root: "Bb", quality: "maj", extension: "7", bass: "", symbol: "Bbmaj7", confidence: 0.95 },
+    { timestamp: "0:16", seconds: 16.0, duration: 2.0, root: "Eb", quality: "maj", extension: "7", bass: "", symbol: "Ebmaj7", confidence: 0.9 },
+    { timestamp: "0:18", seconds: 18.0, duration: 2.0, root: "E", quality: "dim", extension: "7", bass: "", symbol: "Edim7", confidence: 0.76 },
+    { timestamp: "0:20", seconds: 20.0, duration: 2.0, root: "Bb", quality: "maj", extension: "7", bass: "F", symbol: "Bbmaj7/F", confidence: 0.84 },
+    { timestamp: "0:22", seconds: 22.0, duration: 2.0, root: "G", quality: "", extension: "7", bass: "", symbol: "G7", confidence: 0.9 },
+    { timestamp: "0:24", seconds: 24.0, duration: 2.0, root: "C", quality: "m", extension: "9", bass: "", symbol: "Cm9", confidence: 0.87 },
+    { timestamp: "0:26", seconds: 26.0, duration: 2.0, root: "F", quality: "sus4", extension: "7", bass: "", symbol: "F7sus4", confidence: 0.8 },
+    { timestamp: "0:28", seconds: 28.0, duration: 4.0, root: "Bb", quality: "", extension: "6", bass: "", symbol: "Bb6", confidence: 0.91 },
+    { timestamp: "0:32", seconds: 32.0, duration: 2.0, root: "D", quality: "m", extension: "7b5", bass: "", symbol: "Dm7b5", confidence: 0.83 },
+    { timestamp: "0:34", seconds: 34.0, duration: 2.0, root: "G", quality: "", extension: "7alt", bass: "", symbol: "G7alt", confidence: 0.74 },
+    { timestamp: "0:36", seconds: 36.0, duration: 4.0, root: "C", quality: "m", extension: "7", bass: "", symbol: "Cm7", confidence: 0.92 },
+    { timestamp: "0:40", seconds: 40.0, duration: 2.0, root: "C", quality: "m", extension: "7", bass: "", symbol: "Cm7", confidence: 0.91 },
+    { timestamp: "0:42", seconds: 42.0, duration: 2.0, root: "F", quality: "", extension: "7", bass: "", symbol: "F7", confidence: 0.92 },
+    { timestamp: "0:44", seconds: 44.0, duration: 4.0, root: "Bb", quality: "maj", extension: "7", bass: "", symbol: "Bbmaj7", confidence: 0.96 },
+  ],
+};
+
+export const ANALYSIS_FIXTURES: SongAnalysis[] = [POP_BALLAD_FIXTURE, JAZZ_STANDARD_FIXTURE];
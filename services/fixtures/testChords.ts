@@ -0,0 +1,39 @@
+import { ChordEvent, SongAnalysis } from "../../types";
+import { formatTimestamp } from "../analysisValidator";
+
+// --- TEST BUILDERS ---
+// Small builders for the service tests; not used by the app.
+
+/** `chord('D', 2, 2, { bass: 'F#' })`: a chord from `seconds` lasting `duration`. */
+export const chord = (root: string, seconds: number, duration: number, fields: Partial<ChordEvent> = {}): ChordEvent => {
+  const { quality = '', extension = '', bass = '' } = fields;
+  return {
+    timestamp: formatTimestamp(seconds),
+    seconds,
+    duration,
+    root,
+    quality,
+    extension,
+    bass,
+    symbol: root === 'N.C.' ? 'N.C.' : `${root}${quality}${extension}${bass ? `/${bass}` : ''}`,
+    confidence: 0.9,
+    ...fields,
+  };
+};
+
+/** Chords back to back, each `duration` seconds long: `chordRun(['G', 'C'], 2)`. */
+export const chordRun = (roots: string[], duration: number, from = 0): ChordEvent[] =>
+  roots.map((root, i) => chord(root, from + i * duration, duration));
+
+export const song = (fields: Partial<SongAnalysis> = {}): SongAnalysis => ({
+  title: 'Test Song',
+  artist: 'Test Artist',
+  key: 'C Major',
+  bpm: 120,
+  timeSignature: '4/4',
+  complexityLevel: 'Intermediate',
+  sections: [],
+  chords: [],
+  summary: '',
+  ...fields,
+});
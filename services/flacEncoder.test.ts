@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { encodeFlac, maxFlacSize } from './flacEncoder';
+
+// --- DECODER ---
+// Just enough FLAC to read back what encodeFlac writes: mono, 16-bit,
+// CONSTANT / VERBATIM / FIXED subframes with Rice-coded residuals.
+
+const createBitReader = (bytes: Uint8Array, start: number) => {
+  let bit = start * 8;
+  const read = (count: number) => {
+    let value = 0;
+    for (let i = 0; i < count; i++, bit++) value = value * 2 + ((bytes[bit >> 3] >> (7 - (bit & 7))) & 1);
+    return value;
+  };
+  return {
+    read,
+    signed: (count: number) => {
+      const value = read(count);
+      return value >= 2 ** (count - 1) ? value - 2 ** count : value;
+    },
+    unary: () => {
+      let zeros = 0;
+      while (read(1) === 0) zeros++;
+      return zeros;
+    },
+    align: () => { bit = Math.ceil(bit / 8) * 8; },
+    get done() { return bit >= bytes.length * 8; },
+  };
+};
+
+const FIXED_COEFFICIENTS = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]];
+
+const decodeFlac = (data: ArrayBuffer) => {
+  const bytes = new Uint8Array(data);
+  expect(String.fromCharCode(...bytes.subarray(0, 4))).toBe('fLaC');
+  const info = createBitReader(bytes, 8);
+  info.read(16 + 16 + 24 + 24); // Block sizes and frame sizes
+  const sampleRate = info.read(20);
+  info.read(3 + 5);
+  const total = info.read(36);
+
+  const samples: number[] = [];
+  const reader = createBitReader(bytes, 42);
+  while (samples.length < total) {
+    expect(reader.read(16)).toBe(0xfff8);
+    const sizeCode = reader.read(4);
+    reader.read(4 + 4 + 3 + 1);
+    const lead = reader.read(8); // Frame number (UTF-8 style)
+    for (let extra = lead >= 0xc0 ? Math.clz32(~(lead << 24)) - 1 : 0; extra > 0; extra--) reader.read(8);
+    const blockSize = sizeCode === 0b1100 ? 4096 : reader.read(16) + 1;
+    reader.read(8); // CRC-8
+
+    const type = reader.read(8) >> 1;
+    const block: number[] = [];
+    if (type === 0) {
+      const value = reader.signed(16);
+      for (let i = 0; i < blockSize; i++) block.push(value);
+    } else if (type === 1) {
+      for (let i = 0; i < blockSize; i++) block.push(reader.signed(16));
+    } else {
+      const order = type & 7;
+      for (let i = 0; i < order; i++) block.push(reader.signed(16));
+      reader.read(2);
+      const partitionOrder = reader.read(4);
+      const partitionSize = blockSize >> partitionOrder;
+      for (let part = 0; part < 1 << partitionOrder; part++) {
+        const k = reader.read(4);
+        const count = part === 0 ? partitionSize - order : partitionSize;
+        for (let i = 0; i < count; i++) {
+          const u = reader.unary() * 2 ** k + reader.read(k);
+          const residual = u % 2 ? -(u + 1) / 2 : u / 2;
+          const n = block.length;
+          block.push(residual + FIXED_COEFFICIENTS[order].reduce((sum, c, j) => sum + c * block[n - 1 - j], 0));
+        }
+      }
+    }
+    reader.align();
+    reader.read(16); // CRC-16
+    samples.push(...block);
+  }
+  expect(reader.done).toBe(true);
+  return { sampleRate, samples };
+};
+
+const toPcm = (samples: Float32Array) =>
+  Array.from(samples, s => {
+    const clamped = Math.max(-1, Math.min(1, s));
+    return Math.round(clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff);
+  });
+
+// --- TESTS ---
+
+describe('encodeFlac', () => {
+  it('round-trips music-like audio losslessly and within the size bound', async () => {
+    // A few partials plus a little noise, with a length that leaves a short last block
+    const samples = new Float32Array(16000 * 3 + 123).map((_, i) =>
+      0.4 * Math.sin(i / 12) + 0.2 * Math.sin(i / 5.3) + 0.05 * Math.sin(i * 1.7) + (((i * 7919) % 101) / 101 - 0.5) * 0.01);
+    const encoded = await encodeFlac(samples, 16000);
+    const decoded = decodeFlac(encoded);
+    expect(decoded.sampleRate).toBe(16000);
+    expect(decoded.samples).toEqual(toPcm(samples));
+    expect(encoded.byteLength).toBeLessThan(maxFlacSize(samples.length));
+    expect(encoded.byteLength).toBeLessThan(samples.length * 2); // Smaller than the PCM it came from
+  });
+
+  it('round-trips silence, clipping and white noise', async () => {
+    const samples = new Float32Array(4096 * 3);
+    samples.fill(1.5, 4096, 4200);
+    for (let i = 8192, seed = 1; i < samples.length; i++) {
+      seed = (seed * 16807) % 2147483647;
+      samples[i] = seed / 2147483647 * 2 - 1;
+    }
+    expect(decodeFlac(await encodeFlac(samples, 16000)).samples).toEqual(toPcm(samples));
+  });
+
+  it('stops when the signal aborts', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(encodeFlac(new Float32Array(16000), 16000, controller.signal)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,263 @@
+// --- FLAC ENCODER ---
+// A small lossless encoder for mono 16-bit audio: fixed blocks, the fixed
+// polynomial predictors (orders 0–4) and partitioned Rice coding. It gets
+// roughly half the size of WAV on music, which is what makes long songs fit
+// the upload limits without a lossy codec.
+
+import { wait } from "./analysisProvider";
+
+const BLOCK_SIZE = 4096;
+const MAX_FIXED_ORDER = 4;
+const MAX_PARTITION_ORDER = 6;
+const MAX_RICE_PARAMETER = 14; // 15 is the escape code
+const BITS_PER_SAMPLE = 16;
+const FRAMES_PER_SLICE = 16; // About 4s of audio at the analysis rate between yields to the page
+
+// --- BIT WRITER ---
+
+const createBitWriter = (initialBytes: number) => {
+  let bytes = new Uint8Array(Math.max(64, initialBytes));
+  let length = 0; // Whole bytes written
+  let acc = 0;    // Pending bits, fewer than 8
+  let accBits = 0;
+
+  const ensure = (extra: number) => {
+    if (length + extra <= bytes.length) return;
+    const grown = new Uint8Array(Math.max(bytes.length * 2, length + extra));
+    grown.set(bytes.subarray(0, length));
+    bytes = grown;
+  };
+
+  /** Writes the low `count` bits of `value` (count <= 24), most significant first. */
+  const write = (value: number, count: number) => {
+    if (count === 0) return;
+    ensure(4);
+    acc = (acc << count) | (value & ((1 << count) - 1));
+    accBits += count;
+    while (accBits >= 8) {
+      accBits -= 8;
+      bytes[length++] = (acc >>> accBits) & 0xff;
+    }
+    acc &= (1 << accBits) - 1;
+  };
+
+  return {
+    write,
+    writeLong: (value: number, count: number) => {
+      // Up to 53 bits, for the sample count in STREAMINFO
+      for (let shift = count; shift > 0; shift -= 24) {
+        const bits = Math.min(24, shift);
+        write(Math.floor(value / 2 ** (shift - bits)) % 2 ** bits, bits);
+      }
+    },
+    unary: (zeros: number) => {
+      for (; zeros >= 24; zeros -= 24) write(0, 24);
+      write(1, zeros + 1);
+    },
+    align: () => { if (accBits > 0) write(0, 8 - accBits); },
+    get byteLength() { return length; },
+    bytes: (from: number, to: number) => bytes.subarray(from, to),
+    finish: () => bytes.slice(0, length),
+  };
+};
+
+type BitWriter = ReturnType<typeof createBitWriter>;
+
+// --- CHECKSUMS ---
+
+const crcTable = (poly: number, bits: number) => {
+  const table = new Uint16Array(256);
+  const top = 1 << (bits - 1);
+  const mask = (1 << bits) - 1;
+  for (let i = 0; i < 256; i++) {
+    let crc = i << (bits - 8);
+    for (let b = 0; b < 8; b++) crc = crc & top ? ((crc << 1) ^ poly) & mask : (crc << 1) & mask;
+    table[i] = crc;
+  }
+  return table;
+};
+
+const CRC8 = crcTable(0x07, 8);
+const CRC16 = crcTable(0x8005, 16);
+
+const crc8 = (data: Uint8Array) => {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) crc = CRC8[crc ^ data[i]];
+  return crc;
+};
+
+const crc16 = (data: Uint8Array) => {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) crc = ((crc << 8) & 0xffff) ^ CRC16[(crc >> 8) ^ data[i]];
+  return crc;
+};
+
+// --- SUBFRAMES ---
+
+/** Residual of the fixed predictor of `order`; the first `order` entries are unused. */
+const fixedResidual = (block: Int32Array, order: number, out: Int32Array) => {
+  for (let i = order; i < block.length; i++) {
+    const s = block[i];
+    switch (order) {
+      case 0: out[i] = s; break;
+      case 1: out[i] = s - block[i - 1]; break;
+      case 2: out[i] = s - 2 * block[i - 1] + block[i - 2]; break;
+      case 3: out[i] = s - 3 * block[i - 1] + 3 * block[i - 2] - block[i - 3]; break;
+      default: out[i] = s - 4 * block[i - 1] + 6 * block[i - 2] - 4 * block[i - 3] + block[i - 4];
+    }
+  }
+};
+
+const zigzag = (value: number) => (value >= 0 ? value * 2 : -value * 2 - 1);
+
+interface RicePlan {
+  bits: number;
+  partitionOrder: number;
+  parameters: number[];
+}
+
+/** Picks the partition order and per-partition Rice parameters that code the residual in the fewest bits. */
+const planRice = (residual: Int32Array, order: number): RicePlan => {
+  const n = residual.length;
+  let best: RicePlan | null = null;
+  for (let p = 0; p <= MAX_PARTITION_ORDER; p++) {
+    const partitionSize = n >> p;
+    if (p > 0 && (n % (1 << p) !== 0 || partitionSize <= order)) break;
+    let bits = 6; // Coding method and partition order
+    const parameters: number[] = [];
+    for (let part = 0; part < 1 << p; part++) {
+      const from = part === 0 ? order : part * partitionSize;
+      const to = (part + 1) * partitionSize;
+      let sum = 0;
+      for (let i = from; i < to; i++) sum += zigzag(residual[i]);
+      const count = to - from;
+      // Start near the optimum from the mean and check the neighbours
+      const guess = count > 0 && sum > count ? Math.min(MAX_RICE_PARAMETER, Math.floor(Math.log2(sum / count))) : 0;
+      let chosen = guess;
+      let chosenBits = Infinity;
+      for (let k = Math.max(0, guess - 1); k <= Math.min(MAX_RICE_PARAMETER, guess + 1); k++) {
+        let cost = count * (k + 1);
+        for (let i = from; i < to; i++) cost += zigzag(residual[i]) >>> k;
+        if (cost < chosenBits) { chosenBits = cost; chosen = k; }
+      }
+      parameters.push(chosen);
+      bits += 4 + chosenBits;
+    }
+    if (!best || bits < best.bits) best = { bits, partitionOrder: p, parameters };
+  }
+  return best!;
+};
+
+const writeSubframe = (writer: BitWriter, block: Int32Array, scratch: Int32Array) => {
+  const n = block.length;
+  if (block.every(s => s === block[0])) {
+    writer.write(0, 8); // CONSTANT
+    writer.write(block[0], BITS_PER_SAMPLE);
+    return;
+  }
+
+  let bestOrder = -1;
+  let bestPlan: RicePlan | null = null;
+  let bestBits = n * BITS_PER_SAMPLE; // VERBATIM
+  const residual = scratch.subarray(0, n);
+  for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, n - 1); order++) {
+    fixedResidual(block, order, residual);
+    const plan = planRice(residual, order);
+    const bits = order * BITS_PER_SAMPLE + plan.bits;
+    if (bits < bestBits) { bestBits = bits; bestOrder = order; bestPlan = plan; }
+  }
+
+  if (!bestPlan) {
+    writer.write(1 << 1, 8); // VERBATIM
+    for (let i = 0; i < n; i++) writer.write(block[i], BITS_PER_SAMPLE);
+    return;
+  }
+
+  writer.write((8 | bestOrder) << 1, 8); // FIXED, no wasted bits
+  for (let i = 0; i < bestOrder; i++) writer.write(block[i], BITS_PER_SAMPLE);
+  fixedResidual(block, bestOrder, residual);
+  writer.write(0, 2); // Rice coding with 4-bit parameters
+  writer.write(bestPlan.partitionOrder, 4);
+  const partitionSize = n >> bestPlan.partitionOrder;
+  bestPlan.parameters.forEach((k, part) => {
+    writer.write(k, 4);
+    const from = part === 0 ? bestOrder : part * partitionSize;
+    for (let i = from; i < (part + 1) * partitionSize; i++) {
+      const u = zigzag(residual[i]);
+      writer.unary(u >>> k);
+      writer.write(u, k);
+    }
+  });
+};
+
+// --- FRAMES ---
+
+/** Frame numbers are written with the UTF-8 length scheme. */
+const writeFrameNumber = (writer: BitWriter, value: number) => {
+  if (value < 0x80) {
+    writer.write(value, 8);
+    return;
+  }
+  let extra = 1;
+  while (value >= 2 ** (5 * extra + 6)) extra++;
+  const lead = (0xff << (7 - extra)) & 0xff;
+  writer.write(lead | (value >>> (6 * extra)), 8);
+  for (let i = extra - 1; i >= 0; i--) writer.write(0x80 | ((value >>> (6 * i)) & 0x3f), 8);
+};
+
+const writeFrame = (writer: BitWriter, block: Int32Array, frameNumber: number, scratch: Int32Array) => {
+  const start = writer.byteLength;
+  writer.write(0xfff8, 16); // Sync code, fixed block size
+  writer.write(block.length === BLOCK_SIZE ? 0b1100 : 0b0111, 4);
+  writer.write(0, 4);       // Sample rate from STREAMINFO
+  writer.write(0, 4);       // Mono
+  writer.write(0b100, 3);   // 16 bits per sample
+  writer.write(0, 1);
+  writeFrameNumber(writer, frameNumber);
+  if (block.length !== BLOCK_SIZE) writer.write(block.length - 1, 16);
+  writer.write(crc8(writer.bytes(start, writer.byteLength)), 8);
+
+  writeSubframe(writer, block, scratch);
+  writer.align();
+  writer.write(crc16(writer.bytes(start, writer.byteLength)), 16);
+};
+
+/**
+ * Encodes mono float samples as a 16-bit FLAC file. Frames are encoded in
+ * slices with a macrotask between them, so the page stays responsive and
+ * `signal` can stop a long song part way.
+ */
+export const encodeFlac = async (samples: Float32Array, sampleRate: number, signal?: AbortSignal): Promise<ArrayBuffer> => {
+  // Start at about the size music compresses to, so the buffer seldom has to grow
+  const writer = createBitWriter(samples.length + 1024);
+  const pcm = new Int32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = Math.round(s < 0 ? s * 0x8000 : s * 0x7fff);
+  }
+
+  // Magic and STREAMINFO; frame sizes and the MD5 are optional and left as zero
+  [0x66, 0x4c, 0x61, 0x43].forEach(byte => writer.write(byte, 8));
+  writer.write(0x80, 8); // Last metadata block, type STREAMINFO
+  writer.write(34, 24);
+  writer.write(BLOCK_SIZE, 16);
+  writer.write(BLOCK_SIZE, 16);
+  writer.write(0, 24);
+  writer.write(0, 24);
+  writer.write(sampleRate, 20);
+  writer.write(0, 3);    // Channels - 1
+  writer.write(BITS_PER_SAMPLE - 1, 5);
+  writer.writeLong(pcm.length, 36);
+  for (let i = 0; i < 16; i++) writer.write(0, 8);
+
+  const scratch = new Int32Array(BLOCK_SIZE);
+  for (let from = 0, frame = 0; from < pcm.length; from += BLOCK_SIZE, frame++) {
+    if (frame % FRAMES_PER_SLICE === 0) await wait(0, signal);
+    writeFrame(writer, pcm.subarray(from, Math.min(pcm.length, from + BLOCK_SIZE)), frame, scratch);
+  }
+  return writer.finish().buffer;
+};
+
+/** Upper bound on the size of `encodeFlac` output: verbatim frames plus headers. */
+export const maxFlacSize = (sampleCount: number): number =>
+  42 + sampleCount * 2 + Math.ceil(sampleCount / BLOCK_SIZE) * 20;
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeChordFunction } from './functionalHarmony';
+import { parseKey } from './musicTheory';
+import { chord } from './fixtures/testChords';
+
+const C_MAJOR = parseKey('C Major')!;
+const A_MINOR = parseKey('A Minor')!;
+
+const describeChord = (root: string, fields: Parameters<typeof chord>[3] = {}, key = C_MAJOR, style: 'roman' | 'nashville' = 'roman') =>
+  analyzeChordFunction(chord(root, 0, 2, fields), key, style);
+
+describe('analyzeChordFunction', () => {
+  it('labels diatonic chords with case and inversion', () => {
+    expect(describeChord('G', { extension: '7' })).toMatchObject({ label: 'V7', function: 'diatonic', inversion: 0 });
+    expect(describeChord('D', { quality: 'm' })).toMatchObject({ label: 'ii', function: 'diatonic' });
+    expect(describeChord('G', { extension: '7', bass: 'B' })).toMatchObject({ label: 'V65', inversion: 1 });
+  });
+
+  it('recognises secondary dominants and borrowed chords', () => {
+    expect(describeChord('D', { extension: '7' })).toMatchObject({ function: 'secondary', detail: 'V7/V' });
+    expect(describeChord('Bb')).toMatchObject({ label: 'bVII', function: 'borrowed' });
+  });
+
+  it('treats the harmonic-minor dominant as diatonic in minor', () => {
+    expect(describeChord('E', { extension: '7' }, A_MINOR)).toMatchObject({ label: 'V7', function: 'diatonic' });
+  });
+
+  it('writes Nashville numbers from the major scale', () => {
+    expect(describeChord('F', {}, A_MINOR, 'nashville')?.label).toBe('b6');
+  });
+
+  it('returns null for N.C.', () => {
+    expect(describeChord('N.C.')).toBeNull();
+  });
+});
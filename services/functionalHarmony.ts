@@ -0,0 +1,216 @@
+import { ChordEvent } from "../types";
+import {
+  KeyInfo, Mode, LETTERS, CHORD_INTERVALS,
+  mod12, noteToPitchClass, signedInterval, canonicalChordType, simplifyChordType, formatKey,
+} from "./musicTheory";
+
+// --- TYPES ---
+
+export type NumeralStyle = 'roman' | 'nashville';
+
+// diatonic: in the key (minor includes the harmonic-minor V and vii°)
+// secondary: dominant or leading-tone chord of another diatonic degree
+// borrowed: from the parallel major/minor
+// chromatic: anything else (Neapolitan, tritone subs, ...)
+export type HarmonicFunction = 'diatonic' | 'secondary' | 'borrowed' | 'chromatic';
+
+export interface FunctionalChord {
+  label: string;            // "V65", "bVII", "ii7" / "5/7", "b7", "2m7"
+  function: HarmonicFunction;
+  inversion: number;        // 0 root position, 1-3 chord tone in the bass, -1 non-chord-tone bass
+  detail?: string;          // "V7/V", "from C Minor"
+}
+
+// --- SCALES ---
+
+const MAJOR_SCALE = [0, 2, 4, 5, 7, 9, 11];
+const MINOR_SCALE = [0, 2, 3, 5, 7, 8, 10];
+const ROMAN = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII'];
+
+const scaleOf = (mode: Mode) => (mode === 'major' ? MAJOR_SCALE : MINOR_SCALE);
+
+/** Pitch classes counted as in-key. Minor adds the leading tone for V and vii°. */
+const keyPitchClasses = (key: KeyInfo): Set<number> => {
+  const pcs = scaleOf(key.mode).map(i => mod12(key.tonic + i));
+  if (key.mode === 'minor') pcs.push(mod12(key.tonic + 11));
+  return new Set(pcs);
+};
+
+interface Degree {
+  degree: number; // 0..6
+  offset: number; // Chromatic alteration against the scale: -1 flat, +1 sharp
+}
+
+/**
+ * Scale degree of a note, read from its letter so spelling is respected
+ * (C# in C is #I, Db is bII). Falls back to the nearest degree, preferring
+ * flats, when the spelling is more than a semitone off.
+ */
+const degreeOf = (note: string, key: KeyInfo, scale: number[]): Degree | null => {
+  const pc = noteToPitchClass(note);
+  if (pc === null) return null;
+  const letterDegree = (LETTERS.indexOf(note[0].toUpperCase()) - LETTERS.indexOf(key.tonicName[0]) + 7) % 7;
+  const offset = signedInterval(mod12(key.tonic + scale[letterDegree]), pc);
+  if (Math.abs(offset) <= 1) return { degree: letterDegree, offset };
+
+  let best: Degree = { degree: 0, offset: 12 };
+  scale.forEach((step, degree) => {
+    const o = signedInterval(mod12(key.tonic + step), pc);
+    if (Math.abs(o) < Math.abs(best.offset) || (Math.abs(o) === Math.abs(best.offset) && o < best.offset)) best = { degree, offset: o };
+  });
+  return best;
+};
+
+const accidental = (offset: number) => (offset < 0 ? 'b'.repeat(-offset) : '#'.repeat(offset));
+
+// --- CHORD SHAPE ---
+
+type Triad = 'major' | 'minor' | 'dim' | 'aug' | 'sus';
+
+interface ChordShape {
+  type: string;        // Canonical type at seventh-chord detail
+  intervals: number[]; // Semitones above the root
+  triad: Triad;
+  seventh: number | null; // 9 (dim7), 10 or 11
+}
+
+const shapeOf = (chord: ChordEvent): ChordShape => {
+  // Functional labels stop at sevenths, like a lead sheet in numbers
+  const type = simplifyChordType(canonicalChordType(chord), 'Intermediate');
+  const intervals = CHORD_INTERVALS[type] || CHORD_INTERVALS[''];
+  const has = (i: number) => intervals.includes(i);
+  const triad: Triad = type.includes('sus') ? 'sus'
+    : has(3) && has(6) ? 'dim'
+    : has(4) && has(8) ? 'aug'
+    : has(3) ? 'minor'
+    : 'major';
+  const seventh = type === 'dim7' ? 9 : has(10) ? 10 : has(11) ? 11 : null;
+  return { type, intervals, triad, seventh };
+};
+
+/** 0 root position, 1 third, 2 fifth, 3 seventh in the bass, -1 for any other bass note. */
+const inversionOf = (chord: ChordEvent, shape: ChordShape): number => {
+  const root = noteToPitchClass(chord.root);
+  const bass = chord.bass ? noteToPitchClass(chord.bass) : null;
+  if (root === null || bass === null || bass === root) return 0;
+  const interval = mod12(bass - root);
+  if (interval === 3 || interval === 4 || (shape.triad === 'sus' && (interval === 2 || interval === 5))) return 1;
+  if (interval === 6 || interval === 7 || interval === 8) return 2;
+  if (shape.seventh !== null && interval === shape.seventh) return 3;
+  return -1;
+};
+
+// --- LABELS ---
+
+const isDominantShape = (shape: ChordShape) =>
+  (shape.triad === 'major' && (shape.seventh === null || shape.seventh === 10)) || shape.type === '7sus4';
+const isLeadingToneShape = (shape: ChordShape) => shape.triad === 'dim';
+
+const ROMAN_QUALITY: Record<Triad, string> = { major: '', minor: '', dim: '°', aug: '+', sus: '' };
+const TRIAD_FIGURES = ['', '6', '64'];
+const SEVENTH_FIGURES = ['7', '65', '43', '42'];
+
+/** Roman numeral with figured-bass inversions ("V65"); `secondaryOf` writes the chord as V/x or vii°/x instead. */
+const romanLabel = (degree: Degree, shape: ChordShape, inversion: number, bassDegree: Degree | null, secondaryOf?: string): string => {
+  const upper = shape.triad === 'major' || shape.triad === 'aug' || shape.triad === 'sus';
+  const numeral = secondaryOf
+    ? (isLeadingToneShape(shape) ? 'vii' : 'V')
+    : accidental(degree.offset) + (upper ? ROMAN[degree.degree] : ROMAN[degree.degree].toLowerCase());
+
+  let quality = ROMAN_QUALITY[shape.triad];
+  if (shape.type === 'm7b5') quality = 'ø';
+  else if (shape.seventh === 11) quality += 'maj';
+
+  const figureIndex = inversion < 0 ? 0 : inversion;
+  const figures = shape.seventh !== null ? SEVENTH_FIGURES[figureIndex] : TRIAD_FIGURES[Math.min(2, figureIndex)];
+  const sixth = shape.type === '6' || shape.type === 'm6' ? 'add6' : '';
+  const sus = shape.type.includes('sus') ? shape.type.replace('7', '') : '';
+  const slash = inversion < 0 && bassDegree ? `/${accidental(bassDegree.offset)}${bassDegree.degree + 1}` : '';
+  return `${numeral}${quality}${figures}${sixth}${sus}${secondaryOf ? `/${secondaryOf}` : ''}${slash}`;
+};
+
+// Superscript figures keep "5⁷/7" readable next to slash-bass numbers
+const NASHVILLE_SUFFIX: Record<string, string> = {
+  '': '', 'm': 'm', 'dim': '°', 'aug': '+', 'sus2': 'sus2', 'sus4': 'sus', '6': '⁶', 'm6': 'm⁶',
+  '7': '⁷', 'm7': 'm⁷', 'maj7': 'maj⁷', 'm7b5': 'ø⁷', 'dim7': '°⁷', '7sus4': '⁷sus',
+};
+
+const nashvilleLabel = (degree: Degree, shape: ChordShape, inversion: number, bassDegree: Degree | null): string => {
+  const number = `${accidental(degree.offset)}${degree.degree + 1}`;
+  const suffix = NASHVILLE_SUFFIX[shape.type] ?? '';
+  const slash = inversion !== 0 && bassDegree ? `/${accidental(bassDegree.offset)}${bassDegree.degree + 1}` : '';
+  return `${number}${suffix}${slash}`;
+};
+
+// --- FUNCTION ---
+
+/** Diatonic triad quality on each degree, used to name secondary-dominant targets. */
+const diatonicNumeral = (degree: number, key: KeyInfo): string => {
+  const scale = scaleOf(key.mode);
+  const third = mod12(scale[(degree + 2) % 7] - scale[degree]);
+  const fifth = mod12(scale[(degree + 4) % 7] - scale[degree]);
+  if (third === 4) return ROMAN[degree];
+  return ROMAN[degree].toLowerCase() + (fifth === 6 ? '°' : '');
+};
+
+/**
+ * Secondary dominant (V/x) or leading-tone chord (vii°/x) of a diatonic,
+ * non-diminished degree other than the tonic. Returns the "/x" target.
+ */
+const secondaryTarget = (root: number, shape: ChordShape, key: KeyInfo): string | null => {
+  const scale = scaleOf(key.mode);
+  const resolvesTo = isDominantShape(shape) ? mod12(root + 5) : isLeadingToneShape(shape) ? mod12(root + 1) : null;
+  if (resolvesTo === null) return null;
+  const targetDegree = scale.findIndex(step => mod12(key.tonic + step) === resolvesTo);
+  if (targetDegree <= 0) return null;
+  const target = diatonicNumeral(targetDegree, key);
+  return target.endsWith('°') ? null : target;
+};
+
+/**
+ * Describes a chord relative to a key: scale-degree label, inversion and
+ * harmonic function. Returns null for N.C. or when the root can't be read.
+ */
+export const analyzeChordFunction = (chord: ChordEvent, key: KeyInfo, style: NumeralStyle = 'roman'): FunctionalChord | null => {
+  const root = noteToPitchClass(chord.root);
+  if (root === null) return null;
+
+  const shape = shapeOf(chord);
+  const inversion = inversionOf(chord, shape);
+  // Nashville numbers always count from the major scale of the tonic (b3, b6, b7 in minor)
+  const scale = style === 'nashville' ? MAJOR_SCALE : scaleOf(key.mode);
+  const degree = degreeOf(chord.root, key, scale);
+  if (!degree) return null;
+  // The raised leading tone is written without an accidental in minor (vii°, V/... not #vii°)
+  if (style === 'roman' && key.mode === 'minor' && degree.degree === 6 && degree.offset === 1) degree.offset = 0;
+  const bassDegree = chord.bass ? degreeOf(chord.bass, key, scale) : null;
+
+  const pcs = shape.intervals.map(i => mod12(root + i));
+  const inKey = keyPitchClasses(key);
+  const parallel: KeyInfo = { ...key, mode: key.mode === 'major' ? 'minor' : 'major' };
+  const inParallel = keyPitchClasses(parallel);
+
+  let fn: HarmonicFunction = 'chromatic';
+  let secondaryOf: string | null = null;
+  if (pcs.every(pc => inKey.has(pc))) {
+    fn = 'diatonic';
+  } else {
+    // Plain triads from the parallel key read as mixture (Picardy I, IV in minor) before tonicizations
+    const borrowed = pcs.every(pc => inParallel.has(pc));
+    secondaryOf = borrowed && shape.seventh === null ? null : secondaryTarget(root, shape, key);
+    fn = secondaryOf ? 'secondary' : borrowed ? 'borrowed' : 'chromatic';
+  }
+
+  const label = style === 'roman'
+    ? romanLabel(degree, shape, inversion, bassDegree, secondaryOf || undefined)
+    : nashvilleLabel(degree, shape, inversion, bassDegree);
+
+  if (fn === 'secondary') {
+    const head = isLeadingToneShape(shape)
+      ? `vii${shape.type === 'm7b5' ? 'ø7' : shape.seventh ? '°7' : '°'}`
+      : `V${shape.seventh ? '7' : ''}`;
+    return { label, function: fn, inversion, detail: `${head}/${secondaryOf}` };
+  }
+  if (fn === 'borrowed') return { label, function: fn, inversion, detail: `from ${formatKey(key.tonic, parallel.mode)}` };
+  return { label, function: fn, inversion };
+};
@@ -1,16 +1,20 @@
 
 import { GoogleGenAI } from "@google/genai";
 import { SongAnalysis } from "../types";
-
-// Initialize the API client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { validateSongAnalysis, AnalysisValidationError, formatTimestamp } from "./analysisValidator";
+import { AnalysisProvider, AudioAnalysisRequest, ProviderCallOptions, isAbortError, wait } from "./analysisProvider";
 
 // --- CONFIGURATION ---
-const MODEL_ID = "gemini-2.0-flash-exp"; 
+export const DEFAULT_MODEL_ID = "gemini-2.0-flash-exp"; 
+
+export interface GeminiProviderConfig {
+  apiKey: string;
+  model?: string;
+}
 
 // --- UTILS ---
 
-const extractJSON = (text: string): any => {
+const extractJSON = (text: string): unknown => {
   if (!text) return null;
   
   // 1. Basic Cleanup (Remove Markdown)
@@ -46,46 +50,69 @@ const extractJSON = (text: string): any => {
   } catch (e) {
     console.error("JSON Repair Failed:", e);
     console.log("Failed Text:", text);
-    throw new Error("Analysis produced invalid data format.");
+    throw new Error(`Analysis produced invalid data format (${e instanceof Error ? e.message : 'unparseable JSON'}).`);
   }
 };
 
+// Parses the model output and runs it through the schema validator.
+const parseAnalysis = (text: string): SongAnalysis => {
+  const data = extractJSON(text);
+  if (data === null) throw new Error("Model returned no JSON content.");
+
+  const { analysis, repairs } = validateSongAnalysis(data);
+  if (repairs.length > 0) {
+    console.warn(`Repaired ${repairs.length} field(s) in analysis response:`, repairs);
+  }
+  return analysis;
+};
+
 // --- RETRY LOGIC ---
 const MAX_RETRIES = 3;
 const BASE_DELAY = 2000;
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-async function generateWithRetry(contents: any, config: any, retries = 0): Promise<any> {
-  try {
-    const result = await ai.models.generateContent({ model: MODEL_ID, contents, config });
-    if (!result.text) {
-      throw new Error("Model returned empty response");
+const ATTEMPTS = MAX_RETRIES + 1;
+
+// `task` describes the request in progress messages, e.g. "Uploading 3.2MB of audio".
+// The signal cancels both the request in flight and the backoff between attempts.
+async function generateWithRetry(ai: GoogleGenAI, model: string, contents: any, config: any, task: string, { signal, onProgress }: ProviderCallOptions = {}): Promise<any> {
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+    onProgress?.({ stage: 'uploading', message: `${task} (attempt ${attempt} of ${ATTEMPTS})...`, attempt, attemptCount: ATTEMPTS });
+    try {
+      const result = await ai.models.generateContent({ model, contents, config: { ...config, abortSignal: signal } });
+      if (!result.text) {
+        throw new Error("Model returned empty response");
+      }
+      return result;
+    } catch (error: any) {
+      // The SDK reports aborts in its own words; surface the signal's reason instead
+      if (signal?.aborted) throw signal.reason;
+      console.error(`Attempt ${attempt} failed:`, error);
+      if (attempt === ATTEMPTS) throw error;
+      const backoff = BASE_DELAY * Math.pow(2, attempt - 1);
+      onProgress?.({ stage: 'uploading', message: `Attempt ${attempt} of ${ATTEMPTS} failed, retrying in ${backoff / 1000}s...`, attempt, attemptCount: ATTEMPTS });
+      await wait(backoff, signal);
     }
-    return result;
-  } catch (error: any) {
-    console.error(`Attempt ${retries + 1} failed:`, error);
-    if (retries < MAX_RETRIES) {
-      await delay(BASE_DELAY * Math.pow(2, retries));
-      return generateWithRetry(contents, config, retries + 1);
-    }
-    throw error;
   }
 }
 
 // --- MAIN ANALYSIS ---
 
-export const analyzeAudioContent = async (base64Data: string, mimeType: string, duration: number): Promise<SongAnalysis> => {
-  const formattedDuration = `${Math.floor(duration / 60)}:${Math.floor(duration % 60).toString().padStart(2, '0')}`;
+const analyzeAudioContent = async (ai: GoogleGenAI, model: string, { base64Data, mimeType, duration, segment }: AudioAnalysisRequest, options: ProviderCallOptions = {}): Promise<SongAnalysis> => {
+  const formattedDuration = formatTimestamp(duration);
+  const segmentNote = segment
+    ? `\n    CONTEXT: This audio is an excerpt from ${formatTimestamp(segment.startTime)} to ${formatTimestamp(segment.endTime)} of a ${formatTimestamp(segment.totalDuration)} recording. All times must be relative to the start of this excerpt (0.0s). A chord or section cut off at either edge should still be reported.\n`
+    : '';
   
   // Precise prompt asking for JSON only
   const prompt = `
     Role: Senior Music Theorist.
     Task: Analyze audio (${formattedDuration}) and return strictly formatted JSON.
-    
+    ${segmentNote}    
     INSTRUCTIONS:
     1. **BPM & Grid**: Determine precise BPM. Ensure chord timestamps align perfectly with the grid.
     2. **Completeness**: The chords array MUST cover the audio from 0.0s to exactly ${duration}s. Use "N.C." for silence.
     3. **Accuracy**: Detect key changes (modulations) and complex extensions.
+    4. **Key Regions**: List every key in effect as "keyRegions", covering 0.0s to the end without gaps. A song without modulations has one region. Start each region on the chord where the new key takes over; "key" is the main key.
     
     OUTPUT FORMAT:
     - Return **ONLY** the JSON object. Do not include "Thinking" steps or markdown text outside the JSON.
@@ -103,6 +130,9 @@ export const analyzeAudioContent = async (base64Data: string, mimeType: string,
       "sections": [
         { "name": "Intro", "startTime": 0.0, "endTime": 10.0, "color": "#475569" }
       ],
+      "keyRegions": [
+        { "key": "C Minor", "startTime": 0.0, "endTime": 10.0 }
+      ],
       "chords": [
         {
           "timestamp": "0:00",
@@ -127,22 +157,23 @@ export const analyzeAudioContent = async (base64Data: string, mimeType: string,
       ] 
     };
 
-    const response = await generateWithRetry(contents, {
+    const megabytes = (base64Data.length * 0.75 / 1024 / 1024).toFixed(1);
+    const response = await generateWithRetry(ai, model, contents, {
       responseMimeType: "application/json", 
       temperature: 0.1, // Low temperature for consistent JSON structure
       maxOutputTokens: 8192,
-    });
+    }, `Uploading ${megabytes}MB of audio`, options);
 
-    const data = extractJSON(response.text);
-    if (!data) throw new Error("Parsed data was null");
-    return data;
+    options.onProgress?.({ stage: 'parsing', message: 'Parsing and validating the analysis...' });
+    return parseAnalysis(response.text);
 
   } catch (error: any) {
+    if (error instanceof AnalysisValidationError || isAbortError(error)) throw error;
     throw new Error(error.message || "Analysis failed.");
   }
 };
 
-export const analyzeSongFromUrl = async (url: string): Promise<SongAnalysis> => {
+const analyzeSongFromUrl = async (ai: GoogleGenAI, model: string, url: string, options: ProviderCallOptions = {}): Promise<SongAnalysis> => {
   const prompt = `
     Role: Music Theorist. Analyze URL: "${url}".
     Return ONLY valid JSON.
@@ -150,6 +181,7 @@ export const analyzeSongFromUrl = async (url: string): Promise<SongAnalysis> =>
     {
       "title": "string", "artist": "string", "key": "string", "bpm": number, "timeSignature": "string",
       "sections": [{ "name": "string", "startTime": number, "endTime": number }],
+      "keyRegions": [{ "key": "string", "startTime": number, "endTime": number }],
       "chords": [{ "timestamp": "string", "seconds": number, "duration": number, "root": "string", "quality": "string", "extension": "string", "bass": "string", "symbol": "string", "confidence": number }],
       "summary": "string", "complexityLevel": "string"
     }
@@ -157,13 +189,29 @@ export const analyzeSongFromUrl = async (url: string): Promise<SongAnalysis> =>
 
   try {
     const contents = { parts: [{ text: prompt }] };
-    const response = await generateWithRetry(contents, {
+    const response = await generateWithRetry(ai, model, contents, {
         responseMimeType: "application/json",
         tools: [{ googleSearch: {} }],
         maxOutputTokens: 8192,
-    });
-    return extractJSON(response.text);
+    }, 'Asking the model about the link', options);
+    options.onProgress?.({ stage: 'parsing', message: 'Parsing and validating the analysis...' });
+    return parseAnalysis(response.text);
   } catch (error: any) {
+    if (error instanceof AnalysisValidationError || isAbortError(error)) throw error;
     throw new Error("Link analysis failed: " + error.message);
   }
 };
+
+// --- PROVIDER ---
+
+export const createGeminiProvider = ({ apiKey, model = DEFAULT_MODEL_ID }: GeminiProviderConfig): AnalysisProvider => {
+  // The client is created per provider instance, not at import time
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    id: 'gemini',
+    label: `Gemini (${model})`,
+    analyzeAudio: (request, options) => analyzeAudioContent(ai, model, request, options),
+    analyzeUrl: (url, options) => analyzeSongFromUrl(ai, model, url, options),
+  };
+};
@@ -0,0 +1,194 @@
+import { ChordEvent, AnalysisLevel } from "../types";
+import { canonicalChordType, simplifyChordType, noteToPitchClass, mod12, transposeChords } from "./musicTheory";
+
+// --- TYPES ---
+
+export interface GuitarVoicing {
+  frets: (number | null)[]; // Low E -> high e. null = muted, 0 = open
+  label: string;            // "Open", "E-shape barre", ...
+  difficulty: number;       // Lower is easier
+}
+
+export interface CapoSuggestion {
+  capo: number;      // Fret
+  ease: number;      // 0..1 share of playing time on open shapes
+  score: number;     // Weighted difficulty (lower is better)
+}
+
+// --- CONSTANTS ---
+
+const STANDARD_TUNING = [40, 45, 50, 55, 59, 64]; // MIDI E2 A2 D3 G3 B3 E4
+const MAX_SPAN = 4;                               // Frets a hand can cover without a stretch
+type Shape = (number | null)[];
+const x = null;
+
+// Open-position shapes, written by chord name for readability
+const OPEN_SHAPES: Record<string, Shape> = {
+  'C': [x, 3, 2, 0, 1, 0], 'A': [x, 0, 2, 2, 2, 0], 'G': [3, 2, 0, 0, 0, 3], 'E': [0, 2, 2, 1, 0, 0], 'D': [x, x, 0, 2, 3, 2],
+  'Am': [x, 0, 2, 2, 1, 0], 'Em': [0, 2, 2, 0, 0, 0], 'Dm': [x, x, 0, 2, 3, 1],
+  'C7': [x, 3, 2, 3, 1, 0], 'A7': [x, 0, 2, 0, 2, 0], 'G7': [3, 2, 0, 0, 0, 1], 'E7': [0, 2, 0, 1, 0, 0], 'D7': [x, x, 0, 2, 1, 2], 'B7': [x, 2, 1, 2, 0, 2],
+  'Am7': [x, 0, 2, 0, 1, 0], 'Em7': [0, 2, 0, 0, 0, 0], 'Dm7': [x, x, 0, 2, 1, 1],
+  'Cmaj7': [x, 3, 2, 0, 0, 0], 'Amaj7': [x, 0, 2, 1, 2, 0], 'Gmaj7': [3, x, 0, 0, 0, 2], 'Emaj7': [0, 2, 1, 1, 0, 0], 'Dmaj7': [x, x, 0, 2, 2, 2], 'Fmaj7': [x, x, 3, 2, 1, 0],
+  'Asus4': [x, 0, 2, 2, 3, 0], 'Dsus4': [x, x, 0, 2, 3, 3], 'Esus4': [0, 2, 2, 2, 0, 0],
+  'Asus2': [x, 0, 2, 2, 0, 0], 'Dsus2': [x, x, 0, 2, 3, 0],
+  'A7sus4': [x, 0, 2, 0, 3, 0], 'E7sus4': [0, 2, 0, 2, 0, 0],
+  'Cadd9': [x, 3, 2, 0, 3, 0], 'Gadd9': [3, x, 0, 2, 0, 3],
+  'C6': [x, 3, 2, 2, 1, 0], 'A6': [x, 0, 2, 2, 2, 2], 'D6': [x, x, 0, 2, 0, 2], 'Am6': [x, 0, 2, 2, 1, 2], 'Em6': [0, 2, 2, 0, 2, 0],
+  'E9': [0, 2, 0, 1, 0, 2], 'Am9': [x, 0, 5, 5, 0, 0],
+  'Bm7b5': [x, 2, 3, 2, 3, x], 'Ddim7': [x, x, 0, 1, 0, 1], 'Eaug': [0, 3, 2, 1, 1, 0],
+  // Slash chords
+  'G/B': [x, 2, 0, 0, 0, 3], 'C/G': [3, 3, 2, 0, 1, 0], 'C/E': [0, 3, 2, 0, 1, 0], 'D/F#': [2, x, 0, 2, 3, 2],
+  'D/A': [x, 0, 0, 2, 3, 2], 'G/D': [x, x, 0, 0, 0, 3], 'Am/G': [3, 0, 2, 2, 1, 0], 'Am/E': [0, 0, 2, 2, 1, 0],
+  'Em/D': [x, x, 0, 0, 0, 0], 'F/C': [x, 3, 3, 2, 1, 1], 'A/E': [0, 0, 2, 2, 2, 0], 'C/B': [x, 2, 2, 0, 1, 0],
+};
+
+// Movable shapes: fret offsets from the root fret on the root string
+const MOVABLE_SHAPES: { label: string; rootString: number; difficulty: number; shapes: Record<string, Shape> }[] = [
+  {
+    label: 'E-shape barre', rootString: 0, difficulty: 3,
+    shapes: {
+      '': [0, 2, 2, 1, 0, 0], 'm': [0, 2, 2, 0, 0, 0], '7': [0, 2, 0, 1, 0, 0], 'm7': [0, 2, 0, 0, 0, 0],
+      'maj7': [0, x, 1, 1, 0, x], 'sus4': [0, 2, 2, 2, 0, 0], '7sus4': [0, 2, 0, 2, 0, 0], '6': [0, 2, 2, 1, 2, 0], 'm6': [0, 2, 2, 0, 2, 0],
+      'dim': [0, 1, 2, 0, x, x], 'dim7': [0, x, -1, 0, -1, x], 'm7b5': [0, x, 0, 0, -1, x], 'aug': [0, 3, 2, 1, 1, 0],
+      '9': [0, 2, 0, 1, 0, 2], '7b9': [0, x, 0, 1, 0, 1],
+    },
+  },
+  {
+    label: 'A-shape barre', rootString: 1, difficulty: 3,
+    shapes: {
+      '': [x, 0, 2, 2, 2, 0], 'm': [x, 0, 2, 2, 1, 0], '7': [x, 0, 2, 0, 2, 0], 'm7': [x, 0, 2, 0, 1, 0],
+      'maj7': [x, 0, 2, 1, 2, 0], 'sus4': [x, 0, 2, 2, 3, 0], 'sus2': [x, 0, 2, 2, 0, 0], '7sus4': [x, 0, 2, 0, 3, 0],
+      '6': [x, 0, 2, 2, 2, 2], 'm6': [x, 0, 2, 2, 1, 2], 'dim': [x, 0, 1, 2, 1, x], 'dim7': [x, 0, 1, 2, 1, 2], 'm7b5': [x, 0, 1, 0, 1, x],
+      'aug': [x, 0, 3, 2, 2, 1], 'add9': [x, 0, 2, 4, 2, 0], '9': [x, 0, -1, 0, 0, 0], 'm9': [x, 0, -2, 0, 0, x],
+      'maj9': [x, 0, -1, 1, 0, x], '7b9': [x, 0, -1, 0, -1, x], '13': [x, 0, -1, 0, 2, x],
+    },
+  },
+  {
+    label: 'D-shape', rootString: 2, difficulty: 3.5,
+    shapes: {
+      '': [x, x, 0, 2, 3, 2], 'm': [x, x, 0, 2, 3, 1], '7': [x, x, 0, 2, 1, 2], 'm7': [x, x, 0, 2, 1, 1],
+      'maj7': [x, x, 0, 2, 2, 2], 'sus4': [x, x, 0, 2, 3, 3], 'sus2': [x, x, 0, 2, 3, 0], '6': [x, x, 0, 2, 0, 2],
+    },
+  },
+];
+
+// Open shapes indexed by "pc:type" and "pc:type/bassPc"
+const OPEN_INDEX: Record<string, Shape> = {};
+Object.entries(OPEN_SHAPES).forEach(([name, frets]) => {
+  const [, root, suffix, bass] = name.match(/^([A-G][#b]?)([^/]*)(?:\/([A-G][#b]?))?$/)!;
+  const [, quality = '', extension] = suffix.startsWith('maj') ? [suffix, '', suffix] : suffix.match(/^(m(?!aj)|dim|aug|sus\d?)?(.*)$/)!;
+  const type = canonicalChordType({ quality, extension });
+  OPEN_INDEX[`${noteToPitchClass(root)}:${type}${bass ? `/${noteToPitchClass(bass)}` : ''}`] = frets;
+});
+
+// --- UTILS ---
+
+const frettedNotes = (frets: Shape) => frets.filter((f): f is number => f !== null && f > 0);
+
+const isPlayable = (frets: Shape) => {
+  const fretted = frettedNotes(frets);
+  return fretted.length === 0 || Math.max(...fretted) - Math.min(...fretted) < MAX_SPAN;
+};
+
+const lowestString = (frets: Shape) => frets.findIndex(f => f !== null);
+
+/** Puts `bassPc` on the lowest possible string, muting strings below it. Null if out of reach. */
+const withBass = (frets: Shape, bassPc: number): Shape | null => {
+  const lowest = lowestString(frets);
+  for (let string = 0; string <= lowest; string++) {
+    for (let fret = 0; fret <= 15; fret++) {
+      if (mod12(STANDARD_TUNING[string] + fret) !== bassPc) continue;
+      const result: Shape = frets.map((f, i) => (i < string ? null : i === string ? fret : f));
+      if (isPlayable(result)) return result;
+    }
+  }
+  return null;
+};
+
+const shapeKey = (frets: Shape) => frets.map(f => (f === null ? 'x' : f)).join('-');
+
+// --- VOICINGS ---
+
+/**
+ * Guitar voicings for a chord, easiest first. The chord is reduced to the
+ * vocabulary of the complexity level; slash basses are voiced from
+ * Intermediate up.
+ */
+export const getGuitarVoicings = (chord: ChordEvent, level: AnalysisLevel): GuitarVoicing[] => {
+  const rootPc = noteToPitchClass(chord.root);
+  if (rootPc === null) return [];
+  const type = simplifyChordType(canonicalChordType(chord), level);
+  const bassPc = level !== 'Basic' && chord.bass ? noteToPitchClass(chord.bass) : null;
+
+  const voicings: GuitarVoicing[] = [];
+  const seen = new Set<string>();
+  const add = (frets: Shape, label: string, difficulty: number) => {
+    if (!isPlayable(frets) || seen.has(shapeKey(frets))) return;
+    seen.add(shapeKey(frets));
+    voicings.push({ frets, label, difficulty });
+  };
+
+  // 1. Open slash shape, then plain open shape
+  if (bassPc !== null && OPEN_INDEX[`${rootPc}:${type}/${bassPc}`]) {
+    add(OPEN_INDEX[`${rootPc}:${type}/${bassPc}`], 'Open', 1);
+  }
+  const open = OPEN_INDEX[`${rootPc}:${type}`];
+
+  // 2. Movable shapes, placed on the neck
+  const candidates: { frets: Shape; label: string; difficulty: number }[] = [];
+  if (open) candidates.push({ frets: open, label: 'Open', difficulty: 1 });
+  for (const movable of MOVABLE_SHAPES) {
+    const template = movable.shapes[type];
+    if (!template) continue;
+    let rootFret = mod12(rootPc - STANDARD_TUNING[movable.rootString]);
+    const minOffset = Math.min(...template.filter((o): o is number => o !== null));
+    if (rootFret + minOffset < 0 || (rootFret === 0 && minOffset < 0)) rootFret += 12;
+    const frets = template.map(o => (o === null ? null : rootFret + o));
+    const isOpenPosition = rootFret === 0;
+    candidates.push({
+      frets,
+      label: isOpenPosition ? 'Open' : `${movable.label} (fret ${rootFret})`,
+      difficulty: isOpenPosition ? 1.5 : movable.difficulty + (rootFret > 9 ? 0.5 : 0),
+    });
+  }
+
+  candidates.sort((a, b) => a.difficulty - b.difficulty);
+  for (const candidate of candidates) {
+    if (bassPc !== null && bassPc !== rootPc) {
+      const slash = withBass(candidate.frets, bassPc);
+      if (slash) add(slash, `${candidate.label} / bass`, candidate.difficulty + 0.5);
+    } else {
+      add(candidate.frets, candidate.label, candidate.difficulty);
+    }
+  }
+  // Fall back to root-position voicings when no slash voicing fits
+  if (voicings.length === 0) candidates.forEach(c => add(c.frets, c.label, c.difficulty));
+
+  return voicings.sort((a, b) => a.difficulty - b.difficulty);
+};
+
+// --- CAPO ---
+
+/**
+ * Ranks capo positions by how much of the song (by duration) can be played
+ * with open shapes once the chords are transposed down by the capo.
+ */
+export const suggestCapo = (chords: ChordEvent[], key: string, level: AnalysisLevel, maxCapo = 7): CapoSuggestion[] => {
+  const playable = chords.filter(c => noteToPitchClass(c.root) !== null);
+  const total = playable.reduce((sum, c) => sum + c.duration, 0) || 1;
+
+  const suggestions: CapoSuggestion[] = [];
+  for (let capo = 0; capo <= maxCapo; capo++) {
+    let score = 0;
+    let openTime = 0;
+    for (const shape of transposeChords(playable, -capo, key)) {
+      const best = getGuitarVoicings(shape, level)[0];
+      const difficulty = best ? best.difficulty : 5;
+      score += difficulty * shape.duration;
+      if (best && best.difficulty <= 1.5) openTime += shape.duration;
+    }
+    // Small nudge towards lower capo positions (better tone, less retuning of ears)
+    suggestions.push({ capo, ease: openTime / total, score: score / total + capo * 0.05 });
+  }
+  return suggestions.sort((a, b) => a.score - b.score);
+};
@@ -0,0 +1,77 @@
+import { UserTier } from "../types";
+import { ANALYSIS_SAMPLE_RATE, decodeAudio, renderMono } from "./audioUtils";
+import { encodeFlac, maxFlacSize } from "./flacEncoder";
+
+// --- INGEST ---
+// Whatever the user picks is decoded by the browser, downmixed, resampled to
+// the analysis rate and re-encoded as FLAC. That payload is what gets sent and
+// what the tier limits apply to; the original file is kept for playback.
+
+const PAYLOAD_LIMITS: Record<UserTier, number> = {
+  Basic: 9.5 * 1024 * 1024,
+  Pro: 15 * 1024 * 1024,
+  Premier: 19.5 * 1024 * 1024,
+};
+
+export const payloadLimit = (tier: UserTier): number => PAYLOAD_LIMITS[tier] ?? PAYLOAD_LIMITS.Basic;
+
+/** Worst case payload size for `seconds` of audio; music usually compresses to about half. */
+export const maxPayloadSize = (seconds: number): number => maxFlacSize(Math.ceil(seconds * ANALYSIS_SAMPLE_RATE));
+
+export interface IngestedAudio {
+  payload: ArrayBuffer;
+  mimeType: string;
+  duration: number;           // Seconds; 0 when the browser could not decode the file
+  sourceMimeType: string | null; // Container the original was detected as
+}
+
+// --- FORMAT DETECTION ---
+
+const ascii = (bytes: Uint8Array, offset: number, text: string) =>
+  bytes.length >= offset + text.length && [...text].every((c, i) => bytes[offset + i] === c.charCodeAt(0));
+
+/** Identifies the container from its leading bytes, so misnamed files are labeled correctly. */
+export const detectAudioFormat = (data: ArrayBuffer): string | null => {
+  const bytes = new Uint8Array(data, 0, Math.min(16, data.byteLength));
+  if (ascii(bytes, 0, 'RIFF') && ascii(bytes, 8, 'WAVE')) return 'audio/wav';
+  if (ascii(bytes, 0, 'fLaC')) return 'audio/flac';
+  if (ascii(bytes, 0, 'OggS')) return 'audio/ogg';
+  if (ascii(bytes, 0, 'FORM') && (ascii(bytes, 8, 'AIFF') || ascii(bytes, 8, 'AIFC'))) return 'audio/aiff';
+  if (ascii(bytes, 4, 'ftyp')) return 'audio/mp4';
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return 'audio/webm';
+  if (ascii(bytes, 0, 'ID3')) return 'audio/mp3';
+  if (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0) {
+    // MPEG frame sync; layer bits of 00 mean an ADTS AAC stream
+    return (bytes[1] & 0x06) === 0 ? 'audio/aac' : 'audio/mp3';
+  }
+  return null;
+};
+
+// --- PIPELINE ---
+
+/** `signal` stops the conversion between steps and while the FLAC encode is under way. */
+export const prepareAudio = async (file: File, signal?: AbortSignal): Promise<IngestedAudio> => {
+  const data = await file.arrayBuffer();
+  signal?.throwIfAborted();
+  const sourceMimeType = detectAudioFormat(data);
+
+  let decoded: AudioBuffer;
+  try {
+    decoded = await decodeAudio(data);
+  } catch (error) {
+    // The browser can't decode it, but the AI provider might: send it as is
+    const mimeType = sourceMimeType || (file.type.startsWith('audio/') ? file.type : null);
+    if (!mimeType) throw new Error(`"${file.name}" is not an audio format this browser can read.`);
+    console.warn("Could not decode audio, sending the original file:", error);
+    return { payload: data, mimeType, duration: 0, sourceMimeType };
+  }
+
+  signal?.throwIfAborted();
+  const samples = await renderMono(decoded, ANALYSIS_SAMPLE_RATE);
+  return {
+    payload: await encodeFlac(samples, ANALYSIS_SAMPLE_RATE, signal),
+    mimeType: 'audio/flac',
+    duration: decoded.duration,
+    sourceMimeType,
+  };
+};
@@ -0,0 +1,182 @@
+import { ChordEvent, SongAnalysis } from "../types";
+import { getAudioContextClass, loadWorkletModule } from "./audioUtils";
+import { buildChromaMap, createOnsetFollower, foldChroma, hannWindow, magnitudeSpectrum } from "./dsp";
+import { tempoMapFromEnvelope } from "./beatTracker";
+import { createChordFollower, createChordSegmenter, estimateKey, nameChordState, ChordName } from "./dspChordRecognizer";
+import { formatKey, keyUsesFlats } from "./musicTheory";
+
+// --- CONFIGURATION ---
+const TARGET_RATE = 11025;   // Analysis rate, as in the offline recognizer
+const FRAME_SECONDS = 0.34;  // Rounded up to 4096 samples: the window has to resolve semitones in the bass
+const HOP_SECONDS = 0.1;     // Update rate of the live chord
+const ANTI_ALIAS_HZ = 2500;
+const MIN_FREQUENCY = 65;
+const MAX_FREQUENCY = 2100;
+const SMOOTHING_FRAMES = 2;  // Chroma frames averaged before matching
+
+// --- CAPTURE WORKLET ---
+// Keeps every n-th sample of the (already low-passed) microphone, collects
+// fixed-size blocks and hands them to the main thread, where the shared chroma
+// code runs on them.
+
+const CAPTURE_SOURCE = `
+class BlockCapture extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.size = options.processorOptions.blockSize;
+    this.step = options.processorOptions.decimation;
+    this.block = new Float32Array(this.size);
+    this.filled = 0;
+    this.phase = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (!input || !input.length) return true;
+    const channels = input.length;
+    for (let i = 0; i < input[0].length; i++) {
+      if (this.phase++ % this.step !== 0) continue;
+      let sum = 0;
+      for (let ch = 0; ch < channels; ch++) sum += input[ch][i];
+      this.block[this.filled++] = sum / channels;
+      if (this.filled === this.size) {
+        this.port.postMessage(this.block, [this.block.buffer]);
+        this.block = new Float32Array(this.size);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('block-capture', BlockCapture);
+`;
+
+// --- SESSION ---
+
+export interface LiveChordUpdate {
+  current: ChordName | null; // Chord the follower is on right now (null while silent)
+  history: ChordEvent[];     // Everything recognized so far, oldest first; short chords are merged
+  key: string;               // Running key estimate
+  elapsed: number;           // Seconds since the session started
+}
+
+export interface LiveChordSession {
+  /** Stops listening and returns the session as a local analysis. */
+  stop: (title?: string) => SongAnalysis;
+  dispose: () => void;
+}
+
+/**
+ * Follows the chords in a live stream: an AudioWorklet taps the input, each
+ * hop computes a chroma frame and the streaming Viterbi follower commits a
+ * chord state at once. `onUpdate` fires after every hop (~100 ms).
+ */
+export const startLiveChords = async (stream: MediaStream, onUpdate: (update: LiveChordUpdate) => void): Promise<LiveChordSession> => {
+  const AudioContextClass = getAudioContextClass();
+  const ctx = new AudioContextClass();
+  try {
+    await loadWorkletModule(ctx, CAPTURE_SOURCE);
+  } catch (err) {
+    ctx.close();
+    throw err;
+  }
+
+  const decimation = Math.max(1, Math.floor(ctx.sampleRate / TARGET_RATE));
+  const sampleRate = ctx.sampleRate / decimation;
+  let frameSize = 1;
+  while (frameSize < FRAME_SECONDS * sampleRate) frameSize <<= 1;
+  const hopSize = Math.round(HOP_SECONDS * sampleRate);
+  const hopSeconds = hopSize / sampleRate;
+  // Frame f ends at the newest sample, so its centre lags by half a window, plus the smoothing
+  const changeOffset = (hopSize - frameSize) / 2 / sampleRate - ((SMOOTHING_FRAMES - 1) / 2) * hopSeconds;
+  const hann = hannWindow(frameSize);
+  const map = buildChromaMap(frameSize, sampleRate, MIN_FREQUENCY, MAX_FREQUENCY);
+  const mags = new Float64Array(frameSize / 2 + 1);
+
+  const follower = createChordFollower();
+  const segmenter = createChordSegmenter(hopSeconds, changeOffset);
+  const onsets = createOnsetFollower(sampleRate); // For the tempo, measured once the session stops
+  const samples = new Float32Array(frameSize); // Sliding window, newest samples at the end
+  const recent: Float32Array[] = [];
+  const heard = new Float32Array(12); // Sum of the non-silent frames; the key estimate only needs the total
+  let frameCount = 0;
+  let key = estimateKey([]);
+
+  const chordsSoFar = (duration: number) => segmenter.chords(duration, keyUsesFlats(key.tonic, key.mode));
+
+  const onBlock = (block: Float32Array) => {
+    samples.copyWithin(0, block.length);
+    samples.set(block, frameSize - block.length);
+
+    let energy = 0;
+    for (let i = 0; i < frameSize; i++) energy += samples[i] * samples[i];
+    const rms = Math.sqrt(energy / frameSize);
+    recent.push(foldChroma(magnitudeSpectrum(samples, 0, hann, mags), map));
+    if (recent.length > SMOOTHING_FRAMES) recent.shift();
+    const chroma = new Float32Array(12);
+    for (const frame of recent) for (let i = 0; i < 12; i++) chroma[i] += frame[i] / recent.length;
+
+    const { state, score, silent } = follower.push(chroma, rms);
+    segmenter.push(state, score);
+    onsets.push(block);
+    frameCount++;
+    if (!silent) {
+      for (let i = 0; i < 12; i++) heard[i] += chroma[i];
+      key = estimateKey([heard]);
+    }
+
+    const elapsed = frameCount * hopSeconds;
+    const current = nameChordState(state, keyUsesFlats(key.tonic, key.mode));
+    onUpdate({
+      current: current.root !== 'N.C.' ? current : null,
+      history: chordsSoFar(elapsed),
+      key: formatKey(key.tonic, key.mode),
+      elapsed,
+    });
+  };
+
+  const source = ctx.createMediaStreamSource(stream);
+  // Two cascaded lowpasses keep what folds back under the decimated Nyquist quiet
+  const filters = [0, 1].map(() => {
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = ANTI_ALIAS_HZ;
+    return filter;
+  });
+  const capture = new AudioWorkletNode(ctx, 'block-capture', { processorOptions: { blockSize: hopSize, decimation } });
+  capture.port.onmessage = (e: MessageEvent<Float32Array>) => onBlock(e.data);
+  // The worklet only runs while connected to the destination; it writes no output
+  source.connect(filters[0]).connect(filters[1]).connect(capture).connect(ctx.destination);
+
+  const dispose = () => {
+    capture.port.onmessage = null;
+    source.disconnect();
+    filters.forEach(filter => filter.disconnect());
+    capture.disconnect();
+    ctx.close();
+  };
+
+  return {
+    stop: (title = 'Live session') => {
+      dispose();
+      const duration = frameCount * hopSeconds;
+      const tempoMap = tempoMapFromEnvelope(onsets.envelope());
+      return {
+        title,
+        artist: '',
+        key: formatKey(key.tonic, key.mode),
+        bpm: tempoMap ? Math.round(tempoMap.bpm) : 120,
+        timeSignature: '4/4',
+        complexityLevel: 'Basic',
+        summary: 'Recognized live from the microphone (chroma template matching). Triads and basic sevenths only; no inversions.'
+          + ' The meter is assumed to be 4/4' + (tempoMap ? '.' : ', and no steady beat was found, so the tempo is a placeholder.'),
+        sections: [{ name: 'Full Take', startTime: 0, endTime: duration, color: '#334155' }],
+        chords: chordsSoFar(duration),
+        ...(tempoMap ? { tempoMap } : {}),
+        engine: 'local',
+      };
+    },
+    dispose,
+  };
+};
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { parseTimeSignature, beatGridOf, nearestBeat, beatTime, beatPosition, positionAt, withDownbeatAt, buildMeasureGrid } from './measureGrid';
+import { chord, chordRun, song } from './fixtures/testChords';
+
+describe('parseTimeSignature', () => {
+  it('reads the meter and falls back to 4/4', () => {
+    expect(parseTimeSignature('6/8')).toEqual({ beats: 6, unit: 8 });
+    expect(parseTimeSignature('waltz')).toEqual({ beats: 4, unit: 4 });
+  });
+});
+
+describe('beat grid', () => {
+  it('counts beats from the downbeat offset', () => {
+    const grid = beatGridOf(song({ bpm: 120, downbeatOffset: 0.4 }));
+    expect(nearestBeat(0.4, grid)).toBe(0);
+    expect(nearestBeat(2.45, grid)).toBe(4);
+    expect(nearestBeat(0, grid)).toBe(-1);
+    expect(beatTime(4, grid)).toBeCloseTo(2.4);
+    expect(positionAt(2.45, grid)).toEqual({ bar: 1, beat: 0 });
+    expect(positionAt(0.1, grid)).toEqual({ bar: -1, beat: 3 });
+  });
+
+  it('follows tracked beats and continues at the median tempo past them', () => {
+    const grid = beatGridOf(song({ downbeatOffset: 1, tempoMap: { bpm: 120, beats: [0.1, 0.5, 1.1, 1.5, 2.1] } }));
+    expect(grid.origin).toBe(2);
+    expect(nearestBeat(1.45, grid)).toBe(1);
+    expect(beatPosition(1.3, grid)).toBeCloseTo(0.5);
+    expect(beatTime(3, grid)).toBeCloseTo(2.6);
+  });
+
+  it('keeps a moved downbeat within the first bar', () => {
+    const moved = withDownbeatAt(song({ bpm: 120 }), 4.5);
+    expect(moved.downbeatOffset).toBe(0.5);
+    expect(withDownbeatAt(moved, 2.5)).toBe(moved);
+  });
+});
+
+describe('buildMeasureGrid', () => {
+  it('groups bars by section and marks chord changes', () => {
+    const analysis = song({
+      sections: [{ name: 'Intro', startTime: 0, endTime: 2 }, { name: 'Verse', startTime: 2, endTime: 6 }],
+      chords: [...chordRun(['G'], 2), chord('C', 2, 1), chord('D', 3, 3)],
+    });
+    const sections = buildMeasureGrid(analysis);
+    expect(sections.map(s => [s.name, s.measures.map(m => m.index)])).toEqual([['Intro', [0]], ['Verse', [1, 2]]]);
+    expect(sections[1].measures[0].beats.map(b => b.isChange)).toEqual([true, false, true, false]);
+  });
+});
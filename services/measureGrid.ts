@@ -0,0 +1,192 @@
+import { SongAnalysis } from "../types";
+
+// --- TYPES ---
+
+export interface BeatGrid {
+  beatSeconds: number;
+  beatsPerBar: number;
+  offset: number;   // Time of the first downbeat
+  beats?: number[]; // Tracked beat times (tempo map); the grid is uniform without them
+  origin: number;   // Index in `beats` of the first downbeat
+}
+
+export interface MeasureBeat {
+  time: number;
+  endTime: number;
+  chordIndex: number; // Chord sounding on this beat, -1 if none
+  isChange: boolean;  // A new chord starts on this beat
+}
+
+export interface Measure {
+  index: number; // 0 at the first downbeat, negative for a pickup
+  startTime: number;
+  beats: MeasureBeat[];
+}
+
+export interface MeasureSection {
+  name: string;
+  color?: string;
+  sectionIndex: number; // -1 for bars outside every section
+  measures: Measure[];
+}
+
+// --- BEAT GRID ---
+
+export const parseTimeSignature = (timeSignature: string): { beats: number; unit: number } => {
+  const match = timeSignature.match(/^(\d+)\/(\d+)$/);
+  const beats = match ? parseInt(match[1], 10) : 4;
+  const unit = match ? parseInt(match[2], 10) : 4;
+  return { beats: beats > 0 ? beats : 4, unit: unit > 0 ? unit : 4 };
+};
+
+const floorMod = (n: number, m: number) => ((n % m) + m) % m;
+
+/** Index of the last beat at or before `time` (-1 before the first). */
+const beatIndexBefore = (beats: number[], time: number): number => {
+  let lo = 0;
+  let hi = beats.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (beats[mid] <= time + 1e-6) { found = mid; lo = mid + 1; } else hi = mid - 1;
+  }
+  return found;
+};
+
+export const beatGridOf = (analysis: Pick<SongAnalysis, 'bpm' | 'timeSignature' | 'downbeatOffset' | 'tempoMap'>): BeatGrid => {
+  const offset = analysis.downbeatOffset || 0;
+  const beatsPerBar = parseTimeSignature(analysis.timeSignature).beats;
+  const beats = analysis.tempoMap?.beats;
+  if (!beats?.length) {
+    return { beatSeconds: 60 / (analysis.bpm > 0 ? analysis.bpm : 120), beatsPerBar, offset, origin: 0 };
+  }
+  // The downbeat is the tracked beat closest to the offset
+  const before = Math.max(0, beatIndexBefore(beats, offset));
+  const origin = before + 1 < beats.length && beats[before + 1] - offset < offset - beats[before] ? before + 1 : before;
+  return { beatSeconds: 60 / analysis.tempoMap!.bpm, beatsPerBar, offset: beats[origin], beats, origin };
+};
+
+/** Index of the beat nearest to `time`; beat 0 is the first downbeat. */
+export const nearestBeat = (time: number, grid: BeatGrid): number => {
+  const { beats } = grid;
+  if (!beats) return Math.round((time - grid.offset) / grid.beatSeconds);
+  const before = beatIndexBefore(beats, time);
+  // Outside the tracked range, continue at the median tempo
+  if (before < 0) return Math.round((time - beats[0]) / grid.beatSeconds) - grid.origin;
+  if (before === beats.length - 1) return before + Math.round((time - beats[before]) / grid.beatSeconds) - grid.origin;
+  const nearest = beats[before + 1] - time < time - beats[before] ? before + 1 : before;
+  return nearest - grid.origin;
+};
+
+/** Fractional beat at `time`, interpolated between tracked beats; beat 0 is the first downbeat. */
+export const beatPosition = (time: number, grid: BeatGrid): number => {
+  const { beats } = grid;
+  if (!beats) return (time - grid.offset) / grid.beatSeconds;
+  const before = beatIndexBefore(beats, time);
+  if (before < 0) return (time - beats[0]) / grid.beatSeconds - grid.origin;
+  if (before === beats.length - 1) return before + (time - beats[before]) / grid.beatSeconds - grid.origin;
+  const span = beats[before + 1] - beats[before] || grid.beatSeconds;
+  return before + (time - beats[before]) / span - grid.origin;
+};
+
+export const beatTime = (beat: number, grid: BeatGrid): number => {
+  const { beats } = grid;
+  if (!beats) return grid.offset + beat * grid.beatSeconds;
+  const index = beat + grid.origin;
+  if (index < 0) return beats[0] + index * grid.beatSeconds;
+  if (index >= beats.length) return beats[beats.length - 1] + (index - beats.length + 1) * grid.beatSeconds;
+  return beats[index];
+};
+
+/** Bar and beat (both 0-based) under the playhead. */
+export const positionAt = (time: number, grid: BeatGrid): { bar: number; beat: number } => {
+  const { beats } = grid;
+  let beat: number;
+  if (!beats) {
+    beat = Math.floor((time - grid.offset) / grid.beatSeconds + 1e-6);
+  } else {
+    const before = beatIndexBefore(beats, time);
+    beat = before < 0
+      ? Math.floor((time - beats[0]) / grid.beatSeconds) - grid.origin
+      : before + Math.floor((time - beats[before]) / grid.beatSeconds + 1e-6) - grid.origin;
+  }
+  return { bar: Math.floor(beat / grid.beatsPerBar), beat: floorMod(beat, grid.beatsPerBar) };
+};
+
+/**
+ * Moves the bar lines so a downbeat falls on `time`. The offset is kept within
+ * the first bar so bar numbers stay counted from the start of the song.
+ */
+export const withDownbeatAt = (analysis: SongAnalysis, time: number): SongAnalysis => {
+  const grid = beatGridOf(analysis);
+  let offset: number;
+  if (grid.beats) {
+    // Snap to a tracked beat, then step back whole bars
+    const index = nearestBeat(time, { ...grid, origin: 0 });
+    offset = beatTime(floorMod(index, grid.beatsPerBar), { ...grid, origin: 0 });
+  } else {
+    offset = floorMod(time, grid.beatSeconds * grid.beatsPerBar);
+  }
+  offset = Math.round(offset * 1000) / 1000;
+  return offset === (analysis.downbeatOffset || 0) ? analysis : { ...analysis, downbeatOffset: offset };
+};
+
+// --- LAYOUT ---
+
+/**
+ * Lays the chord timeline out bar by bar. Chord boundaries snap to the nearest
+ * beat; when two chords land on the same beat the later one wins, so the grid
+ * never drifts away from the audio. Bars are grouped by the section their
+ * downbeat falls in.
+ */
+export const buildMeasureGrid = (analysis: SongAnalysis): MeasureSection[] => {
+  const grid = beatGridOf(analysis);
+  if (!analysis.chords.length) return [];
+
+  // 1. Chord index per beat
+  const chordAtBeat = new Map<number, number>();
+  let firstBeat = Infinity;
+  let lastBeat = -Infinity;
+  analysis.chords.forEach((chord, i) => {
+    const start = nearestBeat(chord.seconds, grid);
+    const end = Math.max(start + 1, nearestBeat(chord.seconds + chord.duration, grid));
+    for (let b = start; b < end; b++) chordAtBeat.set(b, i);
+    firstBeat = Math.min(firstBeat, start);
+    lastBeat = Math.max(lastBeat, end - 1);
+  });
+
+  // 2. Bars
+  const firstBar = Math.floor(firstBeat / grid.beatsPerBar);
+  const lastBar = Math.floor(lastBeat / grid.beatsPerBar);
+  const measures: Measure[] = [];
+  for (let bar = firstBar; bar <= lastBar; bar++) {
+    const beats = Array.from({ length: grid.beatsPerBar }, (_, b) => {
+      const beat = bar * grid.beatsPerBar + b;
+      const chordIndex = chordAtBeat.get(beat) ?? -1;
+      const previous = chordAtBeat.get(beat - 1) ?? -1;
+      return {
+        time: beatTime(beat, grid),
+        endTime: beatTime(beat + 1, grid),
+        chordIndex,
+        isChange: chordIndex >= 0 && chordIndex !== previous,
+      };
+    });
+    measures.push({ index: bar, startTime: beatTime(bar * grid.beatsPerBar, grid), beats });
+  }
+
+  // 3. Sections (a little past the downbeat, so a section starting slightly late still owns its first bar)
+  const tolerance = grid.beatSeconds / 2;
+  const groups: MeasureSection[] = [];
+  for (const measure of measures) {
+    const at = measure.startTime + tolerance;
+    const sectionIndex = analysis.sections.findIndex(s => at >= s.startTime && at < s.endTime);
+    const last = groups[groups.length - 1];
+    if (last && last.sectionIndex === sectionIndex) {
+      last.measures.push(measure);
+    } else {
+      const section = analysis.sections[sectionIndex];
+      groups.push({ name: section ? section.name : '', color: section?.color, sectionIndex, measures: [measure] });
+    }
+  }
+  return groups;
+};
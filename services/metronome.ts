@@ -0,0 +1,151 @@
+import { getAudioContextClass } from "./audioUtils";
+import { BeatGrid, beatTime, nearestBeat } from "./measureGrid";
+
+// --- CONFIGURATION ---
+const LOOKAHEAD_SECONDS = 0.2;  // How far ahead of the clock clicks get scheduled
+const SCHEDULER_INTERVAL = 25;  // ms between scheduler runs when free-running
+const SEEK_TOLERANCE = 0.3;     // A playhead jump larger than this counts as a seek
+const CLICK_SECONDS = 0.06;
+
+const floorMod = (n: number, m: number) => ((n % m) + m) % m;
+
+interface Click {
+  osc: OscillatorNode;
+  at: number;
+}
+
+export interface Metronome {
+  setVolume: (volume: number) => void; // 0..1
+  /** Shifts every click against the beat grid (positive = later). */
+  setPhaseOffset: (seconds: number) => void;
+  /**
+   * Call on every frame while the recording plays with its audible time.
+   * Beats within the lookahead are scheduled on the Web Audio clock, so
+   * clicks land on the sample regardless of frame jitter.
+   */
+  update: (grid: BeatGrid, mediaTime: number, playbackRate: number) => void;
+  /** Clicks at a fixed tempo on its own, without a recording. */
+  start: (bpm: number, beatsPerBar: number) => void;
+  /** Plays `beats` clicks and resolves when they are over, so playback can start on the next beat. */
+  countIn: (beats: number, beatsPerBar: number, beatSeconds: number) => Promise<void>;
+  stop: () => void;
+  dispose: () => void;
+}
+
+export const createMetronome = (): Metronome => {
+  let ctx: AudioContext | null = null;
+  let master: GainNode | null = null;
+  let volume = 0.7;
+  let phaseOffset = 0;
+  let clicks: Click[] = [];
+  let nextBeat = 0;
+  let last: { mediaTime: number; ctxTime: number; rate: number; grid: BeatGrid } | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const ensureContext = () => {
+    if (!ctx) {
+      const AudioContextClass = getAudioContextClass();
+      ctx = new AudioContextClass();
+      master = ctx.createGain();
+      master.gain.value = volume;
+      master.connect(ctx.destination);
+    }
+    if (ctx.state === 'suspended') ctx.resume();
+    return { ctx, master: master! };
+  };
+
+  /** Schedules one click at AudioContext time `at`; downbeats are higher and louder. */
+  const click = (at: number, accent: boolean) => {
+    const { ctx: context, master: out } = ensureContext();
+    const osc = context.createOscillator();
+    const gain = context.createGain();
+    osc.frequency.value = accent ? 1500 : 1000;
+    gain.gain.setValueAtTime(0, at);
+    gain.gain.linearRampToValueAtTime(accent ? 0.6 : 0.35, at + 0.002);
+    gain.gain.exponentialRampToValueAtTime(0.001, at + CLICK_SECONDS);
+    osc.connect(gain).connect(out);
+    osc.start(at);
+    osc.stop(at + CLICK_SECONDS + 0.02);
+    clicks = clicks.filter(c => c.at > context.currentTime - 1);
+    clicks.push({ osc, at });
+  };
+
+  const stop = () => {
+    if (timer !== null) {
+      clearInterval(timer);
+      timer = null;
+    }
+    if (ctx) {
+      // Cancel clicks that were scheduled but haven't sounded yet
+      const now = ctx.currentTime;
+      for (const c of clicks) {
+        if (c.at > now) { try { c.osc.stop(); } catch { /* already stopped */ } }
+      }
+    }
+    clicks = [];
+    last = null;
+  };
+
+  return {
+    setVolume: (next) => {
+      volume = next;
+      if (master && ctx) master.gain.setTargetAtTime(next, ctx.currentTime, 0.02);
+    },
+    setPhaseOffset: (seconds) => {
+      if (seconds === phaseOffset) return;
+      phaseOffset = seconds;
+      // Reschedule from the next update
+      if (last) stop();
+    },
+    update: (grid, mediaTime, playbackRate) => {
+      const { ctx: context } = ensureContext();
+      const now = context.currentTime;
+      const clickTime = (beat: number) => beatTime(beat, grid) + phaseOffset;
+
+      const expected = last ? last.mediaTime + (now - last.ctxTime) * last.rate : mediaTime;
+      if (!last || Math.abs(mediaTime - expected) > SEEK_TOLERANCE || playbackRate !== last.rate || grid !== last.grid) {
+        // (Re)start at the first beat still ahead of the playhead
+        stop();
+        nextBeat = nearestBeat(mediaTime - phaseOffset, grid);
+        if (clickTime(nextBeat) < mediaTime) nextBeat++;
+      }
+      last = { mediaTime, ctxTime: now, rate: playbackRate, grid };
+
+      while (clickTime(nextBeat) < mediaTime + LOOKAHEAD_SECONDS * playbackRate) {
+        click(now + Math.max(0, (clickTime(nextBeat) - mediaTime) / playbackRate), floorMod(nextBeat, grid.beatsPerBar) === 0);
+        nextBeat++;
+      }
+    },
+    start: (bpm, beatsPerBar) => {
+      stop();
+      const { ctx: context } = ensureContext();
+      const beatSeconds = 60 / bpm;
+      let beat = 0;
+      let next = context.currentTime + 0.05;
+      const schedule = () => {
+        while (next < context.currentTime + LOOKAHEAD_SECONDS) {
+          click(next, beat % beatsPerBar === 0);
+          next += beatSeconds;
+          beat++;
+        }
+      };
+      schedule();
+      timer = setInterval(schedule, SCHEDULER_INTERVAL);
+    },
+    countIn: async (beats, beatsPerBar, beatSeconds) => {
+      stop();
+      const { ctx: context } = ensureContext();
+      const start = context.currentTime + 0.05;
+      for (let i = 0; i < beats; i++) click(start + i * beatSeconds, i % beatsPerBar === 0);
+      const remaining = start + beats * beatSeconds - context.currentTime;
+      await new Promise(resolve => setTimeout(resolve, Math.max(0, remaining * 1000)));
+    },
+    stop,
+    dispose: () => {
+      stop();
+      ctx?.close();
+      ctx = null;
+      master = null;
+    },
+  };
+};
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { toMidiFile } from './midiExport';
+import { chordRun, song } from './fixtures/testChords';
+
+// --- MIDI READER ---
+
+interface ReadEvent {
+  tick: number;
+  status: number;
+  meta?: number; // Meta event type, for status 0xff
+  data: number[];
+}
+
+/** Reads the tracks of a format 1 file; enough of the format for what toMidiFile writes. */
+const readMidi = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ticksPerQuarter = view.getUint16(12);
+  const tracks: ReadEvent[][] = [];
+  let pos = 14;
+  while (pos < bytes.length) {
+    const end = pos + 8 + view.getUint32(pos + 4);
+    pos += 8;
+    const events: ReadEvent[] = [];
+    let tick = 0;
+    const varLength = () => {
+      let value = 0;
+      let byte: number;
+      do {
+        byte = bytes[pos++];
+        value = (value << 7) | (byte & 0x7f);
+      } while (byte & 0x80);
+      return value;
+    };
+    while (pos < end) {
+      tick += varLength();
+      const status = bytes[pos++];
+      if (status === 0xff) {
+        const meta = bytes[pos++];
+        const length = varLength();
+        events.push({ tick, status, meta, data: Array.from(bytes.subarray(pos, pos + length)) });
+        pos += length;
+      } else {
+        const length = (status & 0xf0) === 0xc0 ? 1 : 2;
+        events.push({ tick, status, data: Array.from(bytes.subarray(pos, pos + length)) });
+        pos += length;
+      }
+    }
+    tracks.push(events);
+  }
+  return { ticksPerQuarter, tracks };
+};
+
+/** Bar length in ticks as a player reads it from the time signature meta event. */
+const barTicks = (ticksPerQuarter: number, conductor: ReadEvent[]) => {
+  const [numerator, denominatorPower] = conductor.find(e => e.meta === 0x58)!.data;
+  return numerator * ticksPerQuarter * (4 / 2 ** denominatorPower);
+};
+
+const noteOnTicks = (track: ReadEvent[]) =>
+  [...new Set(track.filter(e => (e.status & 0xf0) === 0x90).map(e => e.tick))];
+
+describe('toMidiFile', () => {
+  it('writes one bar per chord for whole-bar chords in 4/4', () => {
+    const analysis = song({ bpm: 120, chords: chordRun(['C', 'F', 'G', 'C'], 2) });
+    const { ticksPerQuarter, tracks } = readMidi(toMidiFile(analysis, 'Basic'));
+    const bar = barTicks(ticksPerQuarter, tracks[0]);
+    expect(bar).toBe(4 * ticksPerQuarter);
+    expect(noteOnTicks(tracks[1])).toEqual([0, 1, 2, 3].map(i => i * bar));
+  });
+
+  it('writes compound meters with the time signature\'s note as the beat', () => {
+    // 6/8 at 120 beats per minute: six eighths per bar, a bar every 3 seconds
+    const analysis = song({ bpm: 120, timeSignature: '6/8', chords: chordRun(['C', 'G', 'C'], 3) });
+    const { ticksPerQuarter, tracks } = readMidi(toMidiFile(analysis, 'Basic'));
+    const bar = barTicks(ticksPerQuarter, tracks[0]);
+    expect(bar).toBe(3 * ticksPerQuarter);
+    expect(noteOnTicks(tracks[1])).toEqual([0, bar, 2 * bar]);
+    // An eighth lasts 0.5s, so a quarter is 1s
+    const [a, b, c] = tracks[0].find(e => e.meta === 0x51)!.data;
+    expect((a << 16) | (b << 8) | c).toBe(1_000_000);
+  });
+
+  it('starts bar 1 on the downbeat, padding the pickup to a whole bar', () => {
+    const analysis = song({ bpm: 120, downbeatOffset: 0.5, chords: chordRun(['G', 'C'], 0.5).concat(chordRun(['F'], 2, 1)) });
+    const { ticksPerQuarter, tracks } = readMidi(toMidiFile(analysis, 'Basic'));
+    const bar = barTicks(ticksPerQuarter, tracks[0]);
+    // The pickup chord is the last beat of the lead-in bar, C falls on the first downbeat
+    expect(noteOnTicks(tracks[1])).toEqual([bar - ticksPerQuarter, bar, bar + ticksPerQuarter]);
+  });
+
+  it('sets the tempo from the song', () => {
+    const { tracks } = readMidi(toMidiFile(song({ bpm: 100, chords: chordRun(['C'], 2) }), 'Basic'));
+    const [a, b, c] = tracks[0].find(e => e.meta === 0x51)!.data;
+    expect((a << 16) | (b << 8) | c).toBe(600_000);
+  });
+});
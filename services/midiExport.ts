@@ -0,0 +1,145 @@
+import { SongAnalysis, AnalysisLevel } from "../types";
+import { mod12, parseKey, keyUsesFlats } from "./musicTheory";
+import { voiceChord, bassNote } from "./voicing";
+import { parseTimeSignature, beatGridOf, beatPosition } from "./measureGrid";
+
+// --- CONSTANTS ---
+
+const TICKS_PER_QUARTER = 480;
+
+const CHORD_CHANNEL = 0;
+const BASS_CHANNEL = 1;
+const CHORD_PROGRAM = 0;  // GM Acoustic Grand Piano
+const BASS_PROGRAM = 33;  // GM Electric Bass (finger)
+
+const CHORD_VELOCITY = 80;
+const BASS_VELOCITY = 96;
+
+// --- BYTE HELPERS ---
+
+/** MIDI variable-length quantity (7 bits per byte, MSB set on all but the last). */
+const varLength = (value: number): number[] => {
+  let v = Math.max(0, Math.round(value));
+  const bytes = [v & 0x7f];
+  while ((v >>= 7) > 0) bytes.unshift((v & 0x7f) | 0x80);
+  return bytes;
+};
+
+const uint32 = (n: number) => [(n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+const uint16 = (n: number) => [(n >> 8) & 0xff, n & 0xff];
+const ascii = (s: string) => Array.from(s, c => c.charCodeAt(0));
+
+const metaEvent = (type: number, data: number[]) => [0xff, type, ...varLength(data.length), ...data];
+const textMeta = (type: number, text: string) => metaEvent(type, Array.from(new TextEncoder().encode(text)));
+
+interface TrackEvent {
+  tick: number;
+  order: number; // Tie-break at equal ticks: meta (0), note-off (1), note-on (2)
+  data: number[];
+}
+
+/** Serializes absolute-time events into an MTrk chunk with delta times. */
+const encodeTrack = (events: TrackEvent[]): number[] => {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+  const body: number[] = [];
+  let lastTick = 0;
+  for (const event of sorted) {
+    body.push(...varLength(event.tick - lastTick), ...event.data);
+    lastTick = event.tick;
+  }
+  body.push(0, ...metaEvent(0x2f, [])); // End of track
+  return [...ascii('MTrk'), ...uint32(body.length), ...body];
+};
+
+/** Key signature meta event: sharps (+) or flats (-) of the key, and a minor flag. */
+const keySignature = (label: string): number[] | null => {
+  const key = parseKey(label);
+  if (!key) return null;
+  const major = key.mode === 'minor' ? mod12(key.tonic + 3) : key.tonic;
+  const sharps = mod12(major * 7); // Steps around the circle of fifths from C
+  const accidentals = keyUsesFlats(key.tonic, key.mode) ? sharps - 12 : sharps;
+  return metaEvent(0x59, [accidentals & 0xff, key.mode === 'minor' ? 1 : 0]);
+};
+
+// --- EXPORT ---
+
+/**
+ * Standard MIDI File (format 1) of the chord timeline:
+ * track 0 carries tempo, time signature, key signatures and section markers,
+ * track 1 the block chords, track 2 the bass line. N.C. chords are rests.
+ * Ticks follow the beat grid, one note of the time signature's unit per beat
+ * (an eighth in 6/8): bar lines land on the song's downbeats, a tempo map becomes one tempo change per tracked beat, and
+ * a pickup is padded to a whole bar.
+ */
+export const toMidiFile = (analysis: SongAnalysis, level: AnalysisLevel): Uint8Array => {
+  const grid = beatGridOf(analysis);
+  const { beats, unit } = parseTimeSignature(analysis.timeSignature);
+  // Whole bars ahead of the first downbeat, so the start of the audio never falls before tick 0
+  const leadBeats = beats * Math.max(0, Math.ceil(-beatPosition(0, grid) / beats));
+  const ticksPerBeat = (TICKS_PER_QUARTER * 4) / unit;
+  const beatTick = (beat: number) => Math.max(0, Math.round((beat + leadBeats) * ticksPerBeat));
+  const toTick = (seconds: number) => beatTick(beatPosition(seconds, grid));
+  // The tempo meta event counts microseconds per quarter note, whatever the beat unit
+  const tempo = (tick: number, beatSeconds: number): TrackEvent =>
+    ({ tick, order: 0, data: metaEvent(0x51, uint32(Math.round(((beatSeconds * unit) / 4) * 1_000_000)).slice(1)) });
+
+  // 1. Conductor track
+  const conductor: TrackEvent[] = [
+    { tick: 0, order: 0, data: textMeta(0x03, analysis.title || 'Untitled Track') },
+    tempo(0, grid.beatSeconds),
+    // Denominator as a power of two; one metronome click per beat (24 MIDI clocks per quarter), 8 32nds per quarter
+    { tick: 0, order: 0, data: metaEvent(0x58, [beats, Math.round(Math.log2(unit)), Math.round(96 / unit), 8]) },
+    ...analysis.sections.map(section => ({ tick: toTick(section.startTime), order: 0, data: textMeta(0x06, section.name) })),
+  ];
+  // Tracked beats keep their own length; past the last one the median tempo resumes
+  if (grid.beats) {
+    const tracked = grid.beats;
+    for (let i = 0; i + 1 < tracked.length; i++) {
+      conductor.push(tempo(beatTick(i - grid.origin), tracked[i + 1] - tracked[i]));
+    }
+    conductor.push(tempo(beatTick(tracked.length - 1 - grid.origin), grid.beatSeconds));
+  }
+  // Main key at the start, then one key signature per modulation
+  const regions = analysis.keyRegions?.length ? analysis.keyRegions : [{ key: analysis.key, startTime: 0 }];
+  regions.forEach(({ key, startTime }) => {
+    const data = keySignature(key);
+    if (data) conductor.push({ tick: startTime > 0 ? toTick(startTime) : 0, order: 0, data });
+  });
+
+  // 2. Chord and bass tracks
+  const chords: TrackEvent[] = [
+    { tick: 0, order: 0, data: textMeta(0x03, 'Chords') },
+    { tick: 0, order: 0, data: [0xc0 | CHORD_CHANNEL, CHORD_PROGRAM] },
+  ];
+  const bass: TrackEvent[] = [
+    { tick: 0, order: 0, data: textMeta(0x03, 'Bass') },
+    { tick: 0, order: 0, data: [0xc0 | BASS_CHANNEL, BASS_PROGRAM] },
+  ];
+
+  const addNote = (track: TrackEvent[], channel: number, note: number, velocity: number, start: number, end: number) => {
+    track.push(
+      { tick: start, order: 2, data: [0x90 | channel, note, velocity] },
+      { tick: end, order: 1, data: [0x80 | channel, note, 0] },
+    );
+  };
+
+  let previous: number[] | null = null;
+  for (const chord of analysis.chords) {
+    const start = toTick(chord.seconds);
+    const end = toTick(chord.seconds + chord.duration);
+    if (end <= start) continue;
+
+    const voicing = voiceChord(chord, level, previous);
+    if (!voicing) continue;
+    previous = voicing;
+    voicing.forEach(note => addNote(chords, CHORD_CHANNEL, note, CHORD_VELOCITY, start, end));
+
+    const low = bassNote(chord);
+    if (low !== null) addNote(bass, BASS_CHANNEL, low, BASS_VELOCITY, start, end);
+  }
+
+  // 3. File
+  const tracks = [conductor, chords, bass];
+  const header = [...ascii('MThd'), ...uint32(6), ...uint16(1), ...uint16(tracks.length), ...uint16(TICKS_PER_QUARTER)];
+  return new Uint8Array([...header, ...tracks.flatMap(encodeTrack)]);
+};
@@ -0,0 +1,29 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SongAnalysis } from '../types';
+import { createMockProvider } from './mockProvider';
+import { validateSongAnalysis } from './analysisValidator';
+import { ANALYSIS_FIXTURES } from './fixtures/analysisFixtures';
+import { chordRun, song } from './fixtures/testChords';
+
+describe('mock provider', () => {
+  it.each(ANALYSIS_FIXTURES.map(f => [f.title, f] as const))('fixture "%s" passes the validator unchanged', (_, fixture) => {
+    expect(validateSongAnalysis(fixture).repairs).toEqual([]);
+  });
+
+  it('fits a fixture to the audio length and returns validated output', async () => {
+    const provider = createMockProvider({ latencyMs: 0 });
+    const analysis = await provider.analyzeAudio({ base64Data: 'AAAA', mimeType: 'audio/flac', duration: 30 });
+    const last = analysis.chords[analysis.chords.length - 1];
+    expect(last.seconds + last.duration).toBeCloseTo(30);
+    expect(validateSongAnalysis(analysis).analysis).toEqual(analysis);
+  });
+
+  it('repairs a fixture that drifted from the schema', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const drifted = { ...song({ chords: chordRun(['G', 'C'], 2) }), bpm: '96' } as unknown as SongAnalysis;
+    const analysis = await createMockProvider({ latencyMs: 0, fixtures: [drifted] }).analyzeUrl('https://example.com/song');
+    expect(analysis.bpm).toBe(96);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,107 @@
+import { SongAnalysis, ChordEvent, SectionEvent, KeyRegion } from "../types";
+import { AnalysisProvider, wait } from "./analysisProvider";
+import { formatTimestamp, validateSongAnalysis } from "./analysisValidator";
+import { ANALYSIS_FIXTURES } from "./fixtures/analysisFixtures";
+
+export interface MockProviderConfig {
+  latencyMs?: number;          // Simulated network time, so loading screens stay visible
+  fixtures?: SongAnalysis[];   // Defaults to the recorded fixtures
+}
+
+// --- UTILS ---
+
+// Small, stable string hash (djb2) so the same input always maps to the same fixture.
+const hashString = (value: string): number => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+};
+
+/**
+ * Repeats (or truncates) a fixture so its timeline covers exactly `duration` seconds.
+ * This keeps the player's playhead and the chord grid in step with the real file.
+ */
+const fitToDuration = (fixture: SongAnalysis, duration: number): SongAnalysis => {
+  const length = Math.max(
+    ...fixture.chords.map(c => c.seconds + c.duration),
+    ...fixture.sections.map(s => s.endTime),
+  );
+  if (!duration || duration <= 0 || length <= 0) return structuredClone(fixture);
+
+  const chords: ChordEvent[] = [];
+  const sections: SectionEvent[] = [];
+  const keyRegions: KeyRegion[] = [];
+
+  for (let offset = 0, pass = 0; offset < duration; offset += length, pass++) {
+    for (const chord of fixture.chords) {
+      const seconds = chord.seconds + offset;
+      if (seconds >= duration) break;
+      chords.push({
+        ...chord,
+        seconds,
+        timestamp: formatTimestamp(seconds),
+        duration: Math.min(chord.duration, duration - seconds),
+      });
+    }
+    for (const section of fixture.sections) {
+      const startTime = section.startTime + offset;
+      if (startTime >= duration) break;
+      sections.push({
+        ...section,
+        name: pass > 0 ? `${section.name} (${pass + 1})` : section.name,
+        startTime,
+        endTime: Math.min(section.endTime + offset, duration),
+      });
+    }
+    for (const region of fixture.keyRegions || []) {
+      const startTime = region.startTime + offset;
+      if (startTime >= duration) break;
+      const endTime = Math.min(region.endTime + offset, duration);
+      const prev = keyRegions[keyRegions.length - 1];
+      if (prev && prev.key === region.key) prev.endTime = endTime;
+      else keyRegions.push({ ...region, startTime, endTime });
+    }
+  }
+
+  const fitted: SongAnalysis = { ...structuredClone(fixture), chords, sections };
+  if (keyRegions.length) fitted.keyRegions = keyRegions;
+  return fitted;
+};
+
+// Fixtures go through the same validator as live responses, so they can't drift from the schema
+const validated = (fixture: SongAnalysis): SongAnalysis => {
+  const { analysis, repairs } = validateSongAnalysis(fixture);
+  if (repairs.length > 0) {
+    console.warn(`Repaired ${repairs.length} field(s) in fixture "${fixture.title}":`, repairs);
+  }
+  return analysis;
+};
+
+// --- PROVIDER ---
+
+/**
+ * Offline provider that answers from recorded fixtures. The fixture is picked
+ * from a hash of the input, so a given file or URL always yields the same result.
+ */
+export const createMockProvider = ({ latencyMs = 1200, fixtures = ANALYSIS_FIXTURES }: MockProviderConfig = {}): AnalysisProvider => {
+  if (fixtures.length === 0) throw new Error("Mock provider needs at least one fixture.");
+
+  const pick = (seed: string) => fixtures[hashString(seed) % fixtures.length];
+
+  return {
+    id: 'mock',
+    label: 'Offline fixtures',
+    analyzeAudio: async ({ base64Data, mimeType, duration }, { signal } = {}) => {
+      await wait(latencyMs, signal);
+      // Hashing the full payload would be slow for large files; length + edges is enough.
+      const seed = `${mimeType}:${base64Data.length}:${base64Data.slice(0, 64)}:${base64Data.slice(-64)}`;
+      return validated(fitToDuration(pick(seed), duration));
+    },
+    analyzeUrl: async (url, { signal } = {}) => {
+      await wait(latencyMs, signal);
+      return validated(structuredClone(pick(url)));
+    },
+  };
+};
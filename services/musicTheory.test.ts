@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { parseKey, transposeKey, transposeNote, transposeKeyLabel, transposeAnalysis, getDisplayChord } from './musicTheory';
+import { chord, chordRun, song } from './fixtures/testChords';
+
+const transposeIn = (note: string, semitones: number, key: string) => {
+  const from = parseKey(key)!;
+  return transposeNote(note, semitones, from, transposeKey(from, semitones));
+};
+
+describe('transposition spelling', () => {
+  it('keeps the scale degree of each letter', () => {
+    expect(transposeIn('B', 10, 'C Major')).toBe('A');  // 7th of Bb: A, not G##
+    expect(transposeIn('F#', 1, 'G Major')).toBe('G');  // 7th of Ab
+    expect(transposeIn('E', 3, 'C Major')).toBe('G');   // 3rd of Eb
+  });
+
+  it('spells the target tonic with the fewest accidentals', () => {
+    expect(transposeKeyLabel('C Major', 1)).toBe('Db Major');
+    expect(transposeKeyLabel('A Minor', 11)).toBe('G# Minor');
+    expect(transposeKeyLabel('C Minor', 3)).toBe('Eb Minor');
+  });
+
+  it('spells each chord from the key region it falls in', () => {
+    const analysis = song({
+      key: 'C Major',
+      keyRegions: [{ key: 'C Major', startTime: 0, endTime: 4 }, { key: 'A Major', startTime: 4, endTime: 8 }],
+      chords: [chord('E', 0, 4), chord('C#', 4, 4, { quality: 'm' })],
+    });
+    const up = transposeAnalysis(analysis, 1);
+    expect(up.key).toBe('Db Major');
+    expect(up.keyRegions!.map(r => r.key)).toEqual(['Db Major', 'Bb Major']);
+    expect(up.chords.map(c => c.symbol)).toEqual(['F', 'Dm']);
+  });
+
+  it('leaves N.C. and slash basses consistent', () => {
+    const chords = [chord('N.C.', 0, 2), chord('D', 2, 2, { bass: 'F#' })];
+    const up = transposeAnalysis(song({ key: 'G Major', chords }), 2);
+    expect(up.chords.map(c => c.symbol)).toEqual(['N.C.', 'E/G#']);
+  });
+
+  it('returns the same analysis for zero semitones', () => {
+    const analysis = song({ chords: chordRun(['C', 'F'], 2) });
+    expect(transposeAnalysis(analysis, 0)).toBe(analysis);
+  });
+});
+
+describe('getDisplayChord', () => {
+  it('simplifies by level', () => {
+    const c = chord('C', 0, 2, { quality: 'm', extension: '9', bass: 'G' });
+    expect(getDisplayChord(c, 'Basic')).toBe('Cm');
+    expect(getDisplayChord(c, 'Advanced')).toBe('Cm9/G');
+  });
+});
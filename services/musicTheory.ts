@@ -0,0 +1,316 @@
+import { ChordEvent, SongAnalysis, AnalysisLevel, KeyRegion } from "../types";
+
+// --- PITCH CLASSES ---
+
+export const SHARP_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+export const FLAT_NAMES = ["C", "Db", "D", "Eb", "E", "F", "Gb", "G", "Ab", "A", "Bb", "B"];
+
+const LETTER_PCS: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+export const mod12 = (n: number) => ((n % 12) + 12) % 12;
+
+/** "C#", "Db", "E#", "Cb" -> 0..11. Returns null for anything that is not a note name. */
+export const noteToPitchClass = (name: string): number | null => {
+  const match = name.trim().match(/^([A-Ga-g])(#{1,2}|b{1,2})?$/);
+  if (!match) return null;
+  const base = LETTER_PCS[match[1].toUpperCase()];
+  const accidental = match[2] || '';
+  const offset = accidental.startsWith('#') ? accidental.length : -accidental.length;
+  return mod12(base + offset);
+};
+
+export const pitchClassName = (pc: number, useFlats = false): string =>
+  (useFlats ? FLAT_NAMES : SHARP_NAMES)[mod12(pc)];
+
+// --- KEYS ---
+
+export type Mode = 'major' | 'minor';
+
+export interface KeyInfo {
+  tonic: number; // Pitch class
+  tonicName: string;
+  mode: Mode;
+}
+
+// Major keys written with flats: F, Bb, Eb, Ab, Db, Gb
+const FLAT_MAJOR_TONICS = [5, 10, 3, 8, 1, 6];
+
+export const keyUsesFlats = (tonic: number, mode: Mode): boolean =>
+  FLAT_MAJOR_TONICS.includes(mode === 'minor' ? mod12(tonic + 3) : mod12(tonic));
+
+/** Parses "C Minor", "F# major", "Bbm", "Am" into a tonic and mode. */
+export const parseKey = (key: string): KeyInfo | null => {
+  const match = key.trim().match(/^([A-Ga-g][#b♯♭]?)\s*(.*)$/);
+  if (!match) return null;
+  const tonicName = match[1].replace('♯', '#').replace('♭', 'b');
+  const tonic = noteToPitchClass(tonicName);
+  if (tonic === null) return null;
+  const rest = match[2].trim().toLowerCase();
+  const mode: Mode = /^(m|min|minor|aeolian|dorian|phrygian)\b/.test(rest) || rest === '-' ? 'minor' : 'major';
+  return { tonic, tonicName: tonicName[0].toUpperCase() + tonicName.slice(1), mode };
+};
+
+export const formatKey = (tonic: number, mode: Mode): string =>
+  `${pitchClassName(tonic, keyUsesFlats(tonic, mode))} ${mode === 'major' ? 'Major' : 'Minor'}`;
+
+// --- CHORDS ---
+
+export type ChordFamily = 'major' | 'minor' | 'dim' | 'aug' | 'sus' | 'none';
+
+/** Coarse triad family of a chord, used to compare timelines from different engines. */
+export const chordFamily = (chord: Pick<ChordEvent, 'root' | 'quality' | 'extension'>): ChordFamily => {
+  if (noteToPitchClass(chord.root) === null) return 'none';
+  const quality = chord.quality.trim();
+  const lower = quality.toLowerCase();
+  if (lower.startsWith('dim') || quality === '°' || lower === 'ø' || (chord.extension.includes('b5') && lower.startsWith('m'))) return 'dim';
+  if (lower.startsWith('aug') || quality === '+') return 'aug';
+  if (lower.startsWith('sus')) return 'sus';
+  if (lower.startsWith('maj') || lower === 'major' || quality === 'M' || quality === 'Δ') return 'major';
+  if (lower.startsWith('m') || quality === '-') return 'minor';
+  return 'major';
+};
+
+// --- DISPLAY ---
+
+// Chord fields arrive already normalized by services/analysisValidator
+// (no placeholders, canonical note names, bass omitted when equal to root).
+export const getDisplayChord = (chord: ChordEvent, level: AnalysisLevel): string => {
+  const { root, extension, bass, symbol } = chord;
+  let quality = chord.quality.toLowerCase();
+
+  if (root === 'N.C.') return root;
+  
+  // Normalize quality
+  if (quality === 'minor' || quality === 'min') quality = 'm';
+  if (quality === 'major' || quality === 'maj') quality = ''; 
+  if (quality === 'dominant' || quality === 'dom') quality = ''; 
+  
+  // --- BASIC MODE: STRICT TRIADS ONLY ---
+  if (level === 'Basic') {
+     // If it's diminished or augmented, keep that info as it's critical for function
+     if (quality === 'dim' || quality === 'aug') return `${root}${quality}`;
+     // Otherwise, strictly Root + m (if minor)
+     // No 7ths, no slash bass
+     return `${root}${quality === 'm' ? 'm' : ''}`; 
+  }
+  
+  // --- ADVANCED/INTERMEDIATE ---
+  if (symbol) {
+      return symbol;
+  }
+
+  return `${root}${quality}${extension}${bass ? `/${bass}` : ''}`;
+};
+
+// --- TRANSPOSITION ---
+
+export const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+
+// Conventional tonic spelling per pitch class (fewest accidentals in the key signature)
+const MAJOR_TONIC_NAMES = ["C", "Db", "D", "Eb", "E", "F", "F#", "G", "Ab", "A", "Bb", "B"];
+const MINOR_TONIC_NAMES = ["C", "C#", "D", "Eb", "E", "F", "F#", "G", "G#", "A", "Bb", "B"];
+
+const DEFAULT_KEY: KeyInfo = { tonic: 0, tonicName: 'C', mode: 'major' };
+
+/** Signed distance (-6..5) from a to b around the pitch-class circle. */
+export const signedInterval = (from: number, to: number) => {
+  const d = mod12(to - from);
+  return d > 5 ? d - 12 : d;
+};
+
+export const transposeKey = (key: KeyInfo, semitones: number): KeyInfo => {
+  const tonic = mod12(key.tonic + semitones);
+  const tonicName = (key.mode === 'major' ? MAJOR_TONIC_NAMES : MINOR_TONIC_NAMES)[tonic];
+  return { tonic, tonicName, mode: key.mode };
+};
+
+/**
+ * Transposes a note name and spells it for the target key: the letter keeps its
+ * scale-degree distance from the tonic (so the 7th of Bb is A, not G##), and
+ * only when that would need a double accidental do we fall back to the key's
+ * preferred sharps or flats.
+ */
+export const transposeNote = (note: string, semitones: number, fromKey: KeyInfo | null, toKey: KeyInfo): string => {
+  const pc = noteToPitchClass(note);
+  if (pc === null) return note;
+  const from = fromKey || DEFAULT_KEY;
+
+  const degree = (LETTERS.indexOf(note[0].toUpperCase()) - LETTERS.indexOf(from.tonicName[0]) + 7) % 7;
+  const letter = LETTERS[(LETTERS.indexOf(toKey.tonicName[0]) + degree) % 7];
+  const target = mod12(pc + semitones);
+  const offset = signedInterval(LETTER_PCS[letter], target);
+
+  if (Math.abs(offset) <= 1) return letter + (offset === 1 ? '#' : offset === -1 ? 'b' : '');
+  return pitchClassName(target, keyUsesFlats(toKey.tonic, toKey.mode));
+};
+
+/** Rewrites root, bass and symbol of a chord. "N.C." and unparseable roots pass through. */
+export const transposeChord = <T extends ChordEvent>(chord: T, semitones: number, fromKey: KeyInfo | null, toKey: KeyInfo): T => {
+  if (semitones === 0 || noteToPitchClass(chord.root) === null) return chord;
+
+  const root = transposeNote(chord.root, semitones, fromKey, toKey);
+  const bass = chord.bass ? transposeNote(chord.bass, semitones, fromKey, toKey) : '';
+
+  // Keep the symbol's own quality spelling, swap only the note names
+  const match = chord.symbol.match(/^([A-G][#b]?)([^/]*)(?:\/([A-G][#b]?))?$/);
+  const symbol = match
+    ? `${root}${match[2]}${match[3] ? `/${transposeNote(match[3], semitones, fromKey, toKey)}` : ''}`
+    : `${root}${chord.quality}${chord.extension}${bass ? `/${bass}` : ''}`;
+
+  return { ...chord, root, bass, symbol };
+};
+
+/** Replaces the tonic in a key label while keeping its wording ("C Minor" -> "Eb Minor"). */
+export const transposeKeyLabel = (label: string, semitones: number): string => {
+  const key = parseKey(label);
+  if (!key || semitones === 0) return label;
+  const target = transposeKey(key, semitones);
+  return label.trim().replace(/^[A-Ga-g][#b♯♭]?/, target.tonicName);
+};
+
+/**
+ * Transposes a chord list. With `keyRegions`, each chord is spelled from the
+ * key in effect at its start time instead of the main key.
+ */
+export const transposeChords = (chords: ChordEvent[], semitones: number, keyLabel: string, keyRegions?: KeyRegion[]): ChordEvent[] => {
+  if (semitones === 0) return chords;
+  const keyPairs = new Map<string, [KeyInfo | null, KeyInfo]>();
+  const keysFor = (label: string) => {
+    let pair = keyPairs.get(label);
+    if (!pair) {
+      const fromKey = parseKey(label);
+      pair = [fromKey, transposeKey(fromKey || DEFAULT_KEY, semitones)];
+      keyPairs.set(label, pair);
+    }
+    return pair;
+  };
+  return chords.map(c => {
+    const [fromKey, toKey] = keysFor(keyAtTime({ key: keyLabel, keyRegions }, c.seconds));
+    return transposeChord(c, semitones, fromKey, toKey);
+  });
+};
+
+export const transposeAnalysis = (analysis: SongAnalysis, semitones: number): SongAnalysis => {
+  if (semitones === 0) return analysis;
+  return {
+    ...analysis,
+    key: transposeKeyLabel(analysis.key, semitones),
+    keyRegions: analysis.keyRegions?.map(r => ({ ...r, key: transposeKeyLabel(r.key, semitones) })),
+    chords: transposeChords(analysis.chords, semitones, analysis.key, analysis.keyRegions),
+  };
+};
+
+// --- CHORD TYPES ---
+
+/** Intervals (semitones above the root) for each canonical chord suffix. */
+export const CHORD_INTERVALS: Record<string, number[]> = {
+  '': [0, 4, 7],
+  'm': [0, 3, 7],
+  'dim': [0, 3, 6],
+  'aug': [0, 4, 8],
+  'sus2': [0, 2, 7],
+  'sus4': [0, 5, 7],
+  '6': [0, 4, 7, 9],
+  'm6': [0, 3, 7, 9],
+  '7': [0, 4, 7, 10],
+  'm7': [0, 3, 7, 10],
+  'maj7': [0, 4, 7, 11],
+  'm7b5': [0, 3, 6, 10],
+  'dim7': [0, 3, 6, 9],
+  '7sus4': [0, 5, 7, 10],
+  'add9': [0, 4, 7, 14],
+  '9': [0, 4, 7, 10, 14],
+  'm9': [0, 3, 7, 10, 14],
+  'maj9': [0, 4, 7, 11, 14],
+  '7b9': [0, 4, 7, 10, 13],
+  '13': [0, 4, 7, 10, 14, 21],
+};
+
+const normalizeQuality = (quality: string): string => {
+  const q = quality.trim();
+  const lower = q.toLowerCase();
+  if (q === 'M' || q === 'Δ' || lower === 'maj' || lower === 'major') return 'maj';
+  if (lower === 'ø' || lower === 'half-dim' || lower === 'm7b5') return 'm7b5';
+  if (lower.startsWith('dim') || q === '°') return 'dim';
+  if (lower.startsWith('aug') || q === '+') return 'aug';
+  if (lower === 'sus2') return 'sus2';
+  if (lower.startsWith('sus')) return 'sus4';
+  if (lower === 'm' || lower === 'min' || lower === 'minor' || q === '-') return 'm';
+  return '';
+};
+
+/** Reduces the free-form quality/extension pair to one of the CHORD_INTERVALS keys. */
+export const canonicalChordType = ({ quality, extension }: Pick<ChordEvent, 'quality' | 'extension'>): string => {
+  const q = normalizeQuality(quality);
+  const ext = extension.trim().toLowerCase().replace(/[()]/g, '');
+  const has = (token: string) => ext.includes(token);
+  const number = parseInt(ext.replace(/^\D*/, ''), 10) || 0;
+
+  switch (q) {
+    case 'm7b5': return 'm7b5';
+    case 'aug': return 'aug';
+    case 'sus2': return 'sus2';
+    case 'sus4': return has('7') || number >= 7 ? '7sus4' : 'sus4';
+    case 'dim':
+      return has('7') ? 'dim7' : 'dim';
+    case 'm':
+      if (has('7b5') || has('b5')) return 'm7b5';
+      if (number === 6) return 'm6';
+      if (number >= 9) return 'm9';
+      if (number === 7 || has('7')) return 'm7';
+      return 'm';
+    case 'maj':
+      if (number === 6) return '6';
+      if (number >= 9) return 'maj9';
+      if (number === 7 || has('7')) return 'maj7';
+      return '';
+    default:
+      if (has('add9') || has('add2')) return 'add9';
+      if (has('sus4')) return has('7') ? '7sus4' : 'sus4';
+      if (has('sus2')) return 'sus2';
+      if (has('maj7') || has('maj9')) return has('9') ? 'maj9' : 'maj7';
+      if (has('b9')) return '7b9';
+      if (number === 6) return '6';
+      if (number >= 13) return '13';
+      if (number >= 9) return '9';
+      if (number === 7 || has('7')) return '7';
+      return '';
+  }
+};
+
+const INTERMEDIATE_TYPES: Record<string, string> = {
+  'add9': '', '9': '7', '13': '7', '7b9': '7', 'm9': 'm7', 'maj9': 'maj7',
+};
+
+/** Chord type as shown at a given complexity level (Basic: triads, Intermediate: sevenths). */
+export const simplifyChordType = (type: string, level: AnalysisLevel): string => {
+  if (level === 'Advanced') return type;
+  if (level === 'Intermediate') return INTERMEDIATE_TYPES[type] ?? type;
+  if (type === 'dim' || type === 'dim7' || type === 'm7b5') return 'dim';
+  if (type === 'aug') return 'aug';
+  return type.startsWith('m') && !type.startsWith('maj') ? 'm' : '';
+};
+
+// --- KEY REGIONS ---
+
+/** Key label in effect at `seconds`: the covering key region, or the main key. */
+export const keyAtTime = (analysis: Pick<SongAnalysis, 'key' | 'keyRegions'>, seconds: number): string => {
+  const region = analysis.keyRegions?.find(r => seconds >= r.startTime - 0.05 && seconds < r.endTime);
+  return region?.key || analysis.key;
+};
+
+/** Share of chord time (0..1) whose triad fits the key (minor counts its leading tone). N.C. is ignored. */
+export const keyFit = (chords: ChordEvent[], key: KeyInfo): number => {
+  const scale = key.mode === 'major' ? [0, 2, 4, 5, 7, 9, 11] : [0, 2, 3, 5, 7, 8, 10, 11];
+  const inKey = new Set(scale.map(i => mod12(key.tonic + i)));
+  let fitting = 0;
+  let total = 0;
+  for (const chord of chords) {
+    const root = noteToPitchClass(chord.root);
+    if (root === null) continue;
+    const triad = CHORD_INTERVALS[simplifyChordType(canonicalChordType(chord), 'Basic')] || CHORD_INTERVALS[''];
+    total += chord.duration;
+    if (triad.every(i => inKey.has(mod12(root + i)))) fitting += chord.duration;
+  }
+  return total > 0 ? fitting / total : 1;
+};
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { detectPitch, createPitchTracker, frequencyToMidi } from './pitchDetector';
+
+const SAMPLE_RATE = 44100;
+
+/** A plucked-string-like tone: fundamental plus two weaker harmonics. */
+const tone = (frequency: number, length = 4096) =>
+  new Float32Array(length).map((_, i) => {
+    const t = (2 * Math.PI * frequency * i) / SAMPLE_RATE;
+    return 0.5 * Math.sin(t) + 0.2 * Math.sin(2 * t) + 0.1 * Math.sin(3 * t);
+  });
+
+describe('detectPitch', () => {
+  it.each([82.41, 196, 440, 987.77])('finds %f Hz within a few cents', (frequency) => {
+    const estimate = detectPitch(tone(frequency), SAMPLE_RATE)!;
+    expect(Math.abs(frequencyToMidi(estimate.frequency) - frequencyToMidi(frequency)) * 100).toBeLessThan(5);
+    expect(estimate.clarity).toBeGreaterThan(0.9);
+  });
+
+  it('returns null for silence', () => {
+    expect(detectPitch(new Float32Array(4096), SAMPLE_RATE)).toBeNull();
+  });
+});
+
+describe('createPitchTracker', () => {
+  const push = (tracker: ReturnType<typeof createPitchTracker>, frequencies: (number | null)[]) =>
+    frequencies.map(f => {
+      const reading = tracker.push(f === null ? null : { frequency: f, clarity: 0.95 });
+      return reading && `${reading.note}${reading.octave}`;
+    });
+
+  it('keeps the current note through a single octave error', () => {
+    expect(push(createPitchTracker(), [440, 440, 440, 880, 440, 440])).toEqual(['A4', 'A4', 'A4', 'A4', 'A4', 'A4']);
+  });
+
+  it('switches once a new note has held for a few frames', () => {
+    expect(push(createPitchTracker(), [440, 440, 659.26, 659.26, 659.26])).toEqual(['A4', 'A4', 'A4', 'A4', 'E5']);
+  });
+
+  it('holds the last note through short dropouts', () => {
+    const readings = push(createPitchTracker(), [440, ...Array(10).fill(null), null]);
+    expect(readings[10]).toBe('A4');
+    expect(readings[11]).toBeNull();
+  });
+});
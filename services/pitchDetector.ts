@@ -0,0 +1,180 @@
+import { fft } from "./dsp";
+import { SHARP_NAMES } from "./musicTheory";
+
+// --- CONFIGURATION ---
+export const DEFAULT_A4 = 440;
+export const MIN_A4 = 432;
+export const MAX_A4 = 446;
+
+const MIN_FREQUENCY = 30;    // Below a 5-string bass low B
+const MAX_FREQUENCY = 2000;
+const NOISE_GATE_RMS = 0.01;
+const PEAK_THRESHOLD = 0.9;  // Take the first NSDF peak within this fraction of the highest one
+const MIN_CLARITY = 0.6;     // Weaker peaks are noise or chords, not a single pitch
+
+// --- TYPES ---
+
+export interface PitchEstimate {
+  frequency: number;
+  clarity: number; // 0..1, height of the NSDF peak
+}
+
+export interface NoteReading {
+  note: string;    // Pitch class name, e.g. "F#"
+  octave: number;  // Scientific pitch notation, A4 = MIDI 69
+  midi: number;
+  cents: number;   // Rounded deviation from the equal-tempered note
+  frequency: number;
+  stability: number; // 0..1, how steady the pitch has been over the recent frames
+}
+
+// --- DETECTION ---
+
+/**
+ * McLeod Pitch Method: the normalized square difference function is built
+ * from an FFT autocorrelation, so a frame costs O(n log n) instead of O(n²).
+ * Returns null for silence or when no clear period is found.
+ */
+export const detectPitch = (buffer: Float32Array, sampleRate: number): PitchEstimate | null => {
+  const n = buffer.length;
+  let energy = 0;
+  for (let i = 0; i < n; i++) energy += buffer[i] * buffer[i];
+  if (Math.sqrt(energy / n) < NOISE_GATE_RMS) return null;
+
+  // Autocorrelation via the power spectrum, zero-padded so it doesn't wrap around
+  let size = 1;
+  while (size < n * 2) size <<= 1;
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  for (let i = 0; i < n; i++) re[i] = buffer[i];
+  fft(re, im);
+  for (let k = 0; k < size; k++) {
+    re[k] = re[k] * re[k] + im[k] * im[k];
+    im[k] = 0;
+  }
+  fft(re, im); // The spectrum is real and even, so the forward transform inverts it up to 1/size
+
+  const minLag = Math.max(2, Math.floor(sampleRate / MAX_FREQUENCY));
+  const maxLag = Math.min(n - 2, Math.ceil(sampleRate / MIN_FREQUENCY));
+  const nsdf = new Float64Array(maxLag + 2);
+  let m = 2 * energy;
+  for (let lag = 0; lag < nsdf.length; lag++) {
+    if (lag > 0) m -= buffer[lag - 1] * buffer[lag - 1] + buffer[n - lag] * buffer[n - lag];
+    nsdf[lag] = m > 0 ? (2 * re[lag]) / size / m : 0;
+  }
+
+  // Key maxima: the highest point between each positive-going and negative-going zero crossing
+  const peaks: number[] = [];
+  let lag = 1;
+  while (lag < maxLag && nsdf[lag] > 0) lag++; // Skip the lobe around lag 0
+  while (lag < maxLag) {
+    while (lag < maxLag && nsdf[lag] <= 0) lag++;
+    let best = -1;
+    while (lag < maxLag && nsdf[lag] > 0) {
+      if (lag >= minLag && (best < 0 || nsdf[lag] > nsdf[best])) best = lag;
+      lag++;
+    }
+    if (best > 0) peaks.push(best);
+  }
+  if (!peaks.length) return null;
+
+  const highest = Math.max(...peaks.map(p => nsdf[p]));
+  const chosen = peaks.find(p => nsdf[p] >= highest * PEAK_THRESHOLD)!;
+  if (nsdf[chosen] < MIN_CLARITY) return null;
+
+  // Parabolic interpolation around the peak
+  const a = nsdf[chosen - 1], b = nsdf[chosen], c = nsdf[chosen + 1];
+  const denominator = a - 2 * b + c;
+  const shift = denominator !== 0 ? (a - c) / (2 * denominator) : 0;
+  const period = chosen + shift;
+  const clarity = Math.min(1, b - ((a - c) * shift) / 4);
+  return { frequency: sampleRate / period, clarity };
+};
+
+// --- NOTES ---
+
+/** Fractional MIDI note number of a frequency against a given A4. */
+export const frequencyToMidi = (frequency: number, referenceA4 = DEFAULT_A4): number =>
+  69 + 12 * Math.log2(frequency / referenceA4);
+
+export const midiToFrequency = (midi: number, referenceA4 = DEFAULT_A4): number =>
+  referenceA4 * Math.pow(2, (midi - 69) / 12);
+
+export const noteName = (midi: number) => ({ note: SHARP_NAMES[((midi % 12) + 12) % 12], octave: Math.floor(midi / 12) - 1 });
+
+// --- TRACKING ---
+
+export interface PitchTracker {
+  /** Feeds one frame's estimate (null for silence) and returns the smoothed reading, if any. */
+  push: (estimate: PitchEstimate | null) => NoteReading | null;
+  reset: () => void;
+}
+
+const HISTORY = 7;          // Frames the median runs over
+const HOLD_FRAMES = 10;     // Keep showing the last note through short dropouts
+const SAME_NOTE_CENTS = 60; // Readings further apart than this belong to different notes
+const NEW_NOTE_FRAMES = 3;  // Frames a different note must last before it replaces the current one
+
+const medianOf = (values: number[]) => [...values].sort((x, y) => x - y)[values.length >> 1];
+
+/**
+ * Smooths frame-by-frame estimates: a running median in cents rejects small
+ * glitches, and a reading far from that median only takes over once it has
+ * held for a few frames, so a lone octave error keeps showing the current
+ * note. Stability combines clarity with how little the recent readings spread.
+ */
+export const createPitchTracker = (referenceA4 = DEFAULT_A4): PitchTracker => {
+  let history: { midi: number; clarity: number }[] = [];
+  let pending: { midi: number; clarity: number }[] = []; // A possible new note, not shown yet
+  let misses = 0;
+  let last: NoteReading | null = null;
+
+  return {
+    push: (estimate) => {
+      if (!estimate) {
+        misses++;
+        if (misses > HOLD_FRAMES) {
+          history = [];
+          pending = [];
+          last = null;
+        }
+        return last;
+      }
+      misses = 0;
+      const reading = { midi: frequencyToMidi(estimate.frequency, referenceA4), clarity: estimate.clarity };
+      const current = history.length ? medianOf(history.map(h => h.midi)) : reading.midi;
+      if (Math.abs(reading.midi - current) * 100 > SAME_NOTE_CENTS) {
+        const consistent = pending.length && Math.abs(reading.midi - pending[0].midi) * 100 <= SAME_NOTE_CENTS;
+        pending = consistent ? [...pending, reading] : [reading];
+        if (pending.length < NEW_NOTE_FRAMES) return last;
+        history = pending;
+      } else {
+        history.push(reading);
+      }
+      pending = [];
+      if (history.length > HISTORY) history.shift();
+
+      const median = medianOf(history.map(h => h.midi));
+      const spread = Math.sqrt(history.reduce((sum, h) => sum + (h.midi - median) ** 2, 0) / history.length) * 100;
+      const clarity = history.reduce((sum, h) => sum + h.clarity, 0) / history.length;
+      // A fresh note needs a few frames before it counts as stable
+      const settled = history.length / HISTORY;
+
+      const nearest = Math.round(median);
+      last = {
+        ...noteName(nearest),
+        midi: nearest,
+        cents: Math.round((median - nearest) * 100),
+        frequency: midiToFrequency(median, referenceA4),
+        stability: Math.max(0, Math.min(1, clarity * settled * (1 - spread / 25))),
+      };
+      return last;
+    },
+    reset: () => {
+      history = [];
+      pending = [];
+      misses = 0;
+      last = null;
+    },
+  };
+};
@@ -0,0 +1,137 @@
+import { getAudioContextClass, loadWorkletModule } from "./audioUtils";
+
+// --- PITCH SHIFTER WORKLET ---
+// Two crossfaded read taps sweep through a delay line (a granular "Doppler"
+// shifter): it changes pitch without touching duration, so the <audio>
+// element keeps owning the transport and its currentTime stays authoritative.
+
+const GRAIN_SAMPLES = 2048; // ~45 ms; longer grains smear transients, shorter ones buzz
+
+const PITCH_SHIFTER_SOURCE = `
+const GRAIN = ${GRAIN_SAMPLES};
+const SIZE = 8192; // Ring buffer, power of two larger than a grain
+
+class PitchShifter extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [{ name: 'pitchRatio', defaultValue: 1, minValue: 0.25, maxValue: 4, automationRate: 'k-rate' }];
+  }
+
+  constructor() {
+    super();
+    this.buffers = [];
+    this.write = 0;
+    this.phase = 0;
+  }
+
+  read(buffer, delay) {
+    const position = this.write - delay;
+    const index = Math.floor(position);
+    const frac = position - index;
+    const a = buffer[index & (SIZE - 1)];
+    const b = buffer[(index + 1) & (SIZE - 1)];
+    return a + (b - a) * frac;
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const output = outputs[0];
+    const ratio = parameters.pitchRatio[0];
+    while (this.buffers.length < output.length) this.buffers.push(new Float32Array(SIZE));
+    const step = (1 - ratio) / GRAIN;
+
+    for (let i = 0; i < output[0].length; i++) {
+      const phaseB = (this.phase + 0.5) % 1;
+      // sin² crossfade: the two taps always sum to unity gain
+      const weightA = Math.sin(Math.PI * this.phase) ** 2;
+      const weightB = 1 - weightA;
+      for (let ch = 0; ch < output.length; ch++) {
+        const source = input[ch] || input[0];
+        const x = source ? source[i] : 0;
+        const buffer = this.buffers[ch];
+        buffer[this.write] = x;
+        output[ch][i] = ratio === 1
+          ? x
+          : this.read(buffer, 1 + this.phase * GRAIN) * weightA + this.read(buffer, 1 + phaseB * GRAIN) * weightB;
+      }
+      this.write = (this.write + 1) & (SIZE - 1);
+      this.phase += step;
+      this.phase -= Math.floor(this.phase);
+    }
+    return true;
+  }
+}
+
+registerProcessor('pitch-shifter', PitchShifter);
+`;
+
+// --- ENGINE ---
+
+export interface PlaybackEngine {
+  /** Shifts the pitch of the audio element by semitones; speed stays with `playbackRate`. */
+  setSemitones: (semitones: number) => Promise<void>;
+  /** Must run from a user gesture before playing once the audio is routed through Web Audio. */
+  resume: () => Promise<void>;
+  /** Media time of what is currently audible (compensates the shifter delay). */
+  getCurrentTime: () => number;
+  dispose: () => void;
+}
+
+/**
+ * Routes an <audio> element through a pitch-shifting AudioWorklet. The graph
+ * is only built the first time a shift is requested; until then the element
+ * plays untouched.
+ */
+export const createPlaybackEngine = (audio: HTMLAudioElement): PlaybackEngine => {
+  let ctx: AudioContext | null = null;
+  let shifter: AudioWorkletNode | null = null;
+  let setup: Promise<void> | null = null;
+  let ratio = 1;
+
+  audio.preservesPitch = true; // Speed changes keep the pitch; pitch changes go through the worklet
+
+  const connect = (): Promise<void> => {
+    if (!setup) {
+      setup = (async () => {
+        const AudioContextClass = getAudioContextClass();
+        const context = new AudioContextClass();
+        try {
+          // Load the worklet before capturing the element, so a failure leaves playback untouched
+          await loadWorkletModule(context, PITCH_SHIFTER_SOURCE);
+        } catch (err) {
+          context.close();
+          throw err;
+        }
+        const source = context.createMediaElementSource(audio);
+        shifter = new AudioWorkletNode(context, 'pitch-shifter', { outputChannelCount: [2] });
+        source.connect(shifter).connect(context.destination);
+        ctx = context;
+      })();
+      setup.catch(() => { setup = null; });
+    }
+    return setup;
+  };
+
+  return {
+    setSemitones: async (semitones: number) => {
+      ratio = Math.pow(2, semitones / 12);
+      if (semitones === 0 && !setup) return;
+      await connect();
+      if (ctx && ctx.state === 'suspended') await ctx.resume();
+      shifter!.parameters.get('pitchRatio')!.setValueAtTime(ratio, ctx!.currentTime);
+    },
+    resume: async () => {
+      if (ctx && ctx.state === 'suspended') await ctx.resume();
+    },
+    getCurrentTime: () => {
+      if (!ctx || ratio === 1) return audio.currentTime;
+      // The taps read on average half a grain behind the input
+      const delay = (GRAIN_SAMPLES / 2 / ctx.sampleRate) * audio.playbackRate;
+      return Math.max(0, audio.currentTime - delay);
+    },
+    dispose: () => {
+      ctx?.close();
+      ctx = null;
+      shifter = null;
+    },
+  };
+};
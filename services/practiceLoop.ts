@@ -0,0 +1,43 @@
+import { SongAnalysis, SectionEvent, PracticeLoop } from "../types";
+import { formatTimestamp } from "./analysisValidator";
+
+// --- CONFIGURATION ---
+export const MIN_LOOP_SECONDS = 0.5;
+export const RAMP_START_RATE = 0.5; // Speed of the first pass when ramping up
+const MAX_RATE = 1.0;
+
+// --- LOOPS ---
+
+/** Orders two points into a loop. Returns null if the range is too short to practice. */
+export const createLoop = (a: number, b: number, name?: string): PracticeLoop | null => {
+  const start = Math.max(0, Math.min(a, b));
+  const end = Math.max(a, b);
+  if (end - start < MIN_LOOP_SECONDS) return null;
+  const rounded = (t: number) => Math.round(t * 100) / 100;
+  return { name: name || `${formatTimestamp(start)}–${formatTimestamp(end)}`, start: rounded(start), end: rounded(end) };
+};
+
+export const sectionLoop = (section: SectionEvent): PracticeLoop | null =>
+  createLoop(section.startTime, section.endTime, section.name);
+
+/** Playback rate for a given repeat (0 = first pass) when ramping up by `step` per repeat. */
+export const rampedRate = (repeat: number, step: number): number =>
+  Math.min(MAX_RATE, Math.round((RAMP_START_RATE + repeat * step) * 100) / 100);
+
+const sameRange = (a: PracticeLoop, b: PracticeLoop) => a.start === b.start && a.end === b.end;
+
+/** Adds a loop to the song, replacing a saved loop over the same range. */
+export const saveLoop = (analysis: SongAnalysis, loop: PracticeLoop): SongAnalysis => {
+  const loops = analysis.loops || [];
+  const existing = loops.findIndex(l => sameRange(l, loop));
+  if (existing >= 0 && loops[existing].name === loop.name) return analysis;
+  const next = existing >= 0 ? loops.map((l, i) => (i === existing ? loop : l)) : [...loops, loop];
+  return { ...analysis, loops: next.sort((a, b) => a.start - b.start) };
+};
+
+export const deleteLoop = (analysis: SongAnalysis, index: number): SongAnalysis => {
+  if (!analysis.loops?.[index]) return analysis;
+  const loops = analysis.loops.filter((_, i) => i !== index);
+  const { loops: _removed, ...rest } = analysis;
+  return loops.length ? { ...rest, loops } : rest;
+};
@@ -0,0 +1,93 @@
+import { encodeWav } from "./audioUtils";
+
+// --- CONFIGURATION ---
+const TRIM_SAMPLE_RATE = 22050; // Trimmed takes are re-encoded as mono WAV at this rate
+const CLIP_LEVEL = 0.99;
+const SILENCE_THRESHOLD = 0.02; // Peak level below which a 50 ms block counts as silence
+const SILENCE_BLOCK_SECONDS = 0.05;
+const TRIM_PADDING = 0.15;      // Seconds of lead-in kept before the first sound
+
+// --- INPUT DEVICES ---
+
+/** Audio inputs; labels are only filled in once microphone permission has been granted. */
+export const listInputDevices = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'audioinput');
+};
+
+export const openInput = (deviceId?: string): Promise<MediaStream> =>
+  navigator.mediaDevices.getUserMedia({ audio: deviceId ? { deviceId: { exact: deviceId } } : true });
+
+// --- LEVEL METER ---
+
+export interface InputLevel {
+  rms: number;  // 0..1
+  peak: number; // 0..1
+  clipped: boolean;
+}
+
+export interface LevelMeter {
+  read: () => InputLevel;
+  dispose: () => void;
+}
+
+/** Taps a stream with an AnalyserNode; `read` is cheap enough to call every frame. */
+export const createLevelMeter = (stream: MediaStream, ctx: AudioContext): LevelMeter => {
+  const source = ctx.createMediaStreamSource(stream);
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 2048;
+  source.connect(analyser);
+  const buffer = new Float32Array(analyser.fftSize);
+
+  return {
+    read: () => {
+      analyser.getFloatTimeDomainData(buffer);
+      let sum = 0;
+      let peak = 0;
+      for (let i = 0; i < buffer.length; i++) {
+        const v = Math.abs(buffer[i]);
+        sum += v * v;
+        if (v > peak) peak = v;
+      }
+      return { rms: Math.sqrt(sum / buffer.length), peak, clipped: peak >= CLIP_LEVEL };
+    },
+    dispose: () => {
+      source.disconnect();
+      analyser.disconnect();
+    },
+  };
+};
+
+// --- TRIM ---
+
+/** First and last moments with sound, padded slightly so attacks aren't clipped. */
+export const detectSoundBounds = (buffer: AudioBuffer): { start: number; end: number } => {
+  const samples = buffer.getChannelData(0);
+  const block = Math.max(1, Math.round(SILENCE_BLOCK_SECONDS * buffer.sampleRate));
+  const loud = (from: number) => {
+    for (let i = from; i < Math.min(samples.length, from + block); i++) if (Math.abs(samples[i]) > SILENCE_THRESHOLD) return true;
+    return false;
+  };
+  let first = 0;
+  while (first < samples.length && !loud(first)) first += block;
+  let last = Math.floor((samples.length - 1) / block) * block;
+  while (last > first && !loud(last)) last -= block;
+  if (first >= samples.length) return { start: 0, end: buffer.duration };
+  return {
+    start: Math.max(0, first / buffer.sampleRate - TRIM_PADDING),
+    end: Math.min(buffer.duration, (last + block) / buffer.sampleRate + TRIM_PADDING),
+  };
+};
+
+/** Renders `start`..`end` of a take to a mono WAV file. */
+export const trimToWav = async (buffer: AudioBuffer, start: number, end: number, name: string): Promise<File> => {
+  const length = Math.max(1, Math.ceil((end - start) * TRIM_SAMPLE_RATE));
+  const offline = new OfflineAudioContext(1, length, TRIM_SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start(0, start, end - start);
+  const rendered = await offline.startRendering();
+  return new File([encodeWav(rendered.getChannelData(0), TRIM_SAMPLE_RATE)], name, { type: 'audio/wav' });
+};
@@ -0,0 +1,178 @@
+import { SongAnalysis, AudioMetadata, LibraryEntry } from "../types";
+import { validateSongAnalysis } from "./analysisValidator";
+
+// --- DATABASE ---
+
+const DB_NAME = 'chord-ia-library';
+const DB_VERSION = 1;
+const SONG_STORE = 'songs';
+const AUDIO_STORE = 'audio'; // Blobs keyed by song id
+
+const EXPORT_FORMAT = 'chord-ia-analysis';
+const EXPORT_VERSION = 1;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("This browser does not support local storage of songs (IndexedDB unavailable)."));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SONG_STORE)) db.createObjectStore(SONG_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(AUDIO_STORE)) db.createObjectStore(AUDIO_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error("Failed to open the song library."));
+  });
+  // Allow a retry if opening failed (e.g. private mode quota errors)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Library transaction aborted."));
+  });
+
+const createId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// --- CRUD ---
+
+export const listSongs = async (): Promise<LibraryEntry[]> => {
+  const db = await openDatabase();
+  const entries = await requestToPromise(db.transaction(SONG_STORE).objectStore(SONG_STORE).getAll() as IDBRequest<LibraryEntry[]>);
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getSong = async (id: string): Promise<LibraryEntry | null> => {
+  const db = await openDatabase();
+  const entry = await requestToPromise(db.transaction(SONG_STORE).objectStore(SONG_STORE).get(id) as IDBRequest<LibraryEntry | undefined>);
+  return entry || null;
+};
+
+export const getSongAudio = async (id: string): Promise<Blob | null> => {
+  const db = await openDatabase();
+  const blob = await requestToPromise(db.transaction(AUDIO_STORE).objectStore(AUDIO_STORE).get(id) as IDBRequest<Blob | undefined>);
+  return blob || null;
+};
+
+export const saveSong = async (analysis: SongAnalysis, metadata: AudioMetadata, audio?: Blob | null): Promise<LibraryEntry> => {
+  const db = await openDatabase();
+  const now = Date.now();
+  const { audioUrl, ...storedMetadata } = metadata;
+  const entry: LibraryEntry = {
+    id: createId(),
+    analysis,
+    metadata: storedMetadata,
+    hasAudio: !!audio,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const tx = db.transaction([SONG_STORE, AUDIO_STORE], 'readwrite');
+  tx.objectStore(SONG_STORE).put(entry);
+  if (audio) tx.objectStore(AUDIO_STORE).put(audio, entry.id);
+  await transactionDone(tx);
+  return entry;
+};
+
+const updateSong = async (id: string, update: (entry: LibraryEntry) => LibraryEntry): Promise<LibraryEntry> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SONG_STORE, 'readwrite');
+  const store = tx.objectStore(SONG_STORE);
+  const current = await requestToPromise(store.get(id) as IDBRequest<LibraryEntry | undefined>);
+  if (!current) throw new Error("Song not found in the library.");
+  const next = { ...update(current), id, updatedAt: Date.now() };
+  store.put(next);
+  await transactionDone(tx);
+  return next;
+};
+
+export const renameSong = (id: string, title: string): Promise<LibraryEntry> =>
+  updateSong(id, entry => ({ ...entry, analysis: { ...entry.analysis, title: title.trim() || entry.analysis.title } }));
+
+/** Replaces the stored analysis but keeps the stored title; the open view may not have seen a rename. */
+export const updateSongAnalysis = (id: string, analysis: SongAnalysis): Promise<LibraryEntry> =>
+  updateSong(id, entry => ({ ...entry, analysis: { ...analysis, title: entry.analysis.title } }));
+
+export const deleteSong = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SONG_STORE, AUDIO_STORE], 'readwrite');
+  tx.objectStore(SONG_STORE).delete(id);
+  tx.objectStore(AUDIO_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+// --- SEARCH ---
+
+/** Case-insensitive match of every query word against title, artist, key and file name. */
+export const filterSongs = (entries: LibraryEntry[], query: string): LibraryEntry[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!words.length) return entries;
+  return entries.filter(({ analysis, metadata }) => {
+    const haystack = [analysis.title, analysis.artist, analysis.key, metadata.fileName].join(' ').toLowerCase();
+    return words.every(word => haystack.includes(word));
+  });
+};
+
+// --- JSON IMPORT / EXPORT ---
+
+interface AnalysisFile {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  analysis: SongAnalysis;
+  metadata: AudioMetadata;
+}
+
+/** Serializes an analysis for sharing. Audio is not included. */
+export const toAnalysisJson = (analysis: SongAnalysis, metadata: AudioMetadata): string => {
+  const { audioUrl, ...storedMetadata } = metadata;
+  const file: AnalysisFile = { format: EXPORT_FORMAT, version: EXPORT_VERSION, analysis, metadata: storedMetadata };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Parses an exported analysis file (or a bare SongAnalysis object) and runs it
+ * through the same validator as provider responses.
+ */
+export const parseAnalysisJson = (text: string, fallbackName = 'Imported Analysis'): { analysis: SongAnalysis; metadata: AudioMetadata } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("The selected file is not valid JSON.");
+  }
+
+  const record = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, any>;
+  const isWrapped = record.format === EXPORT_FORMAT && typeof record.analysis === 'object';
+  const rawAnalysis = isWrapped ? record.analysis : record;
+  const { analysis } = validateSongAnalysis(rawAnalysis);
+  if (rawAnalysis.engine === 'ai' || rawAnalysis.engine === 'local') analysis.engine = rawAnalysis.engine;
+
+  const rawMetadata = isWrapped && typeof record.metadata === 'object' && record.metadata ? record.metadata : {};
+  const lastChord = analysis.chords[analysis.chords.length - 1];
+  const metadata: AudioMetadata = {
+    fileName: typeof rawMetadata.fileName === 'string' && rawMetadata.fileName ? rawMetadata.fileName : analysis.title || fallbackName,
+    duration: typeof rawMetadata.duration === 'number' && rawMetadata.duration > 0
+      ? rawMetadata.duration
+      : lastChord ? lastChord.seconds + lastChord.duration : 0,
+  };
+
+  return { analysis, metadata };
+};
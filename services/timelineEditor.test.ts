@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { createHistory, pushHistory, undo, redo, updateChord, splitChord, mergeChord, moveChordBoundary, updateSection } from './timelineEditor';
+import { chordRun, song } from './fixtures/testChords';
+
+const base = song({
+  chords: chordRun(['G', 'C', 'D'], 2),
+  sections: [{ name: 'Verse', startTime: 0, endTime: 4 }, { name: 'Chorus', startTime: 4, endTime: 6 }],
+});
+
+const spans = (chords: { symbol: string; seconds: number; duration: number }[]) =>
+  chords.map(c => `${c.symbol}@${c.seconds}-${c.seconds + c.duration}`);
+
+describe('chord edits', () => {
+  it('replaces a chord and marks it certain', () => {
+    const edited = updateChord(base, 1, { root: 'A', quality: 'm', extension: '7', bass: '' });
+    expect(edited.chords[1]).toMatchObject({ symbol: 'Am7', confidence: 1 });
+    expect(updateChord(base, 1, { root: 'C', quality: '', extension: '', bass: '' })).toBe(base);
+  });
+
+  it('splits and merges without leaving gaps', () => {
+    const split = splitChord(base, 0, 1);
+    expect(spans(split.chords)).toEqual(['G@0-1', 'G@1-2', 'C@2-4', 'D@4-6']);
+    expect(spans(mergeChord(split, 2, 'next').chords)).toEqual(['G@0-1', 'G@1-2', 'C@2-6']);
+  });
+
+  it('moves a boundary together with the touching chord', () => {
+    expect(spans(moveChordBoundary(base, 1, 2.5).chords)).toEqual(['G@0-2.5', 'C@2.5-4', 'D@4-6']);
+  });
+});
+
+describe('updateSection', () => {
+  it('moves the touching neighbour with an edited bound', () => {
+    const edited = updateSection(base, 0, { endTime: 3 });
+    expect(edited.sections.map(s => [s.startTime, s.endTime])).toEqual([[0, 3], [3, 6]]);
+  });
+
+  it('ignores non-finite bounds and edits that change nothing', () => {
+    expect(updateSection(base, 0, { endTime: NaN })).toBe(base);
+    expect(updateSection(base, 0, { name: 'Verse' })).toBe(base);
+  });
+});
+
+describe('history', () => {
+  it('undoes and redoes, and skips unchanged states', () => {
+    const edited = splitChord(base, 0, 1);
+    const history = pushHistory(createHistory(base), edited);
+    expect(pushHistory(history, edited)).toBe(history);
+    expect(undo(history).present).toBe(base);
+    expect(redo(undo(history)).present).toBe(edited);
+  });
+});
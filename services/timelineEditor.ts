@@ -0,0 +1,203 @@
+import { SongAnalysis, ChordEvent, SectionEvent } from "../types";
+import { formatTimestamp } from "./analysisValidator";
+
+// --- HISTORY ---
+
+const HISTORY_LIMIT = 100;
+
+export interface EditHistory {
+  past: SongAnalysis[];
+  present: SongAnalysis;
+  future: SongAnalysis[];
+}
+
+export const createHistory = (analysis: SongAnalysis): EditHistory => ({ past: [], present: analysis, future: [] });
+
+/** Pushes a new state. No-op edits (same object) don't create history entries. */
+export const pushHistory = (history: EditHistory, next: SongAnalysis): EditHistory => {
+  if (next === history.present) return history;
+  return {
+    past: [...history.past, history.present].slice(-HISTORY_LIMIT),
+    present: next,
+    future: [],
+  };
+};
+
+export const undo = (history: EditHistory): EditHistory => {
+  if (!history.past.length) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+};
+
+export const redo = (history: EditHistory): EditHistory => {
+  if (!history.future.length) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+};
+
+// --- CHORD EDITS ---
+// Every edit returns a new SongAnalysis (or the same object when nothing changed)
+// so it can be pushed onto the history as is.
+
+const MIN_CHORD_DURATION = 0.1; // Seconds
+const TOUCH_EPSILON = 0.05;     // Neighbours closer than this are treated as adjacent
+
+export type ChordFields = Pick<ChordEvent, 'root' | 'quality' | 'extension' | 'bass'>;
+
+export const buildSymbol = ({ root, quality, extension, bass }: ChordFields): string =>
+  root === 'N.C.' ? root : `${root}${quality}${extension}${bass && bass !== root ? `/${bass}` : ''}`;
+
+const withChords = (analysis: SongAnalysis, chords: ChordEvent[]): SongAnalysis => ({ ...analysis, chords });
+
+const retime = (chord: ChordEvent, seconds: number, end: number): ChordEvent => ({
+  ...chord,
+  seconds,
+  duration: end - seconds,
+  timestamp: formatTimestamp(seconds),
+});
+
+/** Replaces the harmony of one chord. A manual correction is taken as certain. */
+export const updateChord = (analysis: SongAnalysis, index: number, fields: ChordFields): SongAnalysis => {
+  const chord = analysis.chords[index];
+  if (!chord) return analysis;
+  const isNoChord = fields.root === 'N.C.';
+  const next: ChordEvent = {
+    ...chord,
+    root: fields.root,
+    quality: isNoChord ? '' : fields.quality.trim(),
+    extension: isNoChord ? '' : fields.extension.trim(),
+    bass: isNoChord || fields.bass === fields.root ? '' : fields.bass,
+    confidence: 1,
+  };
+  next.symbol = buildSymbol(next);
+  if (next.symbol === chord.symbol && next.root === chord.root && next.bass === chord.bass) return analysis;
+  return withChords(analysis, analysis.chords.map((c, i) => (i === index ? next : c)));
+};
+
+/** Splits a chord in two at `time`; both halves keep the original harmony. */
+export const splitChord = (analysis: SongAnalysis, index: number, time: number): SongAnalysis => {
+  const chord = analysis.chords[index];
+  if (!chord) return analysis;
+  const end = chord.seconds + chord.duration;
+  if (time - chord.seconds < MIN_CHORD_DURATION || end - time < MIN_CHORD_DURATION) return analysis;
+  const chords = [...analysis.chords];
+  chords.splice(index, 1, retime(chord, chord.seconds, time), retime(chord, time, end));
+  return withChords(analysis, chords);
+};
+
+/** The chord at `index` absorbs its neighbour, keeping its own harmony. */
+export const mergeChord = (analysis: SongAnalysis, index: number, direction: 'previous' | 'next'): SongAnalysis => {
+  const chord = analysis.chords[index];
+  const neighbourIndex = direction === 'previous' ? index - 1 : index + 1;
+  const neighbour = analysis.chords[neighbourIndex];
+  if (!chord || !neighbour) return analysis;
+  const start = Math.min(chord.seconds, neighbour.seconds);
+  const end = Math.max(chord.seconds + chord.duration, neighbour.seconds + neighbour.duration);
+  const merged = { ...retime(chord, start, end), confidence: Math.min(chord.confidence, neighbour.confidence) };
+  const chords = [...analysis.chords];
+  chords.splice(Math.min(index, neighbourIndex), 2, merged);
+  return withChords(analysis, chords);
+};
+
+/**
+ * Moves the start of chord `index` to `time`. When the previous chord ends where
+ * this one starts, its end moves with it so the timeline stays gapless.
+ */
+export const moveChordBoundary = (analysis: SongAnalysis, index: number, time: number): SongAnalysis => {
+  const chord = analysis.chords[index];
+  if (!chord) return analysis;
+  const previous = analysis.chords[index - 1];
+  const end = chord.seconds + chord.duration;
+  const touches = previous && Math.abs(previous.seconds + previous.duration - chord.seconds) < TOUCH_EPSILON;
+
+  const lower = previous ? (touches ? previous.seconds + MIN_CHORD_DURATION : previous.seconds + previous.duration) : 0;
+  const upper = end - MIN_CHORD_DURATION;
+  const clamped = Math.round(Math.max(lower, Math.min(upper, time)) * 100) / 100;
+  if (clamped === chord.seconds || lower > upper) return analysis;
+
+  const chords = analysis.chords.map((c, i) => {
+    if (i === index) return retime(c, clamped, end);
+    if (touches && i === index - 1) return retime(c, c.seconds, clamped);
+    return c;
+  });
+  return withChords(analysis, chords);
+};
+
+/**
+ * Moves every chord change onto the nearest measured beat (within half a beat).
+ * Changes that would collapse onto an earlier one keep their original time.
+ */
+export const alignChordsToBeats = (analysis: SongAnalysis, beats: number[]): SongAnalysis => {
+  if (beats.length < 2 || !analysis.chords.length) return analysis;
+  const tolerance = ((beats[beats.length - 1] - beats[0]) / (beats.length - 1)) / 2;
+  const nearestBeat = (time: number) =>
+    beats.reduce((best, beat) => (Math.abs(beat - time) < Math.abs(best - time) ? beat : best), beats[0]);
+
+  const starts: number[] = [];
+  analysis.chords.forEach((chord, i) => {
+    const beat = nearestBeat(chord.seconds);
+    const floor = i > 0 ? starts[i - 1] + MIN_CHORD_DURATION : 0;
+    const snapped = Math.abs(beat - chord.seconds) <= tolerance && beat >= floor ? beat : Math.max(floor, chord.seconds);
+    starts.push(Math.round(snapped * 1000) / 1000);
+  });
+
+  let changed = false;
+  const chords = analysis.chords.map((chord, i) => {
+    const end = chord.seconds + chord.duration;
+    const next = analysis.chords[i + 1];
+    // Touching chords stay touching; a gap before the next chord is kept
+    const newEnd = next && Math.abs(next.seconds - end) < TOUCH_EPSILON ? starts[i + 1] : Math.max(end, starts[i] + MIN_CHORD_DURATION);
+    if (starts[i] === chord.seconds && newEnd === end) return chord;
+    changed = true;
+    return retime(chord, starts[i], newEnd);
+  });
+  return changed ? withChords(analysis, chords) : analysis;
+};
+
+// --- SECTION EDITS ---
+
+/**
+ * Updates name, color or bounds of a section. Bounds are clamped to stay ordered,
+ * and a touching neighbour's edge follows a moved boundary. Non-finite bounds are
+ * rejected, and a patch that changes nothing returns `analysis` itself.
+ */
+export const updateSection = (analysis: SongAnalysis, index: number, patch: Partial<SectionEvent>): SongAnalysis => {
+  const section = analysis.sections[index];
+  if (!section) return analysis;
+  if (patch.startTime !== undefined && !Number.isFinite(patch.startTime)) return analysis;
+  if (patch.endTime !== undefined && !Number.isFinite(patch.endTime)) return analysis;
+  const previous = analysis.sections[index - 1];
+  const next = analysis.sections[index + 1];
+  const touchesPrevious = previous && Math.abs(previous.endTime - section.startTime) < TOUCH_EPSILON;
+  const touchesNext = next && Math.abs(next.startTime - section.endTime) < TOUCH_EPSILON;
+
+  let startTime = patch.startTime ?? section.startTime;
+  let endTime = patch.endTime ?? section.endTime;
+  startTime = Math.max(previous ? (touchesPrevious ? previous.startTime : previous.endTime) + MIN_CHORD_DURATION : 0, startTime);
+  endTime = Math.max(startTime + MIN_CHORD_DURATION, endTime);
+  if (next) endTime = Math.min((touchesNext ? next.endTime : next.startTime) - MIN_CHORD_DURATION, endTime);
+  if (endTime <= startTime) return analysis;
+
+  const updated: SectionEvent = {
+    ...section,
+    ...patch,
+    name: (patch.name ?? section.name).trim() || section.name,
+    startTime,
+    endTime,
+  };
+  if ((Object.keys(updated) as (keyof SectionEvent)[]).every(field => updated[field] === section[field])) return analysis;
+
+  const sections = analysis.sections.map((s, i) => {
+    if (i === index) return updated;
+    if (touchesPrevious && i === index - 1) return { ...s, endTime: startTime };
+    if (touchesNext && i === index + 1) return { ...s, startTime: endTime };
+    return s;
+  });
+  return { ...analysis, sections };
+};
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { planWindows, stitchWindowResults, WindowResult } from './timelineStitcher';
+import { chord, song } from './fixtures/testChords';
+
+const windowResult = (index: number, startTime: number, endTime: number, chords: ReturnType<typeof chord>[]): WindowResult => ({
+  window: { index, startTime, endTime },
+  analysis: song({ chords, sections: [{ name: 'Verse', startTime: 0, endTime: endTime - startTime }] }),
+});
+
+const summary = (chords: { symbol: string; seconds: number; duration: number }[]) =>
+  chords.map(c => `${c.symbol}@${c.seconds}-${c.seconds + c.duration}`);
+
+describe('planWindows', () => {
+  it('overlaps windows and lets the last one run to the end', () => {
+    const windows = planWindows(100, { windowSeconds: 40, overlapSeconds: 10, minTailSeconds: 15 });
+    expect(windows.map(w => [w.startTime, w.endTime])).toEqual([[0, 40], [30, 70], [60, 100]]);
+  });
+
+  it('absorbs a short tail into the previous window', () => {
+    const windows = planWindows(75, { windowSeconds: 40, overlapSeconds: 10, minTailSeconds: 15 });
+    expect(windows.map(w => [w.startTime, w.endTime])).toEqual([[0, 40], [30, 75]]);
+  });
+});
+
+describe('stitchWindowResults', () => {
+  it('joins a chord heard on both sides of a seam into one event', () => {
+    const stitched = stitchWindowResults([
+      windowResult(0, 0, 40, [chord('G', 0, 20), chord('C', 20, 20)]),
+      windowResult(1, 30, 70, [chord('C', 0, 10), chord('D', 10, 30)]),
+    ], 70);
+    expect(summary(stitched.chords)).toEqual(['G@0-20', 'C@20-40', 'D@40-70']);
+  });
+
+  it('lets the more confident window keep its chord where the windows disagree', () => {
+    const stitched = stitchWindowResults([
+      windowResult(0, 0, 40, [chord('G', 0, 30), chord('C', 30, 10, { confidence: 0.9 })]),
+      windowResult(1, 30, 70, [chord('A', 0, 10, { quality: 'm', confidence: 0.5 }), chord('D', 10, 30)]),
+    ], 70);
+    expect(summary(stitched.chords)).toEqual(['G@0-30', 'C@30-40', 'D@40-70']);
+  });
+
+  it('keeps one section across the seam and covers the whole duration', () => {
+    const stitched = stitchWindowResults([
+      windowResult(0, 0, 40, [chord('G', 0, 40)]),
+      windowResult(1, 30, 70, [chord('G', 0, 40)]),
+    ], 70);
+    expect(stitched.sections).toEqual([{ name: 'Verse', startTime: 0, endTime: 70 }]);
+    expect(summary(stitched.chords)).toEqual(['G@0-70']);
+  });
+});
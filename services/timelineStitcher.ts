@@ -0,0 +1,236 @@
+import { SongAnalysis, ChordEvent, SectionEvent, KeyRegion } from "../types";
+import { formatTimestamp } from "./analysisValidator";
+
+// --- TYPES ---
+
+export interface AudioWindow {
+  index: number;
+  startTime: number; // Seconds, in the full recording
+  endTime: number;
+}
+
+export interface WindowResult {
+  window: AudioWindow;
+  analysis: SongAnalysis; // Times relative to window.startTime
+}
+
+export interface WindowPlan {
+  windowSeconds: number;
+  overlapSeconds: number;
+  minTailSeconds: number; // A trailing window shorter than this is absorbed by the previous one
+}
+
+// --- CONSTANTS ---
+const MIN_CHORD_SECONDS = 0.2; // Slivers left over after clipping are dropped
+const MAX_GAP_FILL = 1.0;      // Gaps up to this long are closed by extending the previous chord
+const MIN_SECTION_SECONDS = 1.0;
+
+// --- UTILS ---
+
+const harmonyKey = (chord: ChordEvent): string => {
+  let quality = chord.quality.toLowerCase();
+  if (quality === 'minor' || quality === 'min' || quality === '-') quality = 'm';
+  if (quality === 'major' || (quality === 'maj' && !chord.extension)) quality = '';
+  return `${chord.root}|${quality}|${chord.extension}|${chord.bass}`;
+};
+
+const chordEnd = (chord: ChordEvent) => chord.seconds + chord.duration;
+
+const chordAt = (chords: ChordEvent[], time: number): ChordEvent | undefined =>
+  chords.find(c => time >= c.seconds && time < chordEnd(c));
+
+/** Most frequent value, weighted (ties keep the earliest). Empty values are ignored. */
+const weightedMode = <T>(entries: { value: T; weight: number }[], isEmpty: (v: T) => boolean): T | undefined => {
+  const totals = new Map<T, number>();
+  for (const { value, weight } of entries) {
+    if (isEmpty(value)) continue;
+    totals.set(value, (totals.get(value) || 0) + weight);
+  }
+  let best: T | undefined;
+  let bestWeight = -1;
+  totals.forEach((weight, value) => {
+    if (weight > bestWeight) { best = value; bestWeight = weight; }
+  });
+  return best;
+};
+
+const weightedMedian = (entries: { value: number; weight: number }[]): number => {
+  const sorted = [...entries].sort((a, b) => a.value - b.value);
+  const half = sorted.reduce((sum, e) => sum + e.weight, 0) / 2;
+  let acc = 0;
+  for (const entry of sorted) {
+    acc += entry.weight;
+    if (acc >= half) return entry.value;
+  }
+  return sorted[sorted.length - 1]?.value ?? 0;
+};
+
+const clipChords = (chords: ChordEvent[], from: number, to: number): ChordEvent[] =>
+  chords
+    .map(c => {
+      const seconds = Math.max(c.seconds, from);
+      const end = Math.min(chordEnd(c), to);
+      return { ...c, seconds, duration: end - seconds };
+    })
+    .filter(c => c.duration >= MIN_CHORD_SECONDS);
+
+// --- WINDOW PLANNING ---
+
+/** Splits [0, duration] into overlapping windows of roughly `windowSeconds`. */
+export const planWindows = (duration: number, { windowSeconds, overlapSeconds, minTailSeconds }: WindowPlan): AudioWindow[] => {
+  const windows: AudioWindow[] = [];
+  let startTime = 0;
+
+  while (true) {
+    let endTime = startTime + windowSeconds;
+    if (endTime >= duration - minTailSeconds) {
+      windows.push({ index: windows.length, startTime, endTime: duration });
+      return windows;
+    }
+    windows.push({ index: windows.length, startTime, endTime });
+    startTime = endTime - overlapSeconds;
+  }
+};
+
+// --- STITCHING ---
+
+/**
+ * Picks where the timeline switches from window A to window B inside their overlap.
+ * Starts at the middle of the overlap; if the windows disagree about the chord
+ * sounding there, the more confident window keeps its chord and the cut moves to
+ * that chord's boundary, so the seam lands on a real chord change.
+ */
+const resolveCut = (left: WindowResult, right: WindowResult, leftChords: ChordEvent[], rightChords: ChordEvent[]): number => {
+  const overlapStart = right.window.startTime;
+  const overlapEnd = left.window.endTime;
+  const seam = (overlapStart + overlapEnd) / 2;
+
+  const a = chordAt(leftChords, seam);
+  const b = chordAt(rightChords, seam);
+  if (!a || !b || harmonyKey(a) === harmonyKey(b)) return seam;
+
+  if (a.confidence >= b.confidence) {
+    return Math.min(chordEnd(a), overlapEnd);
+  }
+  return Math.max(b.seconds, overlapStart);
+};
+
+const stitchChords = (results: WindowResult[], cuts: number[], shifted: ChordEvent[][]): ChordEvent[] => {
+  const merged: ChordEvent[] = [];
+
+  results.forEach((_, i) => {
+    for (const chord of clipChords(shifted[i], cuts[i], cuts[i + 1])) {
+      const prev = merged[merged.length - 1];
+      const touching = prev && Math.abs(chordEnd(prev) - chord.seconds) <= MAX_GAP_FILL;
+
+      if (prev && touching && i > 0 && chord.seconds <= cuts[i] + MAX_GAP_FILL && harmonyKey(prev) === harmonyKey(chord)) {
+        // Same chord on both sides of a seam: one event, not two
+        prev.duration = chordEnd(chord) - prev.seconds;
+        prev.confidence = Math.max(prev.confidence, chord.confidence);
+        continue;
+      }
+      if (prev && touching && chord.seconds > chordEnd(prev)) {
+        prev.duration = chord.seconds - prev.seconds;
+      }
+      merged.push({ ...chord });
+    }
+  });
+
+  return merged.map(c => ({ ...c, timestamp: formatTimestamp(c.seconds) }));
+};
+
+const stitchSections = (results: WindowResult[], cuts: number[]): SectionEvent[] => {
+  const merged: SectionEvent[] = [];
+
+  results.forEach(({ window, analysis }, i) => {
+    const sections = analysis.sections
+      .map(s => ({
+        ...s,
+        startTime: Math.max(s.startTime + window.startTime, cuts[i]),
+        endTime: Math.min(s.endTime + window.startTime, cuts[i + 1]),
+      }))
+      .filter(s => s.endTime - s.startTime >= MIN_SECTION_SECONDS)
+      .sort((a, b) => a.startTime - b.startTime);
+
+    for (const section of sections) {
+      const prev = merged[merged.length - 1];
+      if (prev && prev.name === section.name && section.startTime - prev.endTime <= MAX_GAP_FILL) {
+        prev.endTime = Math.max(prev.endTime, section.endTime);
+        continue;
+      }
+      if (prev && section.startTime < prev.endTime) section.startTime = prev.endTime;
+      if (section.endTime - section.startTime >= MIN_SECTION_SECONDS) merged.push(section);
+    }
+  });
+
+  return merged;
+};
+
+/** Each window contributes its regions (or its single key) within its own stretch of the timeline. */
+const stitchKeyRegions = (results: WindowResult[], cuts: number[]): KeyRegion[] | undefined => {
+  if (!results.some(r => r.analysis.keyRegions?.length)) return undefined;
+  const merged: KeyRegion[] = [];
+
+  results.forEach(({ window, analysis }, i) => {
+    const regions = analysis.keyRegions?.length
+      ? analysis.keyRegions
+      : [{ key: analysis.key, startTime: 0, endTime: window.endTime - window.startTime }];
+
+    for (const region of regions) {
+      const startTime = Math.max(region.startTime + window.startTime, cuts[i]);
+      const endTime = Math.min(region.endTime + window.startTime, cuts[i + 1]);
+      if (!region.key || endTime <= startTime) continue;
+      const prev = merged[merged.length - 1];
+      if (prev && prev.key === region.key) {
+        prev.endTime = Math.max(prev.endTime, endTime);
+        continue;
+      }
+      if (prev) prev.endTime = startTime; // Close gaps left at seams
+      merged.push({ key: region.key, startTime: merged.length ? startTime : 0, endTime });
+    }
+  });
+
+  if (merged.length) merged[merged.length - 1].endTime = cuts[cuts.length - 1];
+  return merged.length ? merged : undefined;
+};
+
+/** Merges per-window analyses into one continuous SongAnalysis covering `totalDuration`. */
+export const stitchWindowResults = (results: WindowResult[], totalDuration: number): SongAnalysis => {
+  if (results.length === 0) throw new Error("No window results to stitch.");
+  const ordered = [...results].sort((a, b) => a.window.startTime - b.window.startTime);
+
+  const shifted = ordered.map(({ window, analysis }) =>
+    clipChords(
+      analysis.chords.map(c => ({ ...c, seconds: c.seconds + window.startTime })),
+      window.startTime,
+      window.endTime,
+    ),
+  );
+
+  // cuts[i]..cuts[i+1] is the stretch of the timeline owned by window i
+  const cuts = [0];
+  for (let i = 1; i < ordered.length; i++) {
+    const cut = resolveCut(ordered[i - 1], ordered[i], shifted[i - 1], shifted[i]);
+    cuts.push(Math.max(cut, cuts[i - 1]));
+  }
+  cuts.push(Math.max(totalDuration, ordered[ordered.length - 1].window.endTime));
+
+  const weighted = <T>(pick: (a: SongAnalysis) => T) =>
+    ordered.map(({ analysis }, i) => ({ value: pick(analysis), weight: cuts[i + 1] - cuts[i] }));
+  const isEmptyString = (v: string) => !v;
+
+  const stitched: SongAnalysis = {
+    title: weightedMode(weighted(a => a.title), isEmptyString) ?? '',
+    artist: weightedMode(weighted(a => a.artist), isEmptyString) ?? '',
+    key: weightedMode(weighted(a => a.key), isEmptyString) ?? '',
+    bpm: Math.round(weightedMedian(weighted(a => a.bpm)) * 10) / 10,
+    timeSignature: weightedMode(weighted(a => a.timeSignature), isEmptyString) ?? '4/4',
+    complexityLevel: weightedMode(weighted(a => a.complexityLevel), isEmptyString) ?? '',
+    summary: ordered.find(r => r.analysis.summary)?.analysis.summary ?? '',
+    sections: stitchSections(ordered, cuts),
+    chords: stitchChords(ordered, cuts, shifted),
+  };
+  const keyRegions = stitchKeyRegions(ordered, cuts);
+  if (keyRegions) stitched.keyRegions = keyRegions;
+  return stitched;
+};
@@ -0,0 +1,60 @@
+import { parseKey } from "./musicTheory";
+
+// --- PRESETS ---
+
+export interface TuningPreset {
+  id: string;
+  name: string;
+  instrument: string;
+  strings: number[]; // MIDI notes in string order, from the bass side
+}
+
+export const TUNING_PRESETS: TuningPreset[] = [
+  { id: 'guitar-standard', name: 'Standard', instrument: 'Guitar', strings: [40, 45, 50, 55, 59, 64] }, // E A D G B E
+  { id: 'guitar-drop-d', name: 'Drop D', instrument: 'Guitar', strings: [38, 45, 50, 55, 59, 64] },     // D A D G B E
+  { id: 'guitar-dadgad', name: 'DADGAD', instrument: 'Guitar', strings: [38, 45, 50, 55, 57, 62] },
+  { id: 'guitar-open-g', name: 'Open G', instrument: 'Guitar', strings: [38, 43, 50, 55, 59, 62] },     // D G D G B D
+  { id: 'bass-4', name: '4-string', instrument: 'Bass', strings: [28, 33, 38, 43] },                    // E A D G
+  { id: 'bass-5', name: '5-string', instrument: 'Bass', strings: [23, 28, 33, 38, 43] },                // B E A D G
+  { id: 'ukulele', name: 'Standard', instrument: 'Ukulele', strings: [67, 60, 64, 69] },                // Re-entrant G C E A
+  { id: 'violin', name: 'Standard', instrument: 'Violin', strings: [55, 62, 69, 76] },                  // G D A E
+];
+
+export const presetLabel = (preset: TuningPreset) => `${preset.instrument} · ${preset.name}`;
+
+/** String whose target is closest to a (fractional) MIDI note. */
+export const nearestString = (preset: TuningPreset, midi: number): number => {
+  let best = 0;
+  preset.strings.forEach((target, i) => {
+    if (Math.abs(midi - target) < Math.abs(midi - preset.strings[best])) best = i;
+  });
+  return best;
+};
+
+// --- SUGGESTIONS ---
+
+export interface TuningSuggestion {
+  preset: TuningPreset;
+  reason: string;
+}
+
+const presetById = (id: string) => TUNING_PRESETS.find(p => p.id === id)!;
+
+/**
+ * Guitar tunings that suit a song's key: a low D drone for D-centred songs,
+ * open G for G major. Empty when standard tuning is the natural choice.
+ */
+export const suggestTunings = (key: string): TuningSuggestion[] => {
+  const info = parseKey(key);
+  if (!info) return [];
+  const { tonic } = info;
+  const suggestions: TuningSuggestion[] = [];
+  if (tonic === 2) {
+    suggestions.push({ preset: presetById('guitar-drop-d'), reason: `Low D root under ${key}` });
+    suggestions.push({ preset: presetById('guitar-dadgad'), reason: `Open D drones for ${key}` });
+  }
+  if (tonic === 7 && info.mode === 'major') {
+    suggestions.push({ preset: presetById('guitar-open-g'), reason: `Open strings form the I chord of ${key}` });
+  }
+  return suggestions;
+};
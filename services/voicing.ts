@@ -0,0 +1,48 @@
+import { ChordEvent, AnalysisLevel } from "../types";
+import { CHORD_INTERVALS, canonicalChordType, simplifyChordType, noteToPitchClass, mod12 } from "./musicTheory";
+
+// --- CONSTANTS ---
+
+// Block chords sit around middle C, bass notes in the bass register (MIDI note numbers)
+const CHORD_LOW = 52;  // E3
+const CHORD_HIGH = 64; // E4, highest allowed lowest note of a block chord
+const BASS_LOW = 36;   // C2
+
+// --- VOICING ---
+
+/** Chord tones as MIDI notes: a close-position block chord led smoothly from the previous one. */
+export const voiceChord = (chord: ChordEvent, level: AnalysisLevel, previous: number[] | null): number[] | null => {
+  const root = noteToPitchClass(chord.root);
+  if (root === null) return null;
+
+  const type = simplifyChordType(canonicalChordType(chord), level);
+  const pitchClasses = [...new Set((CHORD_INTERVALS[type] || CHORD_INTERVALS['']).map(i => mod12(root + i)))];
+
+  // Try every inversion and octave whose lowest note lands in the chord register
+  const candidates: number[][] = [];
+  pitchClasses.forEach((_, inversion) => {
+    const order = [...pitchClasses.slice(inversion), ...pitchClasses.slice(0, inversion)];
+    for (let low = CHORD_LOW; low <= CHORD_HIGH; low++) {
+      if (mod12(low) !== order[0]) continue;
+      const notes = [low];
+      for (const pc of order.slice(1)) {
+        const prev = notes[notes.length - 1];
+        notes.push(prev + (mod12(pc - prev) || 12));
+      }
+      candidates.push(notes);
+    }
+  });
+
+  const center = (notes: number[]) => notes.reduce((sum, n) => sum + n, 0) / notes.length;
+  // Without a previous chord, prefer root position near the middle of the register
+  const target = previous ? center(previous) : (CHORD_LOW + CHORD_HIGH) / 2 + 4;
+  const cost = (notes: number[]) =>
+    Math.abs(center(notes) - target) + (previous ? 0 : mod12(notes[0] - root) === 0 ? 0 : 3);
+
+  return candidates.reduce((best, notes) => (cost(notes) < cost(best) ? notes : best));
+};
+
+export const bassNote = (chord: ChordEvent): number | null => {
+  const pc = noteToPitchClass(chord.bass || chord.root);
+  return pc === null ? null : BASS_LOW + pc;
+};
@@ -10,6 +10,7 @@ export enum AnalysisStatus {
 
 export type AnalysisLevel = 'Basic' | 'Intermediate' | 'Advanced'; // Now used for UI View only
 export type UserTier = 'Basic' | 'Pro' | 'Premier';
+export type AnalysisEngine = 'ai' | 'local'; // Gemini (or its stand-ins) vs in-browser DSP
 
 export interface SectionEvent {
   name: string; // "Intro", "Verse 1", "Chorus"
@@ -18,6 +19,23 @@ export interface SectionEvent {
   color?: string; // Hex code suggestion
 }
 
+export interface KeyRegion {
+  key: string;       // "E Major"
+  startTime: number; // Seconds
+  endTime: number;   // Seconds
+}
+
+export interface TempoMap {
+  beats: number[]; // Beat times in seconds, from the local beat tracker
+  bpm: number;     // Median tempo over the whole map
+}
+
+export interface PracticeLoop {
+  name: string;
+  start: number; // Seconds
+  end: number;   // Seconds
+}
+
 export interface ChordEvent {
   timestamp: string; // Display string "0:00"
   seconds: number;   // Exact start time in seconds
@@ -43,8 +61,13 @@ export interface SongAnalysis {
   
   sections: SectionEvent[];
   chords: ChordEvent[];
+  keyRegions?: KeyRegion[]; // Key in effect over time (modulations); `key` stays the main key
+  downbeatOffset?: number;  // Seconds to the first downbeat; bar lines are counted from here
+  tempoMap?: TempoMap;      // Measured beats; when present, bars follow them instead of a fixed `bpm`
+  loops?: PracticeLoop[];   // Saved A/B practice loops
   
   summary: string;
+  engine?: AnalysisEngine; // Which engine produced this analysis
 }
 
 export interface AudioMetadata {
@@ -52,3 +75,23 @@ export interface AudioMetadata {
   duration: number;
   audioUrl?: string;
 }
+
+export type AnalysisStage = 'preparing' | 'uploading' | 'parsing';
+
+export interface AnalysisProgress {
+  message: string;       // Human readable, shown on the ANALYZING_AI screen
+  stage?: AnalysisStage; // Set by the AI path; the local engine only reports messages
+  attempt?: number;      // 1-based request attempt while the provider retries
+  attemptCount?: number;
+  windowIndex?: number;  // 0-based, for windowed analyses of long recordings
+  windowCount?: number;
+}
+
+export interface LibraryEntry {
+  id: string;
+  analysis: SongAnalysis;
+  metadata: AudioMetadata; // Stored without audioUrl (object URLs don't survive a reload)
+  hasAudio: boolean;       // Audio blob lives in a separate store so listing stays cheap
+  createdAt: number;       // Epoch ms
+  updatedAt: number;
+}